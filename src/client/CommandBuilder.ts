@@ -1,15 +1,9 @@
-import {MikrotikClient, Subscription} from './MikrotikClient';
+import {MikrotikClient, Subscription, IDeadlineOptions, IStreamOptions, IListenOptions, IWriteOptions} from './MikrotikClient';
 import {camelToKebab} from '../utils/Helpers';
 import {MikrotikCollection} from '../utils/MikrotikCollection';
-import {OfflineQueue} from '../core/OfflineQueue';
-
-/**
- * Interface for the internal cache storage.
- */
-interface CacheEntry {
-    data: any[];
-    expires: number;
-}
+import {QueryBuilder} from './QueryBuilder';
+import {DeferredTask} from '../core/OfflineQueue';
+import {StreamIterator, IteratorOptions} from '../core/StreamIterator';
 
 /**
  * CommandBuilder.ts
@@ -20,12 +14,14 @@ interface CacheEntry {
  */
 export class CommandBuilder<T extends Record<string, any>> {
     private readonly client: MikrotikClient;
+    // Runs listen()/listenMonitor() (MikrotikPool pins streams to a dedicated connection)
+    private readonly streamClient: MikrotikClient;
     private readonly menuPath: string;
 
     private _idempotencyKey?: string;
 
-    // Internal storage for query parts
-    private queryParams: Record<string, string> = {};
+    // Internal storage for query parts (compiled to the RouterOS query stack)
+    private query: QueryBuilder;
     private propList: string[] = [];
 
     // Internal state for execution options
@@ -34,23 +30,19 @@ export class CommandBuilder<T extends Record<string, any>> {
     // Persistence Flag
     private isPersistentRequest: boolean = false;
 
-    // ========================================================
-    // STATIC CACHE (Shared across builders)
-    // ========================================================
-    /**
-     * Short-lived cache to prevent read-spamming the router.
-     * TTL: 5 Seconds.
-     */
-    private static queryCache = new Map<string, CacheEntry>();
-    private static readonly CACHE_TTL_MS = 5000; // 5s
+    // Id of the last task this builder pushed to the client's OfflineQueue
+    private deferredTaskId?: string;
 
-    constructor(client: MikrotikClient, menuPath: string) {
+
+    constructor(client: MikrotikClient, menuPath: string, streamClient: MikrotikClient = client) {
         this.client = client;
+        this.streamClient = streamClient;
         // Normalize path: Ensure it starts with '/' and doesn't end with '/'
         this.menuPath = menuPath.startsWith('/') ? menuPath : '/' + menuPath;
         if (this.menuPath.endsWith('/') && this.menuPath.length > 1) {
             this.menuPath = this.menuPath.slice(0, -1);
         }
+        this.query = new QueryBuilder((key, value) => this.formatValue(key, value));
     }
 
     // ========================================================
@@ -83,13 +75,74 @@ export class CommandBuilder<T extends Record<string, any>> {
      * @example
      * // Find all disabled interfaces (camelCase supported)
      * client.command('/interface')
-     * .where('disabled', true) // Sends ?disabled=true
+     * .where('disabled', true) // Sends ?disabled=yes
      * .print();
      */
     public where(key: string, value: string | number | boolean): this {
-        const kebabKey = camelToKebab(key);
-        this.queryParams[`?${kebabKey}`] = this.formatValue(value);
+        this.query.where(key, value);
+        return this;
+    }
 
+    /**
+     * Adds an **OR Filter** to the command.
+     *
+     * The condition is OR-ed with everything before it. AND binds tighter than OR
+     * (like SQL), so `a.where().where().orWhere()` reads as `(a AND b) OR c`.
+     * Compiles to `?key=value` followed by the `?#|` stack operation.
+     *
+     * @param key The field name to filter by (camelCase supported).
+     * @param value The value to match.
+     * @returns The current builder instance for chaining.
+     *
+     * @example
+     * // Fetch the PPP secrets of two profiles in one round trip
+     * client.command('/ppp/secret')
+     * .where('profile', 'gold')
+     * .orWhere('profile', 'vip')
+     * .print();
+     */
+    public orWhere(key: string, value: string | number | boolean): this {
+        this.query.orWhere(key, value);
+        return this;
+    }
+
+    /**
+     * Adds a **Negated Filter** (Not Equal) to the command.
+     * Compiles to `?key=value` followed by `?#!`.
+     *
+     * @example
+     * // Every firewall rule except the accepted ones
+     * client.command('/ip/firewall/filter')
+     * .whereNot('action', 'accept')
+     * .print();
+     */
+    public whereNot(key: string, value: string | number | boolean): this {
+        this.query.whereNot(key, value);
+        return this;
+    }
+
+    /**
+     * Adds a **Greater Than** filter (`?>key=value`), evaluated by the router.
+     *
+     * @example
+     * // Heavy connections only, instead of pulling the whole table
+     * client.command('/ip/firewall/connection')
+     * .whereGt('origBytes', 10_000_000)
+     * .print();
+     */
+    public whereGt(key: string, value: string | number): this {
+        this.query.whereGt(key, value);
+        return this;
+    }
+
+    /**
+     * Adds a **Less Than** filter (`?<key=value`), evaluated by the router.
+     *
+     * @example
+     * client.command('/interface/vlan').whereLt('vlanId', 100).print();
+     */
+    public whereLt(key: string, value: string | number): this {
+        this.query.whereLt(key, value);
         return this;
     }
 
@@ -99,7 +152,7 @@ export class CommandBuilder<T extends Record<string, any>> {
      *
      * Matches items where the specified key exists (is defined), regardless of its value.
      * This is useful for finding items that have optional properties set.
-     * Corresponds to the MikroTik API syntax `?key=`.
+     * Corresponds to the MikroTik API syntax `?key`.
      *
      * @param key The field name to check for existence.
      * @returns The current builder instance for chaining.
@@ -111,10 +164,59 @@ export class CommandBuilder<T extends Record<string, any>> {
      * .print();
      */
     public whereExists(key: string): this {
-        const kebabKey = camelToKebab(key);
-        // In MikroTik API, existence is queried by sending the key without value (Socket)
-        // or properly mapped in REST via your translateToRest logic.
-        this.queryParams[`?${kebabKey}`] = '';
+        this.query.whereExists(key);
+        return this;
+    }
+
+    /**
+     * Adds an **Absence Filter** (`?-key`): matches items that do NOT have the property.
+     *
+     * @example
+     * // Firewall rules nobody documented
+     * client.command('/ip/firewall/filter')
+     * .whereNotExists('comment')
+     * .print();
+     */
+    public whereNotExists(key: string): this {
+        this.query.whereNotExists(key);
+        return this;
+    }
+
+    /**
+     * **Grouped Sub-Query (AND)**
+     *
+     * Evaluates the conditions built inside the callback as a single term,
+     * AND-ed with the rest of the query. Use it to override the default precedence.
+     *
+     * @param build Receives a fresh `QueryBuilder` to fill.
+     * @returns The current builder instance for chaining.
+     *
+     * @example
+     * // service = pppoe AND (profile = gold OR profile = vip)
+     * client.command('/ppp/active')
+     * .where('service', 'pppoe')
+     * .whereGroup(q => q.where('profile', 'gold').orWhere('profile', 'vip'))
+     * .print();
+     */
+    public whereGroup(build: (query: QueryBuilder) => void): this {
+        this.query.whereGroup(build);
+        return this;
+    }
+
+    /**
+     * **Grouped Sub-Query (OR)**
+     *
+     * Same as `.whereGroup()`, but OR-ed with the rest of the query.
+     *
+     * @example
+     * // disabled = true OR (rx-byte > 0 AND tx-byte = 0)
+     * client.command('/interface')
+     * .where('disabled', true)
+     * .orWhereGroup(q => q.whereGt('rxByte', 0).where('txByte', 0))
+     * .print();
+     */
+    public orWhereGroup(build: (query: QueryBuilder) => void): this {
+        this.query.orWhereGroup(build);
         return this;
     }
 
@@ -204,6 +306,27 @@ export class CommandBuilder<T extends Record<string, any>> {
         return this;
     }
 
+    /**
+     * **Offline Outcome**
+     *
+     * Resolves once the last write this builder deferred to the `OfflineQueue`
+     * has been replayed on the router, with the same value the write would have returned online.
+     * Rejects if the replay fails or the task expires (TTL).
+     *
+     * @example
+     * const builder = client.command('/ip/firewall/address-list').persistent();
+     * const id = await builder.add({ list: 'blocked', address: '10.0.0.9' });
+     * if (id === 'QUEUED_OFFLINE') {
+     * const created = await builder.whenFlushed(); // '*1A' after reconnection
+     * }
+     */
+    public whenFlushed(): Promise<any> {
+        if (!this.deferredTaskId) {
+            return Promise.reject(new Error('CommandBuilder: No write was deferred to the OfflineQueue.'));
+        }
+        return this.client.offlineQueue.waitFor(this.deferredTaskId);
+    }
+
     // ========================================================
     // READ TERMINATORS (With Caching & Source Filtering)
     // ========================================================
@@ -269,11 +392,11 @@ export class CommandBuilder<T extends Record<string, any>> {
      * 1.  **Cache Hit:** If the exact same query was made < 5 seconds ago, returns local data immediately.
      * 2.  **Cache Miss:** Fetches from the router, stores the result, and returns it.
      *
-     * **Feature: Garbage Collection**
-     * Includes a probabilistic strategy (5% chance) to prune expired cache entries
-     * on every call to keep memory footprint low.
+     * The cache is the client's built-in 'queryCache' middleware: any write to this menu
+     * (from a builder, a transaction or a raw `client.write()`) invalidates it.
      *
      * @param extraParams Optional explicit parameters (e.g., `{ 'count-only': 'true' }`).
+     * @param options Optional deadline (`timeoutMs`), cancellation `signal`, `raw` wire-format rows and `cache: false` to bypass the read cache.
      * @returns A `MikrotikCollection` (v1.2.0) equipped with pagination and transformation tools.
      *
      * @example
@@ -306,23 +429,18 @@ export class CommandBuilder<T extends Record<string, any>> {
      * .then(c => c.toGrouped('service'));
      *
      * console.log(`PPPoE Users: ${report['pppoe']?.length || 0}`);
+     *
+     * @example
+     * // EXAMPLE 5: Bounded Read
+     * // Busy routers can take long to dump huge tables. Give up after 3 seconds.
+     * const conns = await client.command('/ip/firewall/connection').print(undefined, { timeoutMs: 3000 });
      */
-    public async print(extraParams?: Record<string, any>): Promise<MikrotikCollection<T>> {
+    public async print(extraParams?: Record<string, any>, options?: IDeadlineOptions & Pick<IWriteOptions, 'raw' | 'cache'>): Promise<MikrotikCollection<T>> {
         const fluentParams = this.getParams();
         const finalParams = {...fluentParams, ...extraParams};
 
-        // GENERATE CACHE KEY
-        const host = (this.client as any).options?.host || 'default';
-        const cacheKey = `${host}:${this.menuPath}:${JSON.stringify(finalParams)}`;
-
-        // CHECK CACHE
-        const cached = CommandBuilder.queryCache.get(cacheKey);
-        if (cached && Date.now() < cached.expires) {
-            return new MikrotikCollection<T>(cached.data);
-        }
-
-        // NETWORK REQUEST (Cache Miss)
-        const rawData = await this.client.write(`${this.menuPath}/print`, finalParams);
+        // Read-through cache: the client's 'queryCache' middleware serves repeated parsed queries (unless `cache: false`)
+        const rawData = await this.client.write(`${this.menuPath}/print`, finalParams, {cache: !options?.raw, ...options});
 
         let cleanData: T[] = [];
 
@@ -332,27 +450,9 @@ export class CommandBuilder<T extends Record<string, any>> {
             cleanData = [rawData as T];
         }
 
-        // SAVE TO CACHE
-        CommandBuilder.queryCache.set(cacheKey, {
-            data: cleanData,
-            expires: Date.now() + CommandBuilder.CACHE_TTL_MS
-        });
-
-        if (Math.random() > 0.95) this.pruneCache();
-
         return new MikrotikCollection<T>(cleanData);
     }
 
-    /**
-     * Helper to clean expired cache entries to prevent memory leaks.
-     */
-    private pruneCache() {
-        const now = Date.now();
-        for (const [key, val] of CommandBuilder.queryCache.entries()) {
-            if (now > val.expires) CommandBuilder.queryCache.delete(key);
-        }
-    }
-
     /**
      * **Execution Terminator: First Result**
      *
@@ -383,18 +483,20 @@ export class CommandBuilder<T extends Record<string, any>> {
      * Sends an `/add` command to the router to create a new item.
      *
      * **Feature: Automatic Cache Invalidation**
-     * Upon success, this method automatically invalidates the local cache for this menu path.
+     * The 'queryCache' middleware invalidates the local cache for this menu path.
      * This guarantees that the next `.print()` call will fetch fresh data from the router,
      * including the item you just created.
      *
      * **Feature: Offline Queueing**
      * If the router is unreachable and `.persistent()` was used (or global offline mode is on),
-     * the command is saved to the `OfflineQueue` for later execution.
+     * the command is saved to the client's `OfflineQueue` and replayed on reconnection.
+     * Use `.whenFlushed()` to await the real result.
      *
      * **Feature: Idempotency**
      * If `.idempotent()` was called, passes the flag to the client to safely handle duplicates.
      *
      * @param data The object containing the properties for the new item.
+     * @param options Optional deadline (`timeoutMs`) and cancellation `signal`, applied to each request.
      * @returns The MikroTik internal ID (e.g., `*1A`) of the created item, or `'QUEUED_OFFLINE'`.
      *
      * @example
@@ -405,12 +507,12 @@ export class CommandBuilder<T extends Record<string, any>> {
      * comment: 'Added via API'
      * });
      */
-    public async add(data: Partial<T>): Promise<string | T> {
+    public async add(data: Partial<T>, options?: IDeadlineOptions): Promise<string | T> {
         const params = this.prepareParams(data);
 
         // OFFLINE CHECK
         if (this.shouldDefer()) {
-            OfflineQueue.enqueue({ action: 'add', path: this.menuPath, params: params });
+            this.defer({ action: 'add', path: this.menuPath, params: params });
             return 'QUEUED_OFFLINE';
         }
 
@@ -419,11 +521,11 @@ export class CommandBuilder<T extends Record<string, any>> {
             `${this.menuPath}/add`,
             params, {
                 idempotent: this._idempotent,
-                idempotencyKey: this._idempotencyKey
+                idempotencyKey: this._idempotencyKey,
+                ...options
             }
         );
 
-        this.invalidatePathCache();
 
         let responseObj: any = null;
 
@@ -445,12 +547,12 @@ export class CommandBuilder<T extends Record<string, any>> {
             try {
                 const search = await this.client.write(`${this.menuPath}/print`, {
                     '?name': params['name']
-                });
+                }, options);
                 if (Array.isArray(search) && search.length > 0) {
                     return search[0] as T;
                 }
             } catch (e) {
-                console.warn("Fallback search failed", e);
+                this.client.logger.warn('CommandBuilder: Fallback search failed.', { path: this.menuPath, error: e });
             }
         }
 
@@ -458,7 +560,8 @@ export class CommandBuilder<T extends Record<string, any>> {
             try {
                 const fetchResponse = await this.client.write(
                     `${this.menuPath}/print`,
-                    { '.id': newId }
+                    { '.id': newId },
+                    options
                 );
 
                 if (Array.isArray(fetchResponse) && fetchResponse.length > 0) {
@@ -470,7 +573,7 @@ export class CommandBuilder<T extends Record<string, any>> {
                 }
 
             } catch (error) {
-                console.warn(`Auto-fetch failed for ${newId}`, error);
+                this.client.logger.warn(`CommandBuilder: Auto-fetch failed for ${newId}.`, { path: this.menuPath, error });
             }
 
             return newId;
@@ -510,6 +613,7 @@ export class CommandBuilder<T extends Record<string, any>> {
      *
      * @param id The internal ID of the item (e.g., `*14`) or a unique name if supported by the menu.
      * @param data An object containing ONLY the fields you want to change (Partial update).
+     * @param options Optional deadline (`timeoutMs`) and cancellation `signal`.
      *
      * @example
      * // Update a PPPoE secret's password
@@ -518,24 +622,24 @@ export class CommandBuilder<T extends Record<string, any>> {
      * comment: 'Password changed on ' + new Date().toISOString()
      * });
      */
-    public async set(id: string, data: Partial<T>): Promise<T> {
+    public async set(id: string, data: Partial<T>, options?: IDeadlineOptions): Promise<T> {
         const params = this.prepareParams(data);
         params['.id'] = id;
 
         // OFFLINE CHECK
         if (this.shouldDefer()) {
-            OfflineQueue.enqueue({action: 'set', path: this.menuPath, params: params});
+            this.defer({action: 'set', path: this.menuPath, params: params});
             throw new Error("OFFLINE_QUEUED");
         }
 
-        await this.client.write(`${this.menuPath}/set`, params);
-        this.invalidatePathCache();
+        await this.client.write(`${this.menuPath}/set`, params, options);
 
         // AUTO-FETCH
         try {
             const fetchResponse = await this.client.write(
                 `${this.menuPath}/print`,
-                { '.id': id }
+                { '.id': id },
+                options
             );
 
             if (Array.isArray(fetchResponse) && fetchResponse.length > 0) {
@@ -549,7 +653,7 @@ export class CommandBuilder<T extends Record<string, any>> {
             }
 
         } catch (error) {
-            console.warn(`Set successful, but auto-fetch failed for ${id}`, error);
+            this.client.logger.warn(`CommandBuilder: Set successful, but auto-fetch failed for ${id}.`, { path: this.menuPath, error });
         }
 
         return { '.id': id, ...data } as unknown as T;
@@ -566,6 +670,7 @@ export class CommandBuilder<T extends Record<string, any>> {
      * which is significantly faster than a loop of delete calls.
      *
      * @param id A single ID string (e.g., `*1A`) or an array of IDs.
+     * @param options Optional deadline (`timeoutMs`) and cancellation `signal`, applied to each removal.
      *
      * @example
      * // Remove a single item
@@ -576,14 +681,14 @@ export class CommandBuilder<T extends Record<string, any>> {
      * const idsToKick = ['*8001', '*8002', '*8003'];
      * await client.command('/ppp/active').remove(idsToKick);
      */
-    public async remove(id: string | string[]): Promise<string[]> {
+    public async remove(id: string | string[], options?: IDeadlineOptions): Promise<string[]> {
         // Always normalize input to an Array
         const ids = Array.isArray(id) ? id : [id];
 
         // OFFLINE CHECK
         if (this.shouldDefer()) {
             // For offline queue, store the "joined" version (comma-separated) for compactness
-            OfflineQueue.enqueue({
+            this.defer({
                 action: 'remove',
                 path: this.menuPath,
                 params: { '.id': ids.join(',') }
@@ -597,16 +702,14 @@ export class CommandBuilder<T extends Record<string, any>> {
             // This ensures compatibility with REST API, which typically requires individual
             // DELETE requests per ID rather than a comma-separated list in the URL path.
             await Promise.all(ids.map(singleId => {
-                return this.client.write(`${this.menuPath}/remove`, { '.id': singleId });
+                return this.client.write(`${this.menuPath}/remove`, { '.id': singleId }, options);
             }));
         } catch (error) {
-            console.error("Error during bulk removal:", error);
+            // Re-thrown to the caller, so only worth a debug line
+            this.client.logger.debug('CommandBuilder: Error during bulk removal.', { path: this.menuPath, ids, error });
             throw error;
         }
 
-        // Invalidate Cache for this path to ensure next read is fresh
-        this.invalidatePathCache();
-
         return ids;
     }
 
@@ -628,6 +731,8 @@ export class CommandBuilder<T extends Record<string, any>> {
      * - The Streaming Flag (`=follow=`) is appended at the end.
      *
      * @param callback Function to execute whenever a new data packet arrives.
+     * @param options Optional `timeoutMs` (maximum stream lifetime), `signal`, `onError` / `onDone` handlers,
+     * `raw` packets and `followOnly` (changes only, no initial dump).
      * @returns A `Subscription` object with a `.stop()` method to cancel the stream.
      *
      * @example
@@ -641,36 +746,23 @@ export class CommandBuilder<T extends Record<string, any>> {
      * // Stop after 1 minute
      * setTimeout(() => logStream.stop(), 60000);
      */
-    public listen(callback: (item: T) => void): Subscription {
+    public listen(callback: (item: T) => void, options?: IListenOptions): Subscription {
         // Build Base Command
         const lines = [`${this.menuPath}/print`];
 
-        // Get All Parameters (Filters + Selects)
-        const params = this.getParams();
-
-        // Smart Parsing: Distinguish between Queries (?) and Attributes (=)
-        for (const [key, value] of Object.entries(params)) {
-            let cleanKey = key;
-
-            // Remove existing '?' prefix if present (from .where())
-            if (cleanKey.startsWith('?')) {
-                cleanKey = cleanKey.substring(1);
-            }
-
-            if (cleanKey === '.proplist') {
-                // Attributes MUST start with '='
-                lines.push(`=${cleanKey}=${value}`);
-            } else {
-                // Filters MUST start with '?'
-                lines.push(`?${cleanKey}=${value}`);
-            }
+        // Attributes MUST start with '='
+        if (this.propList.length > 0) {
+            lines.push(`=.proplist=${this.propList.join(',')}`);
         }
 
+        // Filters are already compiled to query words ('?...')
+        lines.push(...this.query.toWords());
+
         // Streaming Argument
-        lines.push('=follow=');
+        lines.push(options?.followOnly ? '=follow-only=' : '=follow=');
 
         // Send Raw Array to Client (Polymorphic Stream)
-        return this.client.stream(lines, undefined, callback);
+        return this.streamClient.stream(lines, undefined, callback, options);
     }
 
     /**
@@ -685,6 +777,7 @@ export class CommandBuilder<T extends Record<string, any>> {
      * filters into the correct format for these tools.
      *
      * @param callback Function to execute with the live metric data.
+     * @param options Optional `timeoutMs` (maximum stream lifetime), `signal` and `onError` / `onDone` handlers.
      * @returns A `Subscription` object.
      *
      * @example
@@ -695,14 +788,11 @@ export class CommandBuilder<T extends Record<string, any>> {
      * console.log(`RX: ${stats['rx-bits-per-second']} bps`);
      * });
      */
-    public listenMonitor(callback: (item: T) => void): Subscription {
-        const rawParams = this.getParams();
-        const actionParams: Record<string, string> = {};
-
-        // Convert standard query params to action params (remove '?')
-        for (const [key, value] of Object.entries(rawParams)) {
-            const cleanKey = key.startsWith('?') ? key.substring(1) : key;
-            actionParams[cleanKey] = value;
+    public listenMonitor(callback: (item: T) => void, options?: IStreamOptions): Subscription {
+        // Convert equality filters to action params (=key=value)
+        const actionParams: Record<string, string> = this.query.toEqualityParams();
+        if (this.propList.length > 0) {
+            actionParams['.proplist'] = this.propList.join(',');
         }
 
         let cmd = this.menuPath;
@@ -710,25 +800,60 @@ export class CommandBuilder<T extends Record<string, any>> {
             cmd = `${cmd}/monitor-traffic`;
         }
 
-        return this.client.stream(cmd, actionParams, callback);
+        return this.streamClient.stream(cmd, actionParams, callback, options);
     }
 
-    // ========================================================
-    // INTERNAL HELPERS
-    // ========================================================
+    /**
+     * **Streaming Terminator: Async Iterator**
+     *
+     * `listen()` for `for await` loops, with a bounded buffer (`bufferSize`, Default: 1000) and an
+     * `overflow` policy ('drop-oldest' by default, 'drop-newest' or 'error').
+     * Breaking out of the loop sends `/cancel` for the stream's tag.
+     *
+     * @param options Listen options (`followOnly`, `raw`, deadline, `signal`) plus buffer settings.
+     * @returns A `StreamIterator` of the streamed items.
+     *
+     * @example
+     * for await (const entry of client.command('/log').where('topics', 'critical').iterate({ followOnly: true })) {
+     * await pager.alert(entry.message);
+     * }
+     */
+    public iterate(options: IListenOptions & IteratorOptions = {}): StreamIterator<T> {
+        return new StreamIterator<T>(
+            (push, fail, end) => this.listen(push, {...options, onError: fail, onDone: end}),
+            options
+        );
+    }
 
     /**
-     * Clears cache entries related to the current menu path.
+     * **Streaming Terminator: Monitor Iterator**
+     *
+     * `listenMonitor()` for `for await` loops (`/interface/monitor-traffic`, `/tool/torch`).
+     *
+     * @param options Deadline, `signal` and buffer settings.
+     * @returns A `StreamIterator` of the metric samples.
+     *
+     * @example
+     * // Keep only the freshest sample while the loop is busy
+     * for await (const stats of client.command('/interface').where('interface', 'ether1').iterateMonitor({ bufferSize: 1 })) {
+     * gauge.set(stats.rxBitsPerSecond);
+     * }
      */
-    private invalidatePathCache() {
-        const host = (this.client as any).options?.host || 'default';
-        const prefix = `${host}:${this.menuPath}`;
+    public iterateMonitor(options: IStreamOptions & IteratorOptions = {}): StreamIterator<T> {
+        return new StreamIterator<T>(
+            (push, fail, end) => this.listenMonitor(push, {...options, onError: fail, onDone: end}),
+            options
+        );
+    }
 
-        for (const key of CommandBuilder.queryCache.keys()) {
-            if (key.startsWith(prefix)) {
-                CommandBuilder.queryCache.delete(key);
-            }
-        }
+    // ========================================================
+    // INTERNAL HELPERS
+    // ========================================================
+
+    private defer(task: Pick<DeferredTask, 'path' | 'action' | 'params'>): void {
+        // Refuse now rather than when the queue replays
+        this.client.policy.check(`${task.path}/${task.action}`);
+        this.deferredTaskId = this.client.offlineQueue.enqueue(task).id;
     }
 
     private shouldDefer(): boolean {
@@ -747,8 +872,13 @@ export class CommandBuilder<T extends Record<string, any>> {
     /**
      * Merges query params (filters) and property list (selects).
      */
-    private getParams(): Record<string, string> {
-        const params: Record<string, string> = {...this.queryParams};
+    private getParams(): Record<string, string | string[]> {
+        const params: Record<string, string | string[]> = {};
+
+        // Query stack words travel as one array; each driver serializes it its own way
+        if (!this.query.isEmpty()) {
+            params['.query'] = this.query.toWords();
+        }
 
         // Add .proplist if select() was used
         if (this.propList.length > 0) {
@@ -758,18 +888,19 @@ export class CommandBuilder<T extends Record<string, any>> {
         return params;
     }
 
-    private formatValue(value: string | number | boolean): string {
-        if (typeof value === 'boolean') {
-            return value ? 'yes' : 'no';
-        }
-        return String(value);
+    /**
+     * Wire text of a value: booleans as yes/no, decoded types (durations, Dates, `MacAddress`,
+     * `{ tx, rx }`...) through the client's decoding profile.
+     */
+    private formatValue(key: string, value: any): string {
+        return this.client.decoding.encode(this.menuPath, key, value);
     }
 
     private prepareParams(data: any): Record<string, any> {
         const params: Record<string, any> = {};
         for (const [key, value] of Object.entries(data)) {
             const kebabKey = camelToKebab(key);
-            params[kebabKey] = this.formatValue(value as any);
+            params[kebabKey] = this.formatValue(kebabKey, value);
         }
         return params;
     }
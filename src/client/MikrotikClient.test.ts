@@ -0,0 +1,142 @@
+import { test, describe, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MikrotikClient } from './MikrotikClient';
+import { RosAbortError, RosTimeoutError } from '../core/RosError';
+import { MockRouterServer, MockRouterOptions, MockCommandRecord } from '../testing/MockRouterServer';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Deadlines and cancellation', () => {
+    const mock = new MockRouterServer();
+    const commands: MockCommandRecord[] = [];
+    let client: MikrotikClient;
+
+    before(async () => {
+        await mock.start();
+        mock.handle('/tool/fetch', () => new Promise(resolve => setTimeout(() => resolve([{ status: 'finished' }]), 300)));
+        mock.on('command', record => commands.push(record));
+        client = mock.client();
+        await client.connect();
+    });
+
+    after(async () => {
+        await mock.stop();
+    });
+
+    test('an expired write rejects with RosTimeoutError and cancels it on the router', async () => {
+        commands.length = 0;
+        await assert.rejects(client.write('/tool/fetch', { url: 'http://x' }, { timeoutMs: 30 }), (error: RosTimeoutError) => {
+            assert.ok(error instanceof RosTimeoutError);
+            assert.equal(error.timeoutMs, 30);
+            assert.equal(error.isRetryable, true);
+            return true;
+        });
+        await wait(20);
+        assert.ok(commands.some(record => record.command === '/cancel'));
+    });
+
+    test('aborting a write rejects with RosAbortError and its reason', async () => {
+        const controller = new AbortController();
+        const pending = client.write('/tool/fetch', { url: 'http://x' }, { signal: controller.signal });
+        setTimeout(() => controller.abort('user left'), 20);
+
+        await assert.rejects(pending, (error: RosAbortError) => {
+            assert.ok(error instanceof RosAbortError);
+            assert.equal(error.reason, 'user left');
+            return true;
+        });
+    });
+
+    test('an already aborted signal sends nothing', async () => {
+        commands.length = 0;
+        await assert.rejects(
+            client.command('/ip/address').print(undefined, { signal: AbortSignal.abort(), cache: false }),
+            RosAbortError
+        );
+        assert.deepEqual(commands, []);
+    });
+
+    test('a stream deadline stops the stream and reports through onError', async () => {
+        const errors: Error[] = [];
+        client.command('/ip/address').listen(() => {}, { timeoutMs: 30, onError: error => errors.push(error) });
+        await wait(80);
+
+        assert.equal(errors.length, 1);
+        assert.ok(errors[0] instanceof RosTimeoutError);
+    });
+});
+
+/** Self-signed certificate for the mock's HTTPS `/rest` server (undefined without openssl) */
+const selfSigned = (): { key: string; cert: string } | undefined => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rest-tls-'));
+    try {
+        execFileSync('openssl', [
+            'req', '-x509', '-newkey', 'rsa:2048', '-nodes', '-days', '1', '-subj', '/CN=127.0.0.1',
+            '-keyout', path.join(dir, 'key.pem'), '-out', path.join(dir, 'cert.pem')
+        ], { stdio: 'ignore', timeout: 30000 });
+        return { key: fs.readFileSync(path.join(dir, 'key.pem'), 'utf8'), cert: fs.readFileSync(path.join(dir, 'cert.pem'), 'utf8') };
+    } catch {
+        return undefined;
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+};
+
+describe("protocol: 'auto'", () => {
+    const tls = selfSigned();
+    const routers: MockRouterServer[] = [];
+
+    const negotiate = async (options: MockRouterOptions) => {
+        const router = new MockRouterServer({ seed: { '/ip/address': [{ address: '10.0.0.1/24', interface: 'ether1' }] }, ...options });
+        routers.push(router);
+        const address = await router.start();
+        const client = router.client({ restPort: address.restPort ?? 1, protocol: 'auto' });
+        await client.connect();
+        return client;
+    };
+
+    const addresses = async (client: MikrotikClient) =>
+        (await client.command('/ip/address').print(undefined, { cache: false })).toArray().map((row: any) => row.address);
+
+    after(async () => {
+        await Promise.all(routers.map(router => router.stop()));
+    });
+
+    test('RouterOS v7 with www-ssl negotiates REST', { skip: !tls && 'openssl is not available' }, async () => {
+        const client = await negotiate({ tls });
+
+        assert.deepEqual(await addresses(client), ['10.0.0.1/24']);
+        const stats = client.getProtocolStats();
+        assert.equal(stats.protocol, 'rest');
+        assert.equal(stats.negotiated, true);
+        assert.equal(stats.rest, 1);
+    });
+
+    test('menus REST does not expose fall back to the socket', { skip: !tls && 'openssl is not available' }, async () => {
+        const client = await negotiate({ tls, restUnavailable: ['/ip/address'] });
+
+        assert.deepEqual(await addresses(client), ['10.0.0.1/24']);
+        assert.deepEqual(await addresses(client), ['10.0.0.1/24']);
+
+        const stats = client.getProtocolStats();
+        assert.equal(stats.fallbacks, 1);
+        assert.equal(stats.socket, 2);
+        assert.deepEqual(stats.restUnsupportedMenus, ['/ip/address']);
+    });
+
+    test('RouterOS v6 keeps the socket', { skip: !tls && 'openssl is not available' }, async () => {
+        const client = await negotiate({ tls, version: '6.49.10' });
+        assert.equal(client.getProtocolStats().protocol, 'socket');
+        assert.deepEqual(await addresses(client), ['10.0.0.1/24']);
+    });
+
+    test('without HTTPS the socket is used', async () => {
+        const client = await negotiate({});
+        assert.equal(client.getProtocolStats().protocol, 'socket');
+        assert.deepEqual(await addresses(client), ['10.0.0.1/24']);
+    });
+});
@@ -10,15 +10,42 @@ import {RateLimiter} from '../core/RateLimiter';
 import {CircuitBreaker, CircuitBreakerOptions} from '../core/CircuitBreaker';
 import {FileManager} from '../features/FileManager';
 import {PrometheusExporter, MetricDefinition} from '../features/PrometheusExporter';
-import {LiveCollection, SnapshotCallback} from "../features/LiveCollection";
+import {LiveCollection, LiveCollectionOptions, SnapshotCallback} from "../features/LiveCollection";
 import {SnapshotSubscription} from "./SnapshotSubscription";
 import {MikrotikTransaction} from "./MikrotikTransaction";
 import {RestProtocol} from "../core/RestProtocol";
+import {ReconnectPolicy, ReconnectOptions} from "../core/ReconnectPolicy";
+import {RosError, RosTimeoutError, RosAbortError, RosTrapError, RosFatalError} from "../core/RosError";
+import {RosHttpStatus} from "../core/HttpConstants";
+import {TrafficRecorder, CassetteOptions} from "../core/TrafficRecorder";
+import {Cassette, ReplaySocket, ReplayRest} from "../core/ReplayTransport";
+import {SshChannel, SshOptions} from "../core/SshChannel";
+import {Reconciler, ReconcileOptions} from "../features/Reconciler";
+import {OfflineQueue, OfflineQueueOptions, DeferredTask} from "../core/OfflineQueue";
+import {PolicyGuard, PolicyOptions} from "../core/PolicyGuard";
+import {Logger, ContextLogger, ConsoleLogger} from "../core/Logger";
+import {Redactor} from "../core/Redactor";
+import {DecodingProfile, DecodingOptions} from "../core/ValueCodec";
+import {StreamIterator, IteratorOptions} from "../core/StreamIterator";
+import {
+    MiddlewarePipeline,
+    Middleware,
+    MiddlewareOptions,
+    CommandContext,
+    queryCacheMiddleware,
+    circuitBreakerMiddleware,
+    rateLimiterMiddleware
+} from "../core/Middleware";
+import {QueryCache} from "../core/QueryCache";
 
 // Load environment variables immediately
 dotenv.config();
 
-export interface MikrotikOptions extends SocketClientOptions {
+export interface MikrotikOptions extends Omit<SocketClientOptions, 'port'> {
+    /**
+     * Target port (default: 8728 for socket, 8729 with TLS, 443 for REST)
+     */
+    port?: number;
     /**
      * RouterOS username (default: 'admin')
      */
@@ -32,25 +59,129 @@ export interface MikrotikOptions extends SocketClientOptions {
      * WARNING: This is highly discouraged for production environments.
      */
     allowInsecureConfig?: boolean;
+    /**
+     * The credentials were resolved by the caller from a reference (environment variable, secret file, vault)
+     * rather than written in code. Satisfies the connect() check like `.env` does, without the security warning,
+     * and the `MIKROTIK_*` variables are not read. `Inventory` sets it for its nodes.
+     * Default: false
+     */
+    credentialsFromReference?: boolean;
     /**
      * Maximum commands per second allowed before throttling occurs.
      * Default: 50
      */
     rateLimit?: number;
+    /**
+     * Shared Token Bucket.
+     * Pass the same `RateLimiter` to several clients of one router so they share its budget
+     * (`rateLimit` is then ignored). MikrotikPool does this for its connections.
+     * Default: a private limiter built from `rateLimit`
+     */
+    rateLimiter?: RateLimiter;
+    /**
+     * Read cache of `print` commands sent with `cache: true`.
+     * Pass the same `QueryCache` to several clients to share their reads (MikrotikPool does this for its connections).
+     * Default: a cache of this client
+     */
+    queryCache?: QueryCache;
     /**
      * Configuration for the Circuit Breaker (Fault Tolerance).
      * Defines when to stop trying to connect to a dead router.
+     * Pass a `CircuitBreaker` instance to share one breaker between several clients of the same router.
      */
-    circuitBreaker?: CircuitBreakerOptions;
+    circuitBreaker?: CircuitBreakerOptions | CircuitBreaker;
 
-    protocol?: 'socket' | 'rest';
+    /**
+     * Transport for commands.
+     * - 'socket': Binary API on `port` (8728 / 8729 with `useTLS`).
+     * - 'rest': HTTPS `/rest` on `port` (RouterOS v7).
+     * - 'auto': Probes `/rest` (on `restPort`) and the API (on `socketPort` or `port`) at connect time,
+     * picks REST on RouterOS v7 with www-ssl enabled and the socket otherwise. Menus that REST
+     * does not expose (404/501) fall back to the socket, per command.
+     * Default: 'socket'
+     */
+    protocol?: 'socket' | 'rest' | 'auto';
 
     /**
      * Secondary port for Socket API (API-SSL).
      * Required only when using 'rest' protocol if you want to use .onSnapshot().
+     * With 'auto', the API port to probe (Default: `port`, else 8728 / 8729 with `useTLS`).
      * Default: undefined
      */
     socketPort?: number;
+
+    /**
+     * HTTPS port probed by `protocol: 'auto'`.
+     * Default: 443
+     */
+    restPort?: number;
+
+    /**
+     * Automatic Reconnection Supervisor.
+     * When the socket drops unexpectedly, the client re-connects with exponential backoff,
+     * logs in again, reloads the schema and re-issues every active stream.
+     * Pass `true` for defaults or an object to tune the backoff.
+     * Default: disabled
+     */
+    reconnect?: boolean | ReconnectOptions;
+
+    /**
+     * Traffic Recorder & Replay.
+     * - 'record': Writes every socket sentence/word and REST exchange to an NDJSON cassette (secrets redacted).
+     * - 'replay': Runs against the cassette instead of a router. Sending a command that was
+     * not recorded throws a `CassetteMismatchError`.
+     * Default: disabled
+     */
+    cassette?: CassetteOptions;
+
+    /**
+     * SSH Transport (`client.ssh`).
+     * Reuses the client's host and credentials. Configure key-based auth,
+     * host-key pinning or a non-standard port here.
+     * Default: port 22, password auth, any host key accepted
+     */
+    ssh?: SshOptions;
+
+    /**
+     * Offline Queue (`client.offlineQueue`).
+     * Storage and TTL for writes issued with `.persistent()` while the router is unreachable.
+     * Use `JsonFileQueueStore` to keep them across process restarts.
+     * Pass an `OfflineQueue` instance to share one queue between several clients of the same router
+     * (each task is then replayed once, by whichever client connects first). MikrotikPool does this.
+     * Default: in-memory store, no expiry
+     */
+    offlineQueue?: OfflineQueueOptions | OfflineQueue;
+
+    /**
+     * Command Policy (`client.policy`).
+     * Allow/deny rules on menu globs and verbs, enforced before anything is sent on the wire.
+     * Use `'read-only'` for clients that must never change a router.
+     * Default: every command allowed
+     */
+    policy?: PolicyOptions | 'read-only' | PolicyGuard;
+
+    /**
+     * Log sink (`client.logger`).
+     * Receives structured lines (host, path, tag, duration) from every module of the client.
+     * Use `noopLogger` to silence the library.
+     * Default: `ConsoleLogger` from 'warn' upwards
+     */
+    logger?: Logger;
+
+    /**
+     * Extra field names whose values are sensitive (`client.redactor`).
+     * Added to the built-in RouterOS list (`password`, `secret`, `private-key`, `psk`...)
+     * used for error messages, `RosError.toJSON()`, logger output and cassettes.
+     */
+    redact?: string[];
+
+    /**
+     * How result values are typed (`client.decoding`).
+     * Per-path/per-field codecs turn durations, rates, sizes, dates, MACs, IPs and tx/rx pairs into JS values,
+     * and encode them back for `add()` / `set()`. `'lossless'` keeps every value as the router sent it.
+     * Default: numbers and booleans are inferred, nothing else is decoded
+     */
+    decoding?: DecodingOptions | 'standard' | 'lossless';
 }
 
 /**
@@ -61,6 +192,24 @@ export interface Subscription {
     stop: () => Promise<void>;
 }
 
+/**
+ * Which transport served the client's commands (`client.getProtocolStats()`).
+ */
+export interface ProtocolStats {
+    /** Primary transport (negotiated when `protocol: 'auto'`) */
+    protocol: 'socket' | 'rest';
+    /** True if the transport was picked by `protocol: 'auto'` */
+    negotiated: boolean;
+    /** Commands served over REST */
+    rest: number;
+    /** Commands served over the socket API */
+    socket: number;
+    /** Commands REST refused (404/501) and the socket served instead */
+    fallbacks: number;
+    /** Menus routed straight to the socket after a fallback */
+    restUnsupportedMenus: string[];
+}
+
 /**
  * Internal interface to track pending operations.
  */
@@ -72,16 +221,119 @@ interface PendingCommand {
     // STREAMING FLAGS
     isStream: boolean;
     onData?: (data: any) => void; // Callback for live data
+    onDone?: () => void; // The router ended the stream
+    raw?: boolean; // Rows skip ResultParser
 
     // PERFORMANCE MONITORING
     startTime: number; // Timestamp to calculate RTT (Round Trip Time)
     tag: string;
+
+    // Command word, reported in trap errors
+    command: string;
+}
+
+/**
+ * Internal interface to track live streams across reconnections.
+ * The wire tag changes on every reconnection, while the stream id
+ * (captured by the Subscription handle) stays the same.
+ */
+interface ActiveStream {
+    /** Tag currently used on the wire for this stream */
+    tag: string;
+    /** Builds the protocol lines for the given tag */
+    buildPayload: (tag: string) => string[];
+    /** User callback for every data packet */
+    callback: (data: any) => void;
+    /** User handler for stream failures */
+    onError?: (error: Error) => void;
+    /** Called once when the router ends the stream (`!done`) */
+    onDone?: () => void;
+    /** Packets are delivered in wire format */
+    raw?: boolean;
 }
 
+/**
+ * Payload of the 'reconnecting' event.
+ */
+export interface ReconnectingEvent {
+    /** 1-based number of the upcoming attempt */
+    attempt: number;
+    /** Time in ms the supervisor waits before this attempt */
+    delay: number;
+}
 
-export interface IWriteOptions {
+/**
+ * Payload of the 'reconnected' and 'reconnect_failed' events.
+ */
+export interface ReconnectedEvent {
+    /** Number of attempts that were made */
+    attempts: number;
+}
+
+
+/**
+ * Deadline & Cancellation options shared by every execution entry point.
+ */
+export interface IDeadlineOptions {
+    /**
+     * Maximum time (ms) to wait for the router to complete the command.
+     * On expiry the command is cancelled on the router (`/cancel`) and
+     * the call rejects with a `RosTimeoutError`.
+     */
+    timeoutMs?: number;
+    /**
+     * Caller-controlled cancellation. Aborting cancels the command on the router
+     * and rejects the call with a `RosAbortError`.
+     */
+    signal?: AbortSignal;
+}
+
+export interface IWriteOptions extends IDeadlineOptions {
     idempotent?: boolean;
     idempotencyKey?: string;
+    /**
+     * Serve this `print` from the short-lived read cache ('queryCache' middleware).
+     * Set by `CommandBuilder.print()`. Default: false (always hits the router)
+     */
+    cache?: boolean;
+    /**
+     * Returns rows in wire format (`.id`, `mac-address`, string values) on both protocols,
+     * like REST does, instead of parsing socket rows. Field codecs of `decoding` still apply.
+     * Default: false
+     */
+    raw?: boolean;
+}
+
+export interface IStreamOptions extends IDeadlineOptions {
+    /**
+     * Receives stream failures (router traps, expired deadline, abort).
+     * Default: logged as an error through the client's `logger` (the default `ConsoleLogger` prints from `warn` up).
+     */
+    onError?: (error: Error) => void;
+
+    /**
+     * Called when the router ends the stream by itself (`!done`), e.g. a `print` without `follow`.
+     * Not called when the stream is stopped through its handle.
+     */
+    onDone?: () => void;
+
+    /**
+     * Delivers packets in wire format (`.id`, `mac-address`, string values), as REST returns rows,
+     * instead of parsing them (`id`, `macAddress`, inferred types). Field codecs of `decoding` still apply.
+     * Default: false
+     */
+    raw?: boolean;
+}
+
+/**
+ * Options of `CommandBuilder.listen()`.
+ */
+export interface IListenOptions extends IStreamOptions {
+    /**
+     * Uses `=follow-only=`: only changes are streamed, without the initial dump of existing items.
+     * Default: false (`=follow=`)
+     */
+    followOnly?: boolean;
 }
 
 
@@ -90,6 +342,9 @@ export declare interface MikrotikClient {
     on(event: 'error', listener: (err: Error) => void): this;
     on(event: 'timeout', listener: () => void): this;
     on(event: 'ready', listener: () => void): this;
+    on(event: 'reconnecting', listener: (info: ReconnectingEvent) => void): this;
+    on(event: 'reconnected', listener: (info: ReconnectedEvent) => void): this;
+    on(event: 'reconnect_failed', listener: (info: ReconnectedEvent) => void): this;
 }
 
 /**
@@ -100,16 +355,38 @@ export declare interface MikrotikClient {
  * hardware protection (rate limiting), and fault tolerance (circuit breaking).
  */
 export class MikrotikClient extends EventEmitter {
-    private readonly socket: SocketClient | null = null;
+    private socket: SocketClient | null = null;
     private readonly options: MikrotikOptions;
     private readonly isConfigFromEnv: boolean = false;
-    private readonly rest: RestProtocol | null = null;
+    private readonly isConfigFromReference: boolean = false;
+    private rest: RestProtocol | null = null;
+    private readonly recorder: TrafficRecorder | null = null;
 
     private _isConnected: boolean = false;
+    private inFlight = 0;
     private isManuallyClosing: boolean = false;
 
+    // --- RECONNECTION STATE ---
+    private readonly reconnectPolicy: ReconnectPolicy;
+    private isReconnecting: boolean = false;
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private socketEventsBound: boolean = false;
+
+    // --- PROTOCOL STATE ---
+    /** Transport of the commands (resolved by connect() when the option is 'auto') */
+    private activeProtocol: 'socket' | 'rest';
+    private protocolCounters = {rest: 0, socket: 0, fallbacks: 0};
+    /** Menus REST answered with 404/501: served by the socket from then on */
+    private restUnsupportedMenus = new Set<string>();
+
     private activeLiveCollections = new Map<string, LiveCollection<any>>();
 
+    /**
+     * Registry of running streams, keyed by their stream id.
+     * Used to re-issue them under new tags after a reconnection.
+     */
+    private activeStreams = new Map<string, ActiveStream>();
+
     // --- PUBLIC MODULES (Facade) ---
 
     /**
@@ -119,6 +396,60 @@ export class MikrotikClient extends EventEmitter {
      */
     public readonly files: FileManager;
 
+    /**
+     * SSH CLI Module.
+     * Runs commands that are awkward or impossible over the API (e.g. a full `/export`).
+     * Connects lazily on first use and shares the client's Rate Limiter and Circuit Breaker.
+     * @example const { stdout } = await client.ssh.exec('/export terse');
+     */
+    public readonly ssh: SshChannel;
+
+    /**
+     * Offline Queue Module.
+     * Holds `.persistent()` writes issued while the router was down and replays them
+     * (FIFO) on 'ready' / 'reconnected'. Emits 'enqueued', 'executed', 'failed' and 'expired'.
+     * @example client.offlineQueue.on('failed', (task, err) => alert(task, err));
+     */
+    public readonly offlineQueue: OfflineQueue;
+
+    /**
+     * Command Policy.
+     * Checked by `write()`, `stream()`, `.persistent()` writes, transactions and `ssh.exec()`.
+     * Violations throw `PolicyViolationError` before the command reaches the router.
+     * @example if (!client.policy.isAllowed('/system/reboot')) hideRebootButton();
+     */
+    public readonly policy: PolicyGuard;
+
+    /**
+     * Structured Logger.
+     * The `logger` option bound to this router's `host`, with sensitive fields masked.
+     * @example client.logger.child({ path: '/ppp/secret' }).info('Provisioned', { name });
+     */
+    public readonly logger: ContextLogger;
+
+    /**
+     * Secret Redactor.
+     * Scrubs sensitive values from errors raised by `write()`, log lines and recordings.
+     * @example client.redactor.redactParams({ name: 'vpn', 'private-key': k });
+     */
+    public readonly redactor: Redactor;
+
+    /**
+     * Value Decoding Profile.
+     * Types the fields of socket results (codecs, inference or lossless) and of REST rows (codecs only),
+     * and encodes JS values written through `CommandBuilder`.
+     * @example client.decoding.codecFor('/queue/simple', 'max-limit')?.decode('10M/20M');
+     */
+    public readonly decoding: DecodingProfile;
+
+    /**
+     * Middleware Pipeline.
+     * Every `write()` goes through it. Starts with the built-ins 'queryCache', 'circuitBreaker'
+     * and 'rateLimiter', which can be reordered, replaced or removed.
+     * @example client.middleware.replace('queryCache', queryCacheMiddleware(new QueryCache(1000)));
+     */
+    public readonly middleware: MiddlewarePipeline = new MiddlewarePipeline();
+
     /**
      * The Auto-Topology Engine.
      * Contains information about the RouterOS version, architecture, and smart paths.
@@ -204,15 +535,17 @@ export class MikrotikClient extends EventEmitter {
     constructor(options: MikrotikOptions) {
         super();
 
-        // Environment Variable Resolution
-        const envHost = process.env.MIKROTIK_HOST;
-        const envUser = process.env.MIKROTIK_USER;
-        const envPass = process.env.MIKROTIK_PASS;
-        const envPort = process.env.MIKROTIK_PORT;
-        const envProtocol = process.env.MIKROTIK_PROTOCOL;
-        const envSocketPort = process.env.MIKROTIK_PORT_APISSL;
+        // Environment Variable Resolution (skipped when the caller already resolved the credentials)
+        const env: NodeJS.ProcessEnv = options.credentialsFromReference ? {} : process.env;
+        const envHost = env.MIKROTIK_HOST;
+        const envUser = env.MIKROTIK_USER;
+        const envPass = env.MIKROTIK_PASS;
+        const envPort = env.MIKROTIK_PORT;
+        const envProtocol = env.MIKROTIK_PROTOCOL;
+        const envSocketPort = env.MIKROTIK_PORT_APISSL;
 
         this.isConfigFromEnv = !!(envHost && envUser && envPass);
+        this.isConfigFromReference = !!options.credentialsFromReference;
 
         // Configuration Merging
         this.options = {
@@ -220,8 +553,9 @@ export class MikrotikClient extends EventEmitter {
             user: envUser || options.user,
             password: envPass || options.password,
             port: envPort ? Number(envPort) : options.port,
-            protocol: (envProtocol as 'socket' | 'rest') || options.protocol || 'socket',
+            protocol: (envProtocol as 'socket' | 'rest' | 'auto') || options.protocol || 'socket',
             socketPort: envSocketPort ? Number(envSocketPort) : options.socketPort,
+            restPort: options.restPort,
             useTLS: options.useTLS ?? false,
             rejectUnauthorized: options.rejectUnauthorized ?? false,
             allowInsecureConfig: options.allowInsecureConfig ?? false,
@@ -230,17 +564,66 @@ export class MikrotikClient extends EventEmitter {
         };
 
         // Initialize Sub-Systems
-        this.rateLimiter = new RateLimiter(this.options.rateLimit || 50);
-        this.breaker = new CircuitBreaker(options.circuitBreaker);
+        this.redactor = new Redactor([...(options.redact || []), ...(options.cassette?.redact || [])]);
+        this.logger = new ContextLogger(options.logger || new ConsoleLogger(), { host: this.options.host }, this.redactor);
+        this.decoding = new DecodingProfile(options.decoding);
+        this.rateLimiter = options.rateLimiter || new RateLimiter(this.options.rateLimit || 50, undefined, this.logger);
+        this.breaker = options.circuitBreaker instanceof CircuitBreaker
+            ? options.circuitBreaker
+            : new CircuitBreaker(options.circuitBreaker, this.logger);
+        this.reconnectPolicy = new ReconnectPolicy(options.reconnect);
+        this.policy = options.policy instanceof PolicyGuard ? options.policy : new PolicyGuard(options.policy);
+        this.middleware
+            .useBuiltIn('queryCache', queryCacheMiddleware(options.queryCache || new QueryCache()))
+            .useBuiltIn('circuitBreaker', circuitBreakerMiddleware(this.breaker))
+            .useBuiltIn('rateLimiter', rateLimiterMiddleware(this.rateLimiter));
         this.files = new FileManager(this);
+        this.ssh = new SshChannel(
+            this.options.host!,
+            {username: this.options.user || 'admin', password: this.options.password},
+            options.ssh || {},
+            this.rateLimiter,
+            this.breaker,
+            this.policy
+        );
+        this.offlineQueue = options.offlineQueue instanceof OfflineQueue
+            ? options.offlineQueue
+            : new OfflineQueue(this.options.host!, options.offlineQueue, this.logger);
 
         // 4. Security Audit
-        if (!this.isConfigFromEnv && this.options.allowInsecureConfig) {
+        if (!this.isConfigFromEnv && !this.isConfigFromReference && this.options.allowInsecureConfig) {
             this.printSeriousWarning();
         }
 
-        if (this.options.protocol === 'rest') {
-            const targetPort = this.options.port === 8728 ? 443 : (this.options.port || 443);
+        // REST is the tentative choice of 'auto' until connect() probes the router
+        this.activeProtocol = this.options.protocol === 'socket' ? 'socket' : 'rest';
+
+        // Traffic Recorder (must exist before the drivers so they can report to it)
+        const cassette = options.cassette;
+        if (cassette && this.options.protocol === 'auto') {
+            throw new Error("MikrotikClient: Cassettes require an explicit protocol ('socket' or 'rest').");
+        }
+        if (cassette?.mode === 'record') {
+            this.recorder = new TrafficRecorder(cassette.path, this.redactor, {
+                host: this.options.host,
+                protocol: this.options.protocol
+            });
+        }
+
+        if (cassette?.mode === 'replay') {
+            // Offline mode: both drivers are served from the recording
+            const recording = new Cassette(cassette.path);
+            this.rest = this.options.protocol === 'rest' ? new ReplayRest(recording, cassette.realtime) : null;
+            this.socket = this.options.protocol === 'socket' || !!this.options.socketPort
+                ? new ReplaySocket(recording, cassette.realtime)
+                : null;
+            return;
+        }
+
+        if (this.options.protocol === 'rest' || this.options.protocol === 'auto') {
+            const targetPort = this.options.protocol === 'auto'
+                ? (this.options.restPort || 443)
+                : this.options.port === 8728 ? 443 : (this.options.port || 443);
 
             this.rest = new RestProtocol({
                 host: this.options.host!,
@@ -248,17 +631,20 @@ export class MikrotikClient extends EventEmitter {
                 pass: this.options.password || '',
                 port: targetPort,
                 timeout: (this.options.timeout ?? 10) * 1000,
-                insecure: !this.options.rejectUnauthorized
+                insecure: !this.options.rejectUnauthorized,
+                recorder: this.recorder || undefined
             });
         }
 
-        const shouldInitSocket = this.options.protocol === 'socket' ||
+        const shouldInitSocket = this.options.protocol === 'socket' || this.options.protocol === 'auto' ||
             (this.options.protocol === 'rest' && !!this.options.socketPort);
 
         if (shouldInitSocket) {
             const socketTargetPort = this.options.protocol === 'socket'
                 ? (this.options.port || 8728)
-                : this.options.socketPort!;
+                : this.options.protocol === 'auto'
+                    ? (this.options.socketPort || this.options.port || (this.options.useTLS ? 8729 : 8728))
+                    : this.options.socketPort!;
 
             this.socket = new SocketClient({
                 host: this.options.host!,
@@ -276,6 +662,14 @@ export class MikrotikClient extends EventEmitter {
         return this._isConnected;
     }
 
+    /**
+     * Commands sent through `write()` that have not settled yet (REST and socket).
+     * MikrotikPool schedules on the connection with the fewest.
+     */
+    public get pendingCount(): number {
+        return this.inFlight;
+    }
+
     /**
      * **Smart Connection Manager**
      *
@@ -290,80 +684,42 @@ export class MikrotikClient extends EventEmitter {
      * establishes a background TCP tunnel solely for streaming.
      * - **Socket Mode (v6):** Establishes TCP connection, performs MD5/CHAP login,
      * and then loads the schema.
+     * - **Auto Mode:** Probes REST and the API in parallel, keeps REST on v7 (with the socket
+     * as stream channel and fallback when it logged in) and the socket otherwise.
+     * 4. **Supervision:** If `reconnect` is enabled, any later unexpected socket drop
+     * triggers the backoff loop, which emits 'reconnecting' / 'reconnected' events.
      */
     public async connect(): Promise<void> {
         this.isManuallyClosing = false;
 
         // Security Check
-        if (!this.isConfigFromEnv && !this.options.allowInsecureConfig) {
+        if (!this.isConfigFromEnv && !this.isConfigFromReference && !this.options.allowInsecureConfig) {
             throw new Error('FATAL: Insecure Configuration. Use .env or allowInsecureConfig: true');
         }
 
         // Execution (Protected by Circuit Breaker)
         await this.breaker.execute(async () => {
 
+            // --- STRATEGY 0: AUTO (Probe both, keep the best) ---
+            if (this.options.protocol === 'auto') {
+                await this.negotiateProtocol();
+            }
+
             // --- STRATEGY A: REST API (Modern / Hybrid) ---
-            if (this.rest && this.options.protocol === 'rest') {
+            else if (this.rest && this.options.protocol === 'rest') {
                 // Step A1: Establish Main Control Channel (HTTPS)
                 await this.rest.connect();
 
                 // Step A2: Initialize Background Stream Channel (Hybrid Mode)
                 if (this.socket) {
-                    await this.socket.connect();
-
-                    this.socket.on('data', (word: string) => this.processIncomingWord(word));
-
-                    // --- SOCKET EVENTS BRIDGING (REST MODE) ---
-                    this.socket.on('close', () => {
-                        this._isConnected = false;
-                        this.emit('close');
-
-                        if (this.isManuallyClosing) {
-                            this.pendingCommands.clear();
-                        } else {
-                            this.rejectAllCommands(new Error('Stream Connection closed unexpectedly'));
-                        }
-                    });
-
-                    this.socket.on('error', (err: Error) => {
-                        this._isConnected = false;
-                        this.emit('error', err);
-                        this.rejectAllCommands(err);
-                    });
-
-                    // Authenticate background channel
-                    await this.login();
+                    await this.openSocketSession();
                 }
             }
 
             // --- STRATEGY B: SOCKET API (Legacy / Standard) ---
             else if (this.socket) {
-                // Step B1: Establish TCP/TLS Connection
-                await this.socket.connect();
-
-                // Step B2: Graceful Listener Binding
-                this.socket.on('data', (word: string) => this.processIncomingWord(word));
-
-                // --- SOCKET EVENTS BRIDGING (SOCKET MODE) ---
-                this.socket.on('close', () => {
-                    this._isConnected = false;
-                    this.emit('close');
-
-                    if (this.isManuallyClosing) {
-                        this.pendingCommands.clear();
-                    } else {
-                        this.rejectAllCommands(new Error('Connection closed unexpectedly'));
-                    }
-                });
-
-                this.socket.on('error', (err: Error) => {
-                    this._isConnected = false;
-                    this.emit('error', err);
-                    this.rejectAllCommands(err);
-                });
-
-                // Step B3: Handshake & Auth
-                await this.login();
+                // Step B1-B3: TCP/TLS Connection, Listener Binding, Handshake & Auth
+                await this.openSocketSession();
             }
             else {
                 throw new Error("MikrotikClient: No driver initialized. Check configuration.");
@@ -376,9 +732,74 @@ export class MikrotikClient extends EventEmitter {
             this._isConnected = true;
             this.emit('ready');
         });
+
+        this.replayOfflineQueue();
     }
 
 
+    /**
+     * Reports which transport served the commands so far.
+     *
+     * @example
+     * const stats = client.getProtocolStats();
+     * metrics.gauge('ros_rest_ratio', stats.rest / (stats.rest + stats.socket));
+     */
+    public getProtocolStats(): ProtocolStats {
+        return {
+            protocol: this.activeProtocol,
+            negotiated: this.options.protocol === 'auto',
+            ...this.protocolCounters,
+            restUnsupportedMenus: Array.from(this.restUnsupportedMenus)
+        };
+    }
+
+    /**
+     * `protocol: 'auto'`: probes `/rest` and the API port in parallel and keeps
+     * REST on RouterOS v7 (www-ssl enabled), the socket otherwise.
+     * The socket stays open next to REST when it logged in (streams and per-command fallback).
+     */
+    private async negotiateProtocol(): Promise<void> {
+        const [restProbe, socketProbe] = await Promise.allSettled([
+            this.rest ? this.rest.command('/system/resource/print') : Promise.reject(new Error('REST driver not initialized')),
+            this.openSocketSession()
+        ]);
+
+        if (socketProbe.status === 'rejected') this.discardSocket();
+
+        const resource = restProbe.status === 'fulfilled'
+            ? (Array.isArray(restProbe.value) ? restProbe.value[0] : restProbe.value)
+            : undefined;
+        const restMajor = parseInt(String(resource?.version || '0').split('.')[0]) || 0;
+
+        if (restProbe.status === 'fulfilled' && (restMajor >= 7 || socketProbe.status === 'rejected')) {
+            this.activeProtocol = 'rest';
+        } else if (socketProbe.status === 'fulfilled') {
+            this.activeProtocol = 'socket';
+            this.rest?.close();
+            this.rest = null;
+        } else {
+            const reason = (result: PromiseSettledResult<any>) =>
+                result.status === 'rejected' ? (result.reason?.message || String(result.reason)) : 'ok';
+            throw new Error(`MikrotikClient: Protocol negotiation failed. REST: ${reason(restProbe)}; API: ${reason(socketProbe)}`);
+        }
+
+        this.logger.info(`Protocol negotiated: ${this.activeProtocol}.`, {
+            rest: restProbe.status === 'fulfilled',
+            socket: socketProbe.status === 'fulfilled'
+        });
+    }
+
+    /**
+     * Drops a socket that failed its probe (without triggering the 'close' / reconnection handlers).
+     */
+    private discardSocket(): void {
+        if (!this.socket) return;
+        this.socket.removeAllListeners();
+        this.socket.destroy();
+        this.socket = null;
+        this.socketEventsBound = false;
+    }
+
     /**
      * Closes the connection to the router and cleans up resources.
      * Sets the 'isManuallyClosing' flag to prevent false error reports.
@@ -386,6 +807,13 @@ export class MikrotikClient extends EventEmitter {
     public close(): void {
         this.isManuallyClosing = true;
 
+        // Stop the reconnection supervisor if it is waiting for the next attempt
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        this.activeStreams.clear();
+
         this._isConnected = false;
         this.emit('close');
 
@@ -396,18 +824,20 @@ export class MikrotikClient extends EventEmitter {
         if (this.rest) {
             this.rest.close();
         }
+
+        if (this.recorder) {
+            this.recorder.close().catch(() => {});
+        }
+
+        this.ssh.close();
     }
 
 
     /**
-     * Prints a highly visible warning banner to the console.
+     * Reports hardcoded credentials through the logger.
      */
     private printSeriousWarning(): void {
-        const border = "=".repeat(60);
-        console.warn(`\n\x1b[33m${border}\x1b[0m`);
-        console.warn('\x1b[43m\x1b[30m %s \x1b[0m', ' SERIOUS SECURITY ADVISORY ');
-        console.warn('\x1b[33m%s\x1b[0m', 'Using hardcoded credentials. Please use .env file.');
-        console.warn(`\x1b[33m${border}\x1b[0m\n`);
+        this.logger.warn('SERIOUS SECURITY ADVISORY: Using hardcoded credentials. Please use .env file.');
     }
 
 
@@ -462,6 +892,11 @@ export class MikrotikClient extends EventEmitter {
      * - **Parallel:** Executes all commands simultaneously using `Promise.all`.
      * Use `.parallel()` for independent bulk operations (e.g., disabling 50 users).
      *
+     * **Rollback:**
+     * In both modes, the steps that were already applied are undone in reverse order
+     * (add -> remove, set -> previous values, remove -> re-add) before `commit()` throws a `TransactionError`.
+     * Chain `.checkpoint()` to also take a `/system/backup` snapshot first.
+     *
      * @returns A new `MikrotikTransaction` builder instance.
      *
      * @example
@@ -481,6 +916,36 @@ export class MikrotikClient extends EventEmitter {
         return new MikrotikTransaction(this);
     }
 
+    /**
+     * **Desired-State Reconciliation**
+     *
+     * Declares the full content of a menu as data and lets the library compute
+     * the add/set/remove/move operations needed to get there.
+     *
+     * **Workflow:**
+     * 1. **Plan (Dry Run):** `.plan(desired)` returns a `ReconcilePlan` with a readable diff (`toString()`).
+     * 2. **Apply:** `.apply(plan)` executes it and returns a per-item report.
+     *
+     * Router-managed fields (`.id`, `dynamic`, counters) are never compared, and dynamic items are left alone.
+     *
+     * @param path The menu path (or schema alias).
+     * @param options Natural key, ignore-list, ordering and pruning behaviour.
+     *
+     * @example
+     * // Keep the 'blocked' address list in sync with a database
+     * const reconciler = client.reconcile('/ip/firewall/address-list', { key: ['list', 'address'] });
+     * const plan = await reconciler.plan(rows.map(r => ({ list: 'blocked', address: r.ip, comment: r.reason })));
+     * console.log(plan.toString());
+     * const report = await reconciler.apply(plan);
+     *
+     * @example
+     * // Ordered menu: firewall rules are identified by their comment and kept in the declared order
+     * await client.reconcile('/ip/firewall/filter', { key: 'comment', ordered: true }).apply(rules);
+     */
+    public reconcile(path: string, options: ReconcileOptions): Reconciler {
+        return new Reconciler(this, this.schema.resolve(path), options);
+    }
+
 
     /**
      * Accesses a **Resource Collection** for reading or streaming.
@@ -491,12 +956,14 @@ export class MikrotikClient extends EventEmitter {
      *
      * **Features:**
      * - **Filtering:** Chain `.where()` to filter data server-side.
+     * - **Shaping:** `.select()` limits the fields (Default: all), `.key()` sets the identity key used by diffs
+     * and `.camelCase()` maps streamed keys to camelCase (Default: wire format, `.id`, `mac-address`).
      * - **Reporting:** Use `.print()` to get a `MikrotikCollection` (supports `.toPages()`, `.toMap()`, etc.).
      * - **Streaming:** Use `.onSnapshot()` to get a `SnapshotSubscription` (supports `.onDiff()`, `.throttle()`).
      *
      * @template T The interface of the resource (e.g., `PPPSecret`, `Interface`).
      * @param path The MikroTik menu path (e.g., `/ppp/active`, `/log`, `/interface`).
-     * @returns A fluent builder object with `where()`, `print()`, and `onSnapshot()` methods.
+     * @returns A fluent builder object with `where()`, `select()`, `key()`, `camelCase()`, `print()`, and `onSnapshot()` methods.
      *
      * @example
      * // EXAMPLE 1: Fetch & Transform (One-off)
@@ -513,9 +980,18 @@ export class MikrotikClient extends EventEmitter {
      * .onSnapshot(diff => console.log('Log Update:', diff))
      * .onDiff()      // Receive { added, removed } instead of full list
      * .throttle(500); // Optimize CPU by grouping updates
+     *
+     * @example
+     * // EXAMPLE 3: DHCP Leases keyed by MAC
+     * client.collection('/ip/dhcp-server/lease')
+     * .select(['address', 'mac-address', 'host-name', 'status'])
+     * .key('mac-address')
+     * .onSnapshot(diff => ...)
+     * .onDiff();
      */
     public collection<T extends Record<string, any> = Record<string, any>>(path: string) {
         const query: Record<string, string | number | boolean> = {};
+        const options: LiveCollectionOptions = {query};
 
         const builder = {
             where: (key: string, value: string | number | boolean) => {
@@ -523,9 +999,28 @@ export class MikrotikClient extends EventEmitter {
                 return builder;
             },
 
+            /** Fields to fetch and stream (Default: every field) */
+            select: (fields: string[]) => {
+                options.select = fields;
+                return builder;
+            },
+
+            /** Identity key of the items, the default key of `.onDiff()` (Default: '.id') */
+            key: (field: string) => {
+                options.key = field;
+                return builder;
+            },
+
+            /** Streamed items get camelCase keys and inferred types, like socket `print()` rows */
+            camelCase: (enabled: boolean = true) => {
+                options.camelCase = enabled;
+                return builder;
+            },
+
             print: async () => {
                 const cmd = new CommandBuilder<T>(this, path);
                 Object.keys(query).forEach(k => cmd.where(k, query[k]));
+                if (options.select) cmd.select(options.select);
                 return cmd.print();
             },
 
@@ -540,6 +1035,7 @@ export class MikrotikClient extends EventEmitter {
              * a **single physical socket connection** to the router, saving massive CPU/Bandwidth.
              *
              * @param callback Function to execute. Can receive the full array OR a Diff object.
+             * Optional when the subscription is consumed with `subscribe()` (RxJS) or `iterate()` (`for await`).
              * @returns A `SnapshotSubscription` object for chaining `.onDiff()`, `.throttle()`, etc.
              *
              * @example
@@ -566,13 +1062,19 @@ export class MikrotikClient extends EventEmitter {
              * .onDiff()
              * .throttle(1000);
              */
-            onSnapshot: (callback: SnapshotCallback<T>): SnapshotSubscription<T> => {
-                const cacheKey = `${path}:${JSON.stringify(query)}`;
+            onSnapshot: (callback?: SnapshotCallback<T>): SnapshotSubscription<T> => {
+                // Collections with different filters, fields or key format cannot share a stream
+                const cacheKey = `${path}:${JSON.stringify({
+                    query,
+                    select: options.select ? [...options.select].sort() : null,
+                    key: options.key || null,
+                    camelCase: options.camelCase ?? false
+                })}`;
 
                 let liveCol = this.activeLiveCollections.get(cacheKey);
 
                 if (!liveCol) {
-                    liveCol = new LiveCollection<T>(this, path, query);
+                    liveCol = new LiveCollection<T>(this, path, {...options, query: {...query}});
                     this.activeLiveCollections.set(cacheKey, liveCol);
                 }
 
@@ -633,85 +1135,233 @@ export class MikrotikClient extends EventEmitter {
      *
      * Sends a raw command to the RouterOS API via the active protocol (Socket or REST).
      *
-     * **Architecture Layers:**
-     * 1.  **Circuit Breaker:** Prevents cascading failures.
-     * 2.  **Rate Limiter:** Implements congestion control.
-     * 3.  **Protocol Adapter:** Automatically routes traffic to REST (v7) or Socket (v6).
+     * **Architecture Layers (the `client.middleware` pipeline):**
+     * 0.  **Policy Guard:** Refuses commands outside `options.policy` (checked again after the middlewares).
+     * 1.  **User Middlewares:** Added with `client.use()` (audit, vetoes, metrics...).
+     * 2.  **Query Cache:** Serves cached reads, invalidates them on writes.
+     * 3.  **Circuit Breaker:** Prevents cascading failures.
+     * 4.  **Rate Limiter:** Implements congestion control.
+     * 5.  **Protocol Adapter:** Routes traffic to REST (v7) or Socket (v6), falling back to the socket
+     * for menus REST does not expose (see `getProtocolStats()`).
      *
      * @param command The full command path (e.g., `/ip/address/add`).
      * @param parameters Key-value pairs for command arguments.
+     * @param options Idempotency flags and the optional deadline (`timeoutMs`, `signal`).
      * @returns A Promise that resolves with the raw array response from the router.
+     *
+     * @example
+     * // Give up on a slow fetch after 5 seconds (the router is told to /cancel it)
+     * await client.write('/tool/fetch', { url: 'https://example.com/big.iso' }, { timeoutMs: 5000 });
      */
     public async write(
         command: string,
-        parameters?: Record<string, string | boolean | number>,
+        parameters?: Record<string, string | boolean | number | string[]>,
         options?: IWriteOptions
     ): Promise<any[]> {
+        // Before the pipeline: a refused command is neither cached nor counted as a breaker failure
+        this.policy.check(command);
+
+        const context: CommandContext = {
+            command,
+            params: {...(parameters || {})},
+            options: {...(options || {})},
+            protocol: this.rest && this.activeProtocol === 'rest' ? 'rest' : 'socket',
+            host: this.options.host || 'default',
+            port: this.options.port,
+            user: this.options.user || 'admin',
+            decoding: this.decoding,
+            startTime: Date.now(),
+            state: {}
+        };
 
-        // Execute the whole flow inside the Circuit Breaker
-        return this.breaker.execute(async () => {
+        // Built-ins (query cache, circuit breaker, rate limiter) and user middlewares, then the wire.
+        // Errors leave without the secrets of the command (routers may echo them back).
+        this.inFlight++;
+        return this.middleware.execute(context, () => this.dispatch(context)).catch(error => {
+            if (error instanceof RosError) error.redactWith(this.redactor);
+            throw this.redactor.redactError(error, {...(parameters || {}), ...context.params});
+        }).finally(() => {
+            this.inFlight--;
+        });
+    }
 
-            // Wait for Rate Limiter Token (Smart Backoff)
-            await this.rateLimiter.acquire();
+    /**
+     * **Middleware Pipeline**
+     *
+     * Adds a middleware around every `write()` (REST and socket).
+     * It sees the command, params, protocol, tag and timing, and may rewrite params,
+     * short-circuit with its own result or veto the command by throwing.
+     * Runs before the built-ins ('queryCache', 'circuitBreaker', 'rateLimiter') unless `before`/`after` is given.
+     *
+     * @example
+     * // Audit log
+     * client.use(async (ctx, next) => {
+     * const rows = await next();
+     * audit.write({ command: ctx.command, params: ctx.params, ms: ctx.duration });
+     * return rows;
+     * }, { name: 'audit' });
+     *
+     * @example
+     * // Veto: read-only maintenance window
+     * client.use(async (ctx, next) => {
+     * if (!ctx.command.endsWith('/print')) throw new Error('Maintenance window: writes are frozen');
+     * return next();
+     * });
+     */
+    public use(middleware: Middleware, options?: MiddlewareOptions): this {
+        this.middleware.use(middleware, options);
+        return this;
+    }
 
-            // -------------------------------------------------------
-            // STRATEGY A: REST API (RouterOS v7+) - PRIORITY
-            // -------------------------------------------------------
-            // We check 'this.rest' AND verify the intended protocol is 'rest'.
-            if (this.rest && this.options.protocol === 'rest') {
-                try {
-                    // Execute via HTTP, passing BOTH idempotency options
-                    const result = await this.rest.command(command, parameters, {
-                        idempotent: options?.idempotent,
-                        idempotencyKey: options?.idempotencyKey
-                    });
+    /**
+     * Protocol Adapter: sends the command over REST or the socket.
+     * The end of the middleware chain.
+     */
+    private async dispatch(context: CommandContext): Promise<any[]> {
+        const {command, params: parameters, options} = context;
 
-                    // REST COMPATIBILITY LAYER:
-                    // 1. Handle 204 No Content (null) -> Return empty array [] (Standard Socket behavior for !done)
-                    if (result === null) return [];
+        // A middleware may have rewritten the command
+        this.policy.check(command);
 
-                    // 2. Wrap single objects in Array
-                    // The standard Socket API always returns an Array [{}, {}].
-                    // REST often returns a single Object {}. We unify this here so the App Layer doesn't care.
-                    return Array.isArray(result) ? result : [result];
+        // The caller may have given up while the command was in the pipeline
+        if (options.signal?.aborted) {
+            throw new RosAbortError(command, options.signal.reason);
+        }
 
-                } catch (error) {
-                    throw error; // CircuitBreaker catches this to update health stats
+        const menu = command.substring(0, command.lastIndexOf('/'));
+
+        // -------------------------------------------------------
+        // STRATEGY A: REST API (RouterOS v7+) - PRIORITY
+        // -------------------------------------------------------
+        // We check 'this.rest' AND verify the active protocol is 'rest'.
+        // Menus REST already refused go straight to the socket.
+        if (this.rest && this.activeProtocol === 'rest' && !this.restUnsupportedMenus.has(menu)) {
+            try {
+                context.servedBy = 'rest';
+
+                // Execute via HTTP, passing BOTH idempotency options
+                const result = await this.rest.command(command, parameters, {
+                    idempotent: options?.idempotent,
+                    idempotencyKey: options?.idempotencyKey,
+                    timeoutMs: options?.timeoutMs,
+                    signal: options?.signal
+                });
+                this.protocolCounters.rest++;
+
+                // REST COMPATIBILITY LAYER:
+                // 1. Handle 204 No Content (null) -> Return empty array [] (Standard Socket behavior for !done)
+                if (result === null) return [];
+
+                // 2. Wrap single objects in Array
+                // The standard Socket API always returns an Array [{}, {}].
+                // REST often returns a single Object {}. We unify this here so the App Layer doesn't care.
+                // 3. Field codecs apply to REST rows too (keys and other values stay raw)
+                return this.decoding.decodeRows(menu, Array.isArray(result) ? result : [result]);
+
+            } catch (error) {
+                // CircuitBreaker catches this to update health stats
+                if (!this.canFallBackToSocket(error)) {
+                    this.protocolCounters.rest++;
+                    throw error;
                 }
+
+                this.restUnsupportedMenus.add(menu);
+                this.protocolCounters.fallbacks++;
+                context.fallback = true;
+                this.logger.info('REST does not expose this menu, falling back to the socket API.', {path: command});
             }
+        }
 
-            // -------------------------------------------------------
-            // STRATEGY B: SOCKET API (Legacy / RouterOS v6)
-            // -------------------------------------------------------
-            // This block executes ONLY if:
-            // 1. Protocol is 'socket' (Legacy Mode)
-            // 2. REST failed to initialize (Fallback)
-            // In Hybrid Mode, we intentionally skip this for writes.
-            if (this.socket) {
-                // Note: Socket protocol currently does not natively support "Logical Idempotency"
-                // in this library layer. It will behave standardly (throwing error on duplicates).
-
-                return new Promise<any[]>((resolve, reject) => {
-                    const tag = this.generateTag();
-
-                    // Parameters are processed normally
-                    const payload = this.buildPayload(command, parameters, tag);
-
-                    this.pendingCommands.set(tag, {
-                        resolve,
-                        reject,
-                        data: [],
-                        isStream: false,
-                        startTime: Date.now(),
-                        tag
-                    });
+        // -------------------------------------------------------
+        // STRATEGY B: SOCKET API (Legacy / RouterOS v6)
+        // -------------------------------------------------------
+        // This block executes ONLY if:
+        // 1. Protocol is 'socket' (Legacy Mode)
+        // 2. REST refused the menu (404/501) and the socket session is up (Fallback)
+        // In Hybrid Mode, other writes never reach the socket.
+        if (this.socket) {
+            context.servedBy = 'socket';
+            this.protocolCounters.socket++;
+
+            // Note: Socket protocol currently does not natively support "Logical Idempotency"
+            // in this library layer. It will behave standardly (throwing error on duplicates).
+
+            return new Promise<any[]>((resolve, reject) => {
+                const tag = this.generateTag();
+                context.tag = tag;
+
+                // Parameters are processed normally
+                const payload = this.buildPayload(command, parameters, tag);
+
+                // Arm the deadline (no-op when no timeout/signal was given)
+                const disarm = this.armDeadline(tag, command, options, reject);
+
+                this.pendingCommands.set(tag, {
+                    resolve: (data) => {
+                        disarm();
+                        resolve(data);
+                    },
+                    reject: (error) => {
+                        disarm();
+                        reject(error);
+                    },
+                    data: [],
+                    isStream: false,
+                    raw: options.raw,
+                    startTime: Date.now(),
+                    tag,
+                    command
+                });
 
+                try {
                     this.sendPayload(payload);
-                });
-            }
+                } catch (error) {
+                    // Socket is down (e.g. while reconnecting). Do not leak the pending entry.
+                    this.pendingCommands.delete(tag);
+                    disarm();
+                    reject(error);
+                }
+            });
+        }
 
-            throw new Error("MikrotikClient: No protocol driver initialized (Socket or REST).");
-        });
+        throw new Error("MikrotikClient: No protocol driver initialized (Socket or REST).");
+    }
+
+    /**
+     * **Internal Read**
+     *
+     * Runs a `print` for the library's own checks (pool health probes, schema discovery), outside of
+     * `options.policy` and the middleware pipeline (query cache, circuit breaker, rate limiter, user middlewares).
+     * Rows come back in wire format (`board-name`, string values) on both protocols.
+     *
+     * @param command A `print` command (e.g., `/system/resource/print`).
+     * @param timeoutMs Deadline, reported as `RosTimeoutError`.
+     * @internal
+     */
+    public async probe(command: string, timeoutMs?: number): Promise<any[]> {
+        if (!command.endsWith('/print')) {
+            throw new Error(`MikrotikClient: probe() only runs print commands, got '${command}'.`);
+        }
+        const menu = command.substring(0, command.lastIndexOf('/'));
+
+        if (this.rest && this.activeProtocol === 'rest' && !this.restUnsupportedMenus.has(menu)) {
+            const result = await this.rest.command(command, {}, {timeoutMs});
+            if (result === null) return [];
+            return this.decoding.decodeRows(menu, Array.isArray(result) ? result : [result]);
+        }
+
+        return this.writeInternal(command, undefined, {raw: true, timeoutMs});
+    }
+
+    /**
+     * True if REST failed because it does not expose the menu (rather than because of the command),
+     * and the socket can serve it instead.
+     * RouterOS answers unknown REST paths with 404 and no `detail`, or 501.
+     */
+    private canFallBackToSocket(error: any): boolean {
+        if (!this.socket?.connected || !(error instanceof RosError)) return false;
+        if (error.status === RosHttpStatus.NOT_IMPLEMENTED) return true;
+        return error.status === RosHttpStatus.NOT_FOUND && !error.rawResponse?.detail;
     }
 
     /**
@@ -730,6 +1380,8 @@ export class MikrotikClient extends EventEmitter {
      * @param commandOrLines The command path (e.g., `/tool/torch`) or a raw array of protocol lines.
      * @param parameters Optional arguments (e.g., `{ interface: 'ether1' }`).
      * @param callback The function to execute for every data packet received.
+     * @param options Optional deadline (`timeoutMs` stops the stream after that time),
+     * `signal` for cancellation and `onError` to receive stream failures.
      * @returns A `Subscription` object containing the `.stop()` method to terminate the stream.
      *
      * @example
@@ -749,59 +1401,376 @@ export class MikrotikClient extends EventEmitter {
      */
     public stream(
         commandOrLines: string | string[],
-        parameters: Record<string, string | boolean | number> | undefined,
-        callback: (data: any) => void
+        parameters: Record<string, string | boolean | number | string[]> | undefined,
+        callback: (data: any) => void,
+        options?: IStreamOptions
     ): Subscription {
-        // Generate the tag upfront so we can return the handle immediately
-        const tag = this.generateTag();
+        this.policy.check(Array.isArray(commandOrLines) ? commandOrLines[0] : commandOrLines);
+
+        // Generate the stream id upfront so we can return the handle immediately.
+        // The first wire tag equals the stream id; reconnections assign new tags.
+        const streamId = this.generateTag();
+
+        const entry: ActiveStream = {
+            tag: streamId,
+            buildPayload: (tag: string) => {
+                if (Array.isArray(commandOrLines)) {
+                    // Ensure our tag is the only one present
+                    return [...commandOrLines.filter(l => !l.startsWith('.tag=')), `.tag=${tag}`];
+                }
+                return this.buildPayload(commandOrLines, parameters, tag);
+            },
+            callback,
+            onError: options?.onError,
+            raw: options?.raw
+        };
+
+        this.activeStreams.set(streamId, entry);
 
         // Queue the start command (respecting rate limits)
         this.rateLimiter.acquire().then(() => {
-            let payload: string[];
+            // The user may have stopped the stream while it was waiting for a token
+            if (!this.activeStreams.has(streamId)) return;
+            this.startStream(entry);
+        });
 
-            if (Array.isArray(commandOrLines)) {
-                payload = [...commandOrLines];
-                // Ensure tag is present
-                if (!payload.some(l => l.startsWith('.tag='))) {
-                    payload.push(`.tag=${tag}`);
-                }
-            } else {
-                payload = this.buildPayload(commandOrLines, parameters, tag);
-            }
+        // Deadline: a stream has no result to reject, so expiry/abort stops it and reports via onError
+        let timer: NodeJS.Timeout | null = null;
+        const command = Array.isArray(commandOrLines) ? commandOrLines[0] : commandOrLines;
 
-            this.pendingCommands.set(tag, {
-                reject: (err) => console.error(`Stream error [${tag}]:`, err),
-                data: [],
-                isStream: true,
-                onData: callback,
-                startTime: Date.now(),
-                tag
-            });
-
-            this.sendPayload(payload);
-        });
+        const terminate = (error: Error) => {
+            if (!this.activeStreams.has(streamId)) return;
+            handle.stop().catch(() => {});
+            (options?.onError || this.defaultStreamErrorHandler(streamId))(error);
+        };
+        const onAbort = () => terminate(new RosAbortError(command, options?.signal?.reason));
 
-        // Return the handle to stop this specific stream tag
-        return {
+        // Return the handle to stop this specific stream (whatever its current tag is)
+        const handle: Subscription = {
             stop: async () => {
+                if (timer) clearTimeout(timer);
+                options?.signal?.removeEventListener('abort', onAbort);
+
+                const active = this.activeStreams.get(streamId);
+                if (!active) return;
+                this.activeStreams.delete(streamId);
+
+                // Nothing to cancel on the wire while the link is down
+                if (!this.socket || !this.socket.connected) {
+                    this.pendingCommands.delete(active.tag);
+                    return;
+                }
+
                 // Emergency stop bypasses rate limiter for immediate effect
-                await this.writeInternal('/cancel', {'tag': tag});
+                await this.writeInternal('/cancel', {'tag': active.tag});
             }
         };
+
+        // Finished by the router: nothing to cancel, just release the stream
+        entry.onDone = () => {
+            if (timer) clearTimeout(timer);
+            options?.signal?.removeEventListener('abort', onAbort);
+            if (!this.activeStreams.delete(streamId)) return;
+            options?.onDone?.();
+        };
+
+        if (options?.timeoutMs !== undefined) {
+            timer = setTimeout(() => terminate(new RosTimeoutError(command, options.timeoutMs!)), options.timeoutMs);
+        }
+        if (options?.signal) {
+            if (options.signal.aborted) onAbort();
+            else options.signal.addEventListener('abort', onAbort, {once: true});
+        }
+
+        return handle;
+    }
+
+    /**
+     * **Streaming as an Async Iterator**
+     *
+     * Same as `stream()`, consumed with `for await`. Packets wait in a bounded buffer while the loop body runs;
+     * `overflow` decides what happens when it fills up. Leaving the loop sends `/cancel` for the stream's tag,
+     * and stream failures are thrown by the loop.
+     *
+     * @param commandOrLines The command path (e.g., `/tool/torch`) or a raw array of protocol lines.
+     * @param parameters Optional arguments (e.g., `{ interface: 'ether1' }`).
+     * @param options Deadline, `signal`, `raw` packets, `bufferSize` (Default: 1000) and `overflow` (Default: 'drop-oldest').
+     * @returns A `StreamIterator`.
+     *
+     * @example
+     * for await (const sample of client.iterate('/interface/monitor-traffic', { interface: 'ether1' }, { bufferSize: 10 })) {
+     * await pushToTsdb(sample);
+     * if (shuttingDown) break; // sends /cancel
+     * }
+     */
+    public iterate<T = any>(
+        commandOrLines: string | string[],
+        parameters?: Record<string, string | boolean | number | string[]>,
+        options: IStreamOptions & IteratorOptions = {}
+    ): StreamIterator<T> {
+        return new StreamIterator<T>(
+            (push, fail, end) => this.stream(commandOrLines, parameters, push, {...options, onError: fail, onDone: end}),
+            options
+        );
     }
 
     // ========================================================
     // PRIVATE HELPERS
     // ========================================================
 
+    /**
+     * Registers the pending entry for a stream under its current tag and sends it.
+     */
+    private startStream(entry: ActiveStream): void {
+        const tag = entry.tag;
+        const payload = entry.buildPayload(tag);
+
+        this.pendingCommands.set(tag, {
+            reject: entry.onError || this.defaultStreamErrorHandler(tag),
+            data: [],
+            isStream: true,
+            onData: entry.callback,
+            onDone: entry.onDone,
+            raw: entry.raw,
+            startTime: Date.now(),
+            tag,
+            command: payload[0]
+        });
+
+        try {
+            this.sendPayload(payload);
+        } catch (error) {
+            this.pendingCommands.delete(tag);
+            // Link is down: the reconnection supervisor (if enabled) will re-issue it.
+            // Any other failure (e.g. a CassetteMismatchError on replay) is reported right away.
+            if (this.reconnectPolicy.enabled && !this.socket?.connected) return;
+            (entry.onError || this.defaultStreamErrorHandler(tag))(error as Error);
+        }
+    }
+
+    private defaultStreamErrorHandler(tag: string): (error: Error) => void {
+        return (err) => this.logger.error('Stream error', {tag, error: err});
+    }
+
+    // ========================================================
+    // DEADLINES (Timeouts & AbortSignal)
+    // ========================================================
+
+    /**
+     * Arms the timeout and abort listeners for a pending socket command.
+     * @returns A function that disarms them once the command settles.
+     */
+    private armDeadline(
+        tag: string,
+        command: string,
+        options: IDeadlineOptions | undefined,
+        fail: (error: Error) => void
+    ): () => void {
+        if (!options || (options.timeoutMs === undefined && !options.signal)) {
+            return () => {};
+        }
+
+        let timer: NodeJS.Timeout | null = null;
+        const signal = options.signal;
+        const onAbort = () => this.abortPendingCommand(tag, new RosAbortError(command, signal?.reason), fail);
+
+        if (options.timeoutMs !== undefined) {
+            timer = setTimeout(
+                () => this.abortPendingCommand(tag, new RosTimeoutError(command, options.timeoutMs!), fail),
+                options.timeoutMs
+            );
+        }
+        signal?.addEventListener('abort', onAbort, {once: true});
+
+        return () => {
+            if (timer) clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+        };
+    }
+
+    /**
+     * Gives up on a pending command: forgets the tag locally, asks the router
+     * to stop working on it and rejects the caller with the given error.
+     */
+    private abortPendingCommand(tag: string, error: Error, fail: (error: Error) => void): void {
+        // Already settled (the reply won the race)
+        if (!this.pendingCommands.has(tag)) return;
+        this.pendingCommands.delete(tag);
+
+        // Best effort: the link may be down, in which case the router drops the command anyway
+        if (this.socket && this.socket.connected) {
+            this.writeInternal('/cancel', {'tag': tag}).catch(() => {});
+        }
+
+        fail(error);
+    }
+
+    // ========================================================
+    // CONNECTION LIFECYCLE (Socket Session & Reconnection)
+    // ========================================================
+
+    /**
+     * Opens the TCP/TLS socket, binds the event bridge and authenticates.
+     */
+    private async openSocketSession(): Promise<void> {
+        if (!this.socket) return;
+
+        await this.socket.connect();
+
+        // Discard any half-parsed sentence from a previous session
+        this.currentSentence = {};
+        this.bindSocketEvents();
+
+        await this.login();
+    }
+
+    /**
+     * Bridges the SocketClient events into the client.
+     * Bound only once: SocketClient survives reconnections, so re-binding would duplicate handlers.
+     */
+    private bindSocketEvents(): void {
+        if (!this.socket || this.socketEventsBound) return;
+        this.socketEventsBound = true;
+
+        this.socket.on('data', (word: string) => this.processIncomingWord(word));
+
+        this.socket.on('close', () => {
+            // Failed attempts of the supervisor also close the socket. The loop handles those.
+            if (this.isReconnecting) return;
+
+            this._isConnected = false;
+            this.emit('close');
+
+            if (this.isManuallyClosing) {
+                this.pendingCommands.clear();
+                return;
+            }
+
+            const reason = this.activeProtocol === 'rest'
+                ? 'Stream Connection closed unexpectedly'
+                : 'Connection closed unexpectedly';
+            this.rejectAllCommands(new Error(reason));
+
+            this.superviseReconnection();
+        });
+
+        this.socket.on('error', (err: Error) => {
+            this._isConnected = false;
+            this.emit('error', err);
+            this.rejectAllCommands(err);
+        });
+    }
+
+    /**
+     * Replays the writes deferred while the router was unreachable, oldest first.
+     * Outcomes are reported through the queue's events and `waitFor()` promises.
+     */
+    private replayOfflineQueue(): void {
+        if (this.offlineQueue.size === 0) return;
+
+        this.offlineQueue.flush(
+            (task: DeferredTask) => this.executeDeferredTask(task),
+            () => this.isConnected && !this.isManuallyClosing
+        ).catch(() => { /* Reported per task */ });
+    }
+
+    private executeDeferredTask(task: DeferredTask): Promise<any> {
+        const builder = new CommandBuilder<any>(this, task.path);
+
+        switch (task.action) {
+            case 'add':
+                return builder.add(task.params);
+            case 'set': {
+                const {'.id': id, ...data} = task.params;
+                return builder.set(id, data);
+            }
+            case 'remove':
+                return builder.remove(String(task.params['.id']).split(','));
+        }
+    }
+
+    /**
+     * **Reconnection Supervisor**
+     *
+     * Retries the socket session with exponential backoff until it succeeds,
+     * the policy gives up, or the user calls `close()`.
+     * Emits 'reconnecting' before each attempt, then 'reconnected' or 'reconnect_failed'.
+     */
+    private async superviseReconnection(): Promise<void> {
+        if (!this.reconnectPolicy.enabled || this.isReconnecting || this.isManuallyClosing) return;
+        this.isReconnecting = true;
+
+        let attempt = 1;
+
+        while (this.reconnectPolicy.canRetry(attempt) && !this.isManuallyClosing) {
+            const delay = this.reconnectPolicy.nextDelay(attempt);
+            this.emit('reconnecting', {attempt, delay});
+
+            await new Promise<void>(resolve => {
+                this.reconnectTimer = setTimeout(resolve, delay);
+            });
+            this.reconnectTimer = null;
+
+            if (this.isManuallyClosing) break;
+
+            try {
+                await this.reestablishSession();
+                this.isReconnecting = false;
+                this.emit('reconnected', {attempts: attempt});
+                this.replayOfflineQueue();
+                return;
+            } catch (error) {
+                // Make sure the half-open socket does not linger before the next attempt
+                if (this.socket) this.socket.destroy();
+                this.pendingCommands.clear();
+                attempt++;
+            }
+        }
+
+        this.isReconnecting = false;
+        if (!this.isManuallyClosing) {
+            this.emit('reconnect_failed', {attempts: attempt - 1});
+        }
+    }
+
+    /**
+     * Rebuilds the session after an unexpected disconnection:
+     * login, schema reload and re-subscription of every active stream under a new tag.
+     */
+    private async reestablishSession(): Promise<void> {
+        await this.openSocketSession();
+
+        // A successful handshake proves the router is healthy again
+        this.breaker.reset();
+
+        await this.schema.load(this);
+
+        for (const entry of this.activeStreams.values()) {
+            entry.tag = this.generateTag();
+            this.startStream(entry);
+        }
+
+        this._isConnected = true;
+    }
+
     private generateTag(): string {
         return 't' + Math.random().toString(36).substring(2, 9);
     }
 
+    /** `/queue/simple/print` -> `/queue/simple` (used to pick per-path codecs) */
+    private menuOf(command: string): string {
+        return command.substring(0, command.lastIndexOf('/'));
+    }
+
     private buildPayload(command: string, params: any, tag: string): string[] {
         const payload = [command];
         if (params) {
             for (const [key, value] of Object.entries(params)) {
+                // Compiled query stack (QueryBuilder): words are sent as-is, in order
+                if (key === '.query' && Array.isArray(value)) {
+                    payload.push(...value);
+                    continue;
+                }
                 // Determine prefix: Queries ('?') vs Attributes ('=')
                 const prefix = key.startsWith('?') ? '' : '=';
                 payload.push(`${prefix}${key}=${value}`);
@@ -813,7 +1782,7 @@ export class MikrotikClient extends EventEmitter {
 
     private sendPayload(payload: string[]) {
         if (!this.socket) {
-            console.error("MikrotikClient Error: Attempted to send payload via inactive socket. Check 'socketPort' config.");
+            this.logger.error("Attempted to send payload via inactive socket. Check 'socketPort' config.", {path: payload[0]});
             return;
         }
 
@@ -821,6 +1790,8 @@ export class MikrotikClient extends EventEmitter {
             this.socket.write(RosProtocol.encodeSentence(word));
         }
         this.socket.write(RosProtocol.encodeSentence(''));
+
+        if (this.recorder) this.recorder.recordSentence(payload);
     }
 
     private async login(): Promise<void> {
@@ -851,26 +1822,37 @@ export class MikrotikClient extends EventEmitter {
 
     /**
      * Raw write method bypassing protection layers.
-     * Used for Login and Emergency Cancel.
+     * Used for Login, Emergency Cancel and internal probes.
      */
-    private writeInternal(command: string, parameters?: any): Promise<any[]> {
+    private writeInternal(command: string, parameters?: any, options?: IDeadlineOptions & {raw?: boolean}): Promise<any[]> {
         return new Promise((resolve, reject) => {
             const tag = this.generateTag();
             const payload = this.buildPayload(command, parameters, tag);
+            const disarm = this.armDeadline(tag, command, options, reject);
 
             this.pendingCommands.set(tag, {
-                resolve,
-                reject,
+                resolve: (data) => {
+                    disarm();
+                    resolve(data);
+                },
+                reject: (error) => {
+                    disarm();
+                    reject(error);
+                },
                 data: [],
                 isStream: false,
+                raw: options?.raw,
                 startTime: Date.now(),
-                tag
+                tag,
+                command
             });
             this.sendPayload(payload);
         });
     }
 
     private processIncomingWord(word: string): void {
+        if (this.recorder) this.recorder.recordWord(word);
+
         if (word.length === 0) {
             this.routeSentence(this.currentSentence);
             this.currentSentence = {};
@@ -896,6 +1878,12 @@ export class MikrotikClient extends EventEmitter {
         const tag = sentence['.tag'];
         const type = sentence['!type'];
 
+        // SESSION KILLED (!fatal): untagged, concerns every command
+        if (type === '!fatal') {
+            this.handleFatal(sentence);
+            return;
+        }
+
         if (!tag || !this.pendingCommands.has(tag)) return;
         const cmd = this.pendingCommands.get(tag)!;
 
@@ -907,7 +1895,9 @@ export class MikrotikClient extends EventEmitter {
 
             if (cmd.isStream && cmd.onData) {
                 // Streaming: Emit data immediately
-                const parsed = ResultParser.parse([cleanObj])[0];
+                const parsed = cmd.raw
+                    ? this.decoding.decodeRows(this.menuOf(cmd.command), [cleanObj])[0]
+                    : ResultParser.parse([cleanObj], this.decoding, this.menuOf(cmd.command))[0];
                 cmd.onData(parsed);
             } else {
                 // Standard: Buffer data
@@ -928,9 +1918,14 @@ export class MikrotikClient extends EventEmitter {
                     delete cleanObj['.tag'];
                     cmd.data.push(cleanObj);
                 }
-                cmd.resolve(ResultParser.parse(cmd.data));
+                cmd.resolve(cmd.raw
+                    ? this.decoding.decodeRows(this.menuOf(cmd.command), cmd.data)
+                    : ResultParser.parse(cmd.data, this.decoding, this.menuOf(cmd.command)));
             }
             this.pendingCommands.delete(tag);
+
+            // A finite stream (print without follow...) ended by itself
+            if (cmd.isStream && cmd.onDone && this.isActiveStreamTag(tag)) cmd.onDone();
         }
         // ERROR PACKET (!trap)
         else if (type === '!trap') {
@@ -938,19 +1933,49 @@ export class MikrotikClient extends EventEmitter {
             this.rateLimiter.submitFeedback(duration);
 
             const errorMsg = sentence['message'] || 'Unknown MikroTik Error';
+            const category = sentence['category'] !== undefined ? Number(sentence['category']) : undefined;
+            const error = new RosTrapError(errorMsg, cmd.command, category).redactWith(this.redactor);
+            this.pendingCommands.delete(tag);
 
-            if (errorMsg.includes('interrupted')) {
-                this.pendingCommands.delete(tag);
-                return;
-            }
+            // A stream stopped through its handle (`/cancel`): the interruption is the expected outcome
+            if (cmd.isStream && error.isInterrupted && !this.isActiveStreamTag(tag)) return;
 
-            cmd.reject(new Error(errorMsg));
-            this.pendingCommands.delete(tag);
+            cmd.reject(error);
+        }
+    }
+
+    /**
+     * Handles `!fatal`: the router is closing the session.
+     * Pending commands fail with `RosFatalError` and the socket is torn down
+     * (the reconnection supervisor, when enabled, takes over from the 'close' event).
+     */
+    private handleFatal(sentence: Record<string, any>): void {
+        // Our own `/quit` or close(): nothing to report
+        if (this.isManuallyClosing) return;
+
+        const detail = sentence['message']
+            || Object.keys(sentence).find(key => key !== '!type' && key !== '.tag')
+            || 'Session terminated by the router';
+        const error = new RosFatalError(detail);
+
+        this._isConnected = false;
+        this.rejectAllCommands(error);
+        if (this.listenerCount('error') > 0) this.emit('error', error);
+
+        if (this.socket) this.socket.destroy();
+    }
+
+    private isActiveStreamTag(tag: string): boolean {
+        for (const stream of this.activeStreams.values()) {
+            if (stream.tag === tag) return true;
         }
+        return false;
     }
 
     private rejectAllCommands(error: Error) {
         for (const [tag, cmd] of this.pendingCommands) {
+            // Streams survive the outage when the supervisor is enabled (re-issued on reconnect)
+            if (cmd.isStream && this.reconnectPolicy.enabled) continue;
             cmd.reject(error);
         }
         this.pendingCommands.clear();
@@ -0,0 +1,153 @@
+import { test, describe, beforeEach, afterEach, mock as testMock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MikrotikPool, PoolOptions } from './MikrotikPool';
+import { MikrotikClient } from './MikrotikClient';
+import { MockRouterServer } from '../testing/MockRouterServer';
+import { RateLimiter } from '../core/RateLimiter';
+import { CircuitBreakerState } from '../core/CircuitBreaker';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('MikrotikPool health checks', () => {
+    let mock: MockRouterServer;
+    let pool: MikrotikPool;
+
+    const open = async (options: Partial<PoolOptions>) => {
+        await mock.start();
+        pool = new MikrotikPool({
+            ...mock.clientOptions(),
+            poolSize: 2, streamConnection: false, healthCheckInterval: 30, healthCheckTimeout: 100,
+            ...options
+        });
+        await pool.connect();
+    };
+
+    beforeEach(() => {
+        mock = new MockRouterServer();
+    });
+
+    afterEach(async () => {
+        pool.close();
+        await mock.stop();
+    });
+
+    test('probes are not subject to the policy', async () => {
+        const probes: string[] = [];
+        mock.on('command', record => {
+            if (record.command === '/system/identity/print') probes.push(record.command);
+        });
+        await open({ policy: { allow: [{ path: '/ip/**' }] } });
+        await wait(150);
+
+        assert.ok(probes.length > 0);
+        assert.equal(pool.stats().failed, 0);
+        assert.equal(pool.stats().size, 2);
+        await assert.rejects(pool.write('/system/identity/print'), { name: 'PolicyViolationError' });
+    });
+
+    test('a trap answer keeps the connection', async () => {
+        await open({});
+        mock.injectTrap({ command: '/system/identity/print', message: 'not enough permissions', times: 10 });
+        await wait(150);
+
+        assert.equal(pool.stats().failed, 0);
+        assert.equal(pool.stats().size, 2);
+    });
+
+    test('a probe timeout replaces the connection', async () => {
+        await open({});
+        mock.handle('/system/identity/print', () => new Promise(resolve => setTimeout(() => resolve([]), 500)));
+        await wait(250);
+
+        assert.ok(pool.stats().failed > 0);
+    });
+});
+
+describe('MikrotikPool shared protection and sticky streams', () => {
+    let mock: MockRouterServer;
+    let pool: MikrotikPool;
+
+    const open = async (options: Partial<PoolOptions> = {}) => {
+        await mock.start();
+        pool = new MikrotikPool({
+            ...mock.clientOptions(),
+            poolSize: 2, healthCheckInterval: 0,
+            ...options
+        });
+        await pool.connect();
+    };
+
+    let logins: number;
+
+    beforeEach(() => {
+        logins = 0;
+        mock = new MockRouterServer();
+        mock.on('command', record => { if (record.command === '/login') logins++; });
+        mock.handleStream('/interface/monitor-traffic', (_params, emit) => {
+            const timer = setInterval(() => emit({ name: 'ether1', 'rx-bits-per-second': '1000' }), 10);
+            return () => clearInterval(timer);
+        });
+    });
+
+    afterEach(async () => {
+        testMock.restoreAll();
+        pool.close();
+        await mock.stop();
+    });
+
+    test('every connection draws from the same rate limiter', async () => {
+        const acquire = testMock.method(RateLimiter.prototype, 'acquire');
+        await open({ streamConnection: false });
+        await Promise.all(Array.from({ length: 4 }, () => pool.write('/system/identity/print')));
+
+        const limiters = new Set(acquire.mock.calls.map(call => call.this));
+        assert.equal(acquire.mock.callCount(), 4);
+        assert.equal(limiters.size, 1);
+    });
+
+    test('failures on any connection open the shared breaker', async () => {
+        await open({ streamConnection: false, circuitBreaker: { failureThreshold: 2, resetTimeout: 60000 } });
+        mock.handle('/tool/fetch', () => { throw new Error('connection refused'); });
+
+        await assert.rejects(pool.write('/tool/fetch'));
+        await assert.rejects(pool.write('/tool/fetch'));
+
+        assert.equal(pool.stats().breaker, CircuitBreakerState.OPEN);
+        await assert.rejects(pool.write('/system/identity/print'), /CircuitBreaker is OPEN/);
+        await assert.rejects(pool.write('/system/identity/print'), /CircuitBreaker is OPEN/);
+    });
+
+    /** Clients that served a stream and a burst of one-shot commands */
+    const servedBy = async () => {
+        const stream = testMock.method(MikrotikClient.prototype, 'stream');
+        const write = testMock.method(MikrotikClient.prototype, 'write');
+
+        const rows: any[] = [];
+        const subscription = pool.stream('/interface/monitor-traffic', { interface: 'ether1' }, row => rows.push(row));
+        await Promise.all(Array.from({ length: 4 }, () => pool.write('/system/identity/print')));
+        await wait(80);
+        await subscription.stop();
+
+        assert.ok(rows.length > 0);
+        return { stream: stream.mock.calls[0].this, writes: new Set(write.mock.calls.map(call => call.this)) };
+    };
+
+    test('streams run on a dedicated connection', async () => {
+        await open();
+        const { stream, writes } = await servedBy();
+
+        assert.equal(logins, 3);
+        assert.equal(pool.stats().streamConnection, true);
+        assert.equal(writes.size, 2);
+        assert.equal(writes.has(stream), false);
+    });
+
+    test('without a stream connection streams share the pooled sockets', async () => {
+        await open({ streamConnection: false });
+        const { stream, writes } = await servedBy();
+
+        assert.equal(logins, 2);
+        assert.equal(pool.stats().streamConnection, false);
+        assert.equal(writes.has(stream), true);
+    });
+});
@@ -1,5 +1,12 @@
-import { MikrotikClient, MikrotikOptions, Subscription } from './MikrotikClient';
+import { MikrotikClient, MikrotikOptions, Subscription, IWriteOptions, IStreamOptions } from './MikrotikClient';
 import { CommandBuilder } from './CommandBuilder';
+import { Logger, ContextLogger, ConsoleLogger } from '../core/Logger';
+import { ReconnectPolicy, ReconnectOptions } from '../core/ReconnectPolicy';
+import { RateLimiter } from '../core/RateLimiter';
+import { CircuitBreaker, CircuitBreakerState } from '../core/CircuitBreaker';
+import { OfflineQueue } from '../core/OfflineQueue';
+import { QueryCache } from '../core/QueryCache';
+import { RosError, RosTimeoutError } from '../core/RosError';
 
 export interface PoolOptions extends MikrotikOptions {
     /**
@@ -7,73 +14,300 @@ export interface PoolOptions extends MikrotikOptions {
      * Default: 5
      */
     poolSize?: number;
+
+    /**
+     * Connections kept open at all times.
+     * Default: `poolSize`
+     */
+    minSize?: number;
+
+    /**
+     * Upper bound when the pool grows under load.
+     * Default: `minSize` (fixed size)
+     */
+    maxSize?: number;
+
+    /**
+     * Outstanding commands on the least-loaded connection that trigger a new connection (up to `maxSize`).
+     * Default: 1 (grow as soon as every connection is busy)
+     */
+    growThreshold?: number;
+
+    /**
+     * Extra connections (above `minSize`) idle for this long are closed, in ms.
+     * Default: 60000
+     */
+    idleTimeout?: number;
+
+    /**
+     * Interval between health checks (`/system/identity/print` on idle connections), in ms. 0 disables them.
+     * Probes bypass `policy` and the middlewares.
+     * Default: 30000
+     */
+    healthCheckInterval?: number;
+
+    /**
+     * A health check slower than this marks the connection as failed, in ms.
+     * Default: 5000
+     */
+    healthCheckTimeout?: number;
+
+    /**
+     * Backoff between attempts to replace a failed connection.
+     * Default: 1s doubling up to 30s, without limit
+     */
+    replace?: ReconnectOptions;
+
+    /**
+     * Pins `stream()` / `listen()` to a dedicated connection (outside `poolSize`, with auto-reconnect),
+     * so long-lived streams never share a socket with latency-sensitive one-shot commands.
+     * Set to false to schedule streams like any other command.
+     * Default: true
+     */
+    streamConnection?: boolean;
+}
+
+/**
+ * Connection counts returned by `pool.stats()`.
+ */
+export interface PoolStats {
+    /** Open connections (idle + busy) */
+    size: number;
+    /** Healthy connections without outstanding commands */
+    idle: number;
+    /** Healthy connections with at least one outstanding command */
+    busy: number;
+    /** Connections being opened or replaced */
+    connecting: number;
+    /** Connections lost or failing health checks since the pool started */
+    failed: number;
+    /** Outstanding commands over every connection */
+    pending: number;
+    minSize: number;
+    maxSize: number;
+    /** State of the circuit breaker shared by every connection */
+    breaker: CircuitBreakerState;
+    /** The dedicated stream connection is up */
+    streamConnection: boolean;
+}
+
+/**
+ * A pooled connection and its bookkeeping.
+ */
+interface PoolMember {
+    client: MikrotikClient;
+    state: 'connecting' | 'ready';
+    lastUsed: number;
+    /** Removed from the pool: its events are ignored */
+    retired: boolean;
 }
 
 /**
  * MikrotikPool
  * Manages a cluster of MikrotikClient instances to distribute load.
- * Uses a Round-Robin algorithm to schedule commands across available sockets.
+ * * **Scheduling:** Commands go to the healthy connection with the fewest outstanding commands,
+ * so a slow `/export` on one socket does not stall the requests behind it.
+ * * **Health:** Lost connections and failed health checks are replaced in the background (with backoff).
+ * * **Elastic sizing:** Grows from `minSize` up to `maxSize` while every connection is busy,
+ * and closes the extra connections once they have been idle for `idleTimeout`.
+ * * **Shared protection:** Every connection uses the pool's single `RateLimiter` and `CircuitBreaker`,
+ * so `rateLimit` is the budget for the router, not per socket.
+ * * **One offline queue:** `.persistent()` writes are queued once per router and replayed by a single connection.
+ * * **Sticky streams:** `stream()` and `listen()` run on a dedicated connection.
+ *
+ * @example
+ * const pool = new MikrotikPool({ host, user, password, minSize: 2, maxSize: 8 });
+ * await pool.connect();
+ * const leases = await pool.command('/ip/dhcp-server/lease').print();
+ * console.log(pool.stats()); // { size: 2, idle: 2, busy: 0, ... }
+ * await pool.drain();
  */
 export class MikrotikPool {
-    private clients: MikrotikClient[] = [];
+    /**
+     * Offline Queue shared by every connection of the pool (see `client.offlineQueue`).
+     * @example pool.offlineQueue.on('executed', task => console.log('replayed', task.id));
+     */
+    public readonly offlineQueue: OfflineQueue;
+
+    private members: PoolMember[] = [];
     private readonly options: PoolOptions;
+    private readonly minSize: number;
+    private readonly maxSize: number;
+    private readonly replacePolicy: ReconnectPolicy;
+    private readonly rateLimiter: RateLimiter;
+    private readonly breaker: CircuitBreaker;
+    private readonly queryCache: QueryCache;
+    private readonly streamOptions: MikrotikOptions | null;
+    private streamClient: MikrotikClient | null = null;
     private nextClientIndex: number = 0;
     private isConnected: boolean = false;
+    private isDraining: boolean = false;
+    private failedCount = 0;
+    private replaceAttempt = 0;
+    private healthTimer: NodeJS.Timeout | null = null;
+    private replaceTimer: NodeJS.Timeout | null = null;
+    private readonly logger: ContextLogger;
 
     constructor(options: PoolOptions) {
+        const sink: Logger = options.logger || new ConsoleLogger();
+        this.logger = new ContextLogger(sink, { host: options.host });
+
+        // One token bucket and one breaker per router, whatever the number of sockets
+        this.rateLimiter = options.rateLimiter || new RateLimiter(options.rateLimit || 50, undefined, this.logger);
+        this.breaker = options.circuitBreaker instanceof CircuitBreaker
+            ? options.circuitBreaker
+            : new CircuitBreaker(options.circuitBreaker, this.logger);
+        // Reads cached by one connection are served to the others
+        this.queryCache = options.queryCache || new QueryCache();
+        // One queue per router: every connection would otherwise load and replay the same stored tasks
+        this.offlineQueue = options.offlineQueue instanceof OfflineQueue
+            ? options.offlineQueue
+            : new OfflineQueue(options.host, options.offlineQueue, this.logger);
+
         this.options = {
             poolSize: 5, // Default to 5 concurrent connections
-            ...options
+            ...options,
+            logger: sink, // Shared by every connection of the pool
+            rateLimiter: this.rateLimiter,
+            circuitBreaker: this.breaker,
+            queryCache: this.queryCache,
+            offlineQueue: this.offlineQueue,
+            reconnect: false // The pool replaces lost connections itself
         };
+        // The stream connection re-issues its streams after a drop
+        this.streamOptions = options.streamConnection === false
+            ? null
+            : { ...this.options, reconnect: options.reconnect ?? true };
+        this.minSize = Math.max(1, options.minSize ?? this.options.poolSize ?? 5);
+        this.maxSize = Math.max(this.minSize, options.maxSize ?? this.minSize);
+        this.replacePolicy = new ReconnectPolicy({ ...options.replace, enabled: true });
     }
 
     /**
-     * Initializes the pool by establishing all connections in parallel.
+     * Initializes the pool by establishing `minSize` connections in parallel.
+     * Resolves as soon as the attempts settle with at least one connection; the failed ones are replaced
+     * in the background. Rejects only if every connection failed.
      */
     public async connect(): Promise<void> {
         if (this.isConnected) return;
 
-        console.log(`Initializing Pool with ${this.options.poolSize} connections...`);
+        this.logger.info(`MikrotikPool: Initializing pool with ${this.minSize} connections.`);
+        this.isDraining = false;
 
-        const connectionPromises: Promise<void>[] = [];
+        const [results] = await Promise.all([
+            Promise.allSettled(Array.from({ length: this.minSize }, () => this.openMember())),
+            this.openStreamClient().catch(error => {
+                this.logger.warn('MikrotikPool: Stream connection failed, streams use the pooled connections until it is restored.', { error });
+            })
+        ]);
 
-        for (let i = 0; i < (this.options.poolSize || 5); i++) {
-            const client = new MikrotikClient(this.options);
-            this.clients.push(client);
-            // We initiate all connections simultaneously
-            connectionPromises.push(client.connect());
+        const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+        if (failures.length === results.length) {
+            this.streamClient?.close();
+            this.streamClient = null;
+            throw failures[0].reason;
         }
 
-        // Wait for ALL clients to be ready
-        await Promise.all(connectionPromises);
         this.isConnected = true;
-        console.log(`Pool Ready: ${this.clients.length} sockets connected.`);
+        this.startHealthChecks();
+        if (failures.length > 0) {
+            this.logger.warn(`MikrotikPool: ${failures.length} of ${this.minSize} connections failed, replacing them in the background.`, { error: failures[0].reason });
+            this.scheduleReplacement();
+        }
+        this.logger.info(`MikrotikPool: Pool ready, ${this.readyMembers().length} sockets connected.`);
     }
 
     /**
-     * Closes all connections in the pool gracefully.
+     * Closes all connections in the pool immediately (outstanding commands fail).
      */
     public close(): void {
-        this.clients.forEach(client => client.close());
+        this.stopTimers();
+        this.members.forEach(member => this.retire(member));
+        this.streamClient?.close();
+        this.streamClient = null;
         this.isConnected = false;
-        this.clients = [];
+        this.members = [];
     }
 
     /**
-     * Round-Robin Scheduler.
-     * Selects the next available client in the list to distribute the load evenly.
+     * **Graceful Shutdown**
+     *
+     * Stops accepting commands, waits for the outstanding ones to settle, then closes every connection.
+     * @param timeoutMs Close anyway after this long (Default: 30000)
+     *
+     * @example
+     * process.on('SIGTERM', () => pool.drain().then(() => process.exit(0)));
+     */
+    public async drain(timeoutMs: number = 30000): Promise<void> {
+        this.isDraining = true;
+        this.stopTimers();
+
+        const deadline = Date.now() + timeoutMs;
+        while (this.pendingTotal() > 0 && Date.now() < deadline) {
+            await new Promise(resolve => setTimeout(resolve, 25));
+        }
+
+        if (this.pendingTotal() > 0) {
+            this.logger.warn(`MikrotikPool: Drain timed out with ${this.pendingTotal()} commands outstanding.`);
+        }
+        this.close();
+    }
+
+    /**
+     * Current connection counts.
+     */
+    public stats(): PoolStats {
+        const ready = this.readyMembers();
+        const busy = ready.filter(member => member.client.pendingCount > 0).length;
+
+        return {
+            size: ready.length,
+            idle: ready.length - busy,
+            busy,
+            connecting: this.members.filter(member => member.state === 'connecting').length,
+            failed: this.failedCount,
+            pending: this.pendingTotal(),
+            minSize: this.minSize,
+            maxSize: this.maxSize,
+            breaker: this.breaker.getState(),
+            streamConnection: !!this.streamClient?.isConnected
+        };
+    }
+
+    /**
+     * Least-Outstanding-Commands Scheduler.
+     * Picks the healthy client with the fewest pending commands (round-robin among ties)
+     * and grows the pool when even that one is busy.
      */
     private getScheduledClient(): MikrotikClient {
-        if (this.clients.length === 0) {
-            throw new Error('Pool is not connected. Call connect() first.');
+        if (this.isDraining) {
+            throw new Error('MikrotikPool: Pool is draining, no new commands are accepted.');
+        }
+
+        const ready = this.readyMembers();
+        if (ready.length === 0) {
+            throw new Error(this.members.length === 0
+                ? 'Pool is not connected. Call connect() first.'
+                : 'MikrotikPool: No healthy connection available, replacements are in progress.');
         }
 
-        const client = this.clients[this.nextClientIndex];
+        // Scan from the rotating index so equally loaded clients take turns
+        let selected = ready[this.nextClientIndex % ready.length];
+        for (let i = 0; i < ready.length; i++) {
+            const candidate = ready[(this.nextClientIndex + i) % ready.length];
+            if (candidate.client.pendingCount < selected.client.pendingCount) selected = candidate;
+        }
 
         // Move the pointer to the next client for the next request
-        this.nextClientIndex = (this.nextClientIndex + 1) % this.clients.length;
+        this.nextClientIndex = (this.nextClientIndex + 1) % ready.length;
+        selected.lastUsed = Date.now();
 
-        return client;
+        // Every connection is busy: open one more for the next requests
+        if (selected.client.pendingCount >= (this.options.growThreshold ?? 1) && this.members.length < this.maxSize) {
+            this.grow();
+        }
+
+        return selected.client;
     }
 
     /**
@@ -82,26 +316,207 @@ export class MikrotikPool {
      */
     public command<T extends Record<string, any> = any>(path: string): CommandBuilder<T> {
         // Here is the magic: We pick a client NOW, and the builder stays tied to it.
+        // listen()/listenMonitor() go to the stream connection instead.
         const selectedClient = this.getScheduledClient();
-        return new CommandBuilder<T>(selectedClient, path);
+        return new CommandBuilder<T>(selectedClient, path, this.streamClient || selectedClient);
     }
 
     /**
      * RAW COMMAND: Executes a raw command using a scheduled client.
      */
-    public write(command: string, parameters?: Record<string, any>): Promise<any[]> {
-        return this.getScheduledClient().write(command, parameters);
+    public write(command: string, parameters?: Record<string, any>, options?: IWriteOptions): Promise<any[]> {
+        return this.getScheduledClient().write(command, parameters, options);
     }
 
     /**
-     * STREAM: Starts a stream on a scheduled client.
-     * * Warning: Heavy streaming on all pool sockets might saturate the pool.
+     * STREAM: Starts a stream on the dedicated stream connection
+     * (on a scheduled client when `streamConnection` is disabled or down).
      */
     public stream(
         command: string,
         parameters: Record<string, any> | undefined,
-        callback: (data: any) => void
+        callback: (data: any) => void,
+        options?: IStreamOptions
     ): Subscription {
-        return this.getScheduledClient().stream(command, parameters, callback);
+        if (this.isDraining) {
+            throw new Error('MikrotikPool: Pool is draining, no new commands are accepted.');
+        }
+        return (this.streamClient || this.getScheduledClient()).stream(command, parameters, callback, options);
     }
-}
\ No newline at end of file
+
+    // ==========================================
+    // MEMBERSHIP
+    // ==========================================
+
+    /**
+     * Opens one connection and adds it to the pool once ready.
+     */
+    private async openMember(): Promise<PoolMember> {
+        const member: PoolMember = {
+            client: new MikrotikClient(this.options),
+            state: 'connecting',
+            lastUsed: Date.now(),
+            retired: false
+        };
+        this.members.push(member);
+
+        try {
+            await member.client.connect();
+        } catch (error) {
+            this.removeMember(member);
+            throw error;
+        }
+
+        if (member.retired) throw new Error('MikrotikPool: Pool closed while connecting.');
+        member.state = 'ready';
+        member.client.on('close', () => this.onMemberLost(member));
+        return member;
+    }
+
+    /**
+     * Opens the dedicated stream connection (its own supervisor handles later drops).
+     */
+    private async openStreamClient(): Promise<void> {
+        if (!this.streamOptions || this.streamClient) return;
+
+        const client = new MikrotikClient(this.streamOptions);
+        await client.connect();
+        if (this.isDraining) {
+            client.close();
+            return;
+        }
+        this.streamClient = client;
+    }
+
+    private grow(): void {
+        this.logger.debug(`MikrotikPool: All connections busy, growing to ${this.members.length + 1}.`);
+        this.openMember().catch(error => {
+            this.logger.warn('MikrotikPool: Could not open an extra connection.', { error });
+        });
+    }
+
+    /**
+     * A connection dropped or failed its health check: drop it and restore `minSize`.
+     */
+    private onMemberLost(member: PoolMember, error?: unknown): void {
+        if (member.retired || this.isDraining || !this.isConnected) return;
+
+        this.failedCount++;
+        this.logger.warn('MikrotikPool: Connection lost, replacing it.', { error });
+        this.retire(member);
+        this.removeMember(member);
+        this.scheduleReplacement();
+    }
+
+    /**
+     * Opens connections until `minSize` is reached again, with backoff between failed attempts.
+     */
+    private scheduleReplacement(): void {
+        if (this.replaceTimer || this.isDraining || !this.isConnected) return;
+        if (this.members.length >= this.minSize) {
+            this.replaceAttempt = 0;
+            return;
+        }
+
+        this.replaceAttempt++;
+        const delay = this.replaceAttempt === 1 ? 0 : this.replacePolicy.nextDelay(this.replaceAttempt - 1);
+
+        this.replaceTimer = setTimeout(() => {
+            this.replaceTimer = null;
+            this.openMember()
+                .then(() => {
+                    this.replaceAttempt = 0;
+                    this.scheduleReplacement();
+                })
+                .catch(error => {
+                    this.logger.warn(`MikrotikPool: Replacement attempt ${this.replaceAttempt} failed.`, { error });
+                    if (this.replacePolicy.canRetry(this.replaceAttempt + 1)) this.scheduleReplacement();
+                });
+        }, delay);
+    }
+
+    private retire(member: PoolMember): void {
+        member.retired = true;
+        member.client.removeAllListeners('close');
+        member.client.close();
+    }
+
+    private removeMember(member: PoolMember): void {
+        this.members = this.members.filter(entry => entry !== member);
+    }
+
+    // ==========================================
+    // HEALTH CHECKS & SHRINKING
+    // ==========================================
+
+    private startHealthChecks(): void {
+        const interval = this.options.healthCheckInterval ?? 30000;
+        if (interval <= 0 || this.healthTimer) return;
+
+        this.healthTimer = setInterval(() => {
+            this.checkHealth().catch(() => {});
+        }, interval);
+        this.healthTimer.unref?.();
+    }
+
+    /**
+     * Probes idle connections, closes extra connections idle past `idleTimeout`.
+     */
+    private async checkHealth(): Promise<void> {
+        const idleTimeout = this.options.idleTimeout ?? 60000;
+        const now = Date.now();
+
+        // SHRINK: extra idle connections go first
+        for (const member of this.readyMembers()) {
+            if (this.members.length <= this.minSize) break;
+            if (member.client.pendingCount === 0 && now - member.lastUsed >= idleTimeout) {
+                this.logger.debug(`MikrotikPool: Closing idle connection, shrinking to ${this.members.length - 1}.`);
+                this.retire(member);
+                this.removeMember(member);
+            }
+        }
+
+        // RESTORE: the stream connection failed at connect() time
+        if (this.streamOptions && !this.streamClient) {
+            this.openStreamClient().catch(() => {});
+        }
+
+        // An open breaker means the router itself is struggling: do not tear down sockets for it
+        if (this.breaker.getState() === CircuitBreakerState.OPEN) return;
+
+        // PROBE: busy connections are proving themselves already.
+        // The probe skips the policy and middlewares; only a dead link (timeout, transport error) retires a connection.
+        const probes = this.readyMembers()
+            .filter(member => member.client.pendingCount === 0)
+            .map(member => member.client
+                .probe('/system/identity/print', this.options.healthCheckTimeout ?? 5000)
+                .catch(error => {
+                    if (MikrotikPool.isLinkFailure(error)) this.onMemberLost(member, error);
+                    else this.logger.debug('MikrotikPool: Health probe refused by the router, keeping the connection.', { error });
+                }));
+        await Promise.all(probes);
+    }
+
+    private stopTimers(): void {
+        if (this.healthTimer) clearInterval(this.healthTimer);
+        if (this.replaceTimer) clearTimeout(this.replaceTimer);
+        this.healthTimer = null;
+        this.replaceTimer = null;
+    }
+
+    /**
+     * Timeouts, `!fatal` and transport errors. A router answer (trap, HTTP error) proves the link is alive.
+     */
+    private static isLinkFailure(error: unknown): boolean {
+        if (!(error instanceof RosError)) return true;
+        return error instanceof RosTimeoutError || error.isFatal;
+    }
+
+    private readyMembers(): PoolMember[] {
+        return this.members.filter(member => member.state === 'ready' && member.client.isConnected);
+    }
+
+    private pendingTotal(): number {
+        return this.members.reduce((total, member) => total + member.client.pendingCount, 0);
+    }
+}
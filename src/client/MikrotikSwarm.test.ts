@@ -0,0 +1,101 @@
+import { test, describe, before, after, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MikrotikSwarm } from './MikrotikSwarm';
+import { RolloutEvent } from './SwarmRollout';
+import { MockRouterServer } from '../testing/MockRouterServer';
+import { noopLogger } from '../core/Logger';
+
+describe('Swarm rollouts', () => {
+    const ids = ['r1', 'r2', 'r3', 'r4'];
+    const routers = new Map(ids.map(id => [id, new MockRouterServer()]));
+    const swarm = new MikrotikSwarm({ logger: noopLogger });
+    const events: RolloutEvent[] = [];
+
+    const change = { command: '/ip/dns/set', params: { servers: '1.1.1.1' } };
+    const rollback = { command: '/ip/dns/set', params: { servers: '8.8.8.8' } };
+    const servers = () => ids.map(id => routers.get(id)!.store.list('/ip/dns')[0].servers);
+
+    before(async () => {
+        for (const [index, id] of ids.entries()) {
+            await routers.get(id)!.start();
+            swarm.addNode(id, routers.get(id)!.clientOptions(), { tags: index === 3 ? ['lab'] : [] });
+        }
+        await swarm.connectAll();
+        swarm.on('rollout', event => events.push(event));
+    });
+
+    after(async () => {
+        swarm.closeAll();
+        await Promise.all(Array.from(routers.values()).map(router => router.stop()));
+    });
+
+    beforeEach(() => {
+        routers.forEach(router => router.store.setSingleton('/ip/dns', { servers: '8.8.8.8' }));
+        events.length = 0;
+    });
+
+    test('canary first, then batches of `concurrency` nodes', async () => {
+        const report = await swarm.rollout(change, { concurrency: 2 });
+
+        assert.equal(report.ok, true);
+        assert.deepEqual(servers(), ['1.1.1.1', '1.1.1.1', '1.1.1.1', '1.1.1.1']);
+        assert.deepEqual(
+            events.flatMap(event => event.type === 'batch' ? [[event.batch, event.canary, event.nodeIds]] : []),
+            [[0, true, ['r1']], [1, false, ['r2', 'r3']], [2, false, ['r4']]]
+        );
+        assert.equal(events[events.length - 1].type, 'done');
+    });
+
+    test('a failed canary halts the rollout before the fleet', async () => {
+        routers.get('r4')!.injectTrap({ command: '/ip/dns/set', message: 'failure: invalid value' });
+        const report = await swarm.rollout(change, { canary: 'tag:lab' });
+
+        assert.equal(report.halted, true);
+        assert.match(report.haltReason!, /Canary failed on 1 of 1 nodes/);
+        assert.deepEqual(report.nodes.map(node => [node.nodeId, node.status]), [['r4', 'failed'], ['r1', 'skipped'], ['r2', 'skipped'], ['r3', 'skipped']]);
+        assert.deepEqual(servers(), ['8.8.8.8', '8.8.8.8', '8.8.8.8', '8.8.8.8']);
+    });
+
+    test('an unhealthy batch rolls back every changed node, latest first', async () => {
+        const report = await swarm.rollout(change, {
+            verify: async (_client, nodeId) => nodeId !== 'r3',
+            rollback
+        });
+
+        assert.equal(report.halted, true);
+        assert.equal(report.rolledBack, true);
+        assert.deepEqual(
+            events.flatMap(event => event.type === 'rollback' ? [event.result.nodeId] : []),
+            ['r3', 'r2', 'r1']
+        );
+        assert.deepEqual(report.nodes.map(node => node.status), ['rolled-back', 'rolled-back', 'rolled-back', 'skipped']);
+        assert.deepEqual(servers(), ['8.8.8.8', '8.8.8.8', '8.8.8.8', '8.8.8.8']);
+    });
+
+    test('failures within the budget do not halt', async () => {
+        routers.get('r2')!.injectTrap({ command: '/ip/dns/set', message: 'failure: invalid value' });
+        const report = await swarm.rollout(change, { maxFailurePercent: 50 });
+
+        assert.equal(report.halted, false);
+        assert.equal(report.ok, false);
+        assert.equal(report.failurePercent, 25);
+        assert.deepEqual(servers(), ['1.1.1.1', '8.8.8.8', '1.1.1.1', '1.1.1.1']);
+    });
+
+    test('a timed out change is rolled back too, it may have reached the router', async () => {
+        // r3 applies the change, but answers after the deadline
+        const slow = routers.get('r3')!;
+        slow.handle('/ip/dns/set', params => new Promise(resolve => setTimeout(() => {
+            slow.store.setSingleton('/ip/dns', { servers: params.servers });
+            resolve([]);
+        }, 150)));
+
+        const report = await swarm.rollout({ ...change, options: { timeoutMs: 50 } }, { rollback });
+
+        assert.equal(report.halted, true);
+        assert.equal(report.nodes.find(node => node.nodeId === 'r3')!.timedOut, true);
+        assert.deepEqual(report.nodes.map(node => node.status), ['rolled-back', 'rolled-back', 'rolled-back', 'skipped']);
+        assert.equal(report.rolledBack, true);
+        assert.deepEqual(servers(), ['8.8.8.8', '8.8.8.8', '8.8.8.8', '8.8.8.8']);
+    });
+});
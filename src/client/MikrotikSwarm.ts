@@ -1,4 +1,11 @@
+import * as fs from 'fs';
+import { EventEmitter } from 'events';
 import { MikrotikClient, MikrotikOptions, IWriteOptions } from './MikrotikClient';
+import { RosTimeoutError } from '../core/RosError';
+import { PolicyGuard, PolicyOptions } from '../core/PolicyGuard';
+import { Logger, ConsoleLogger } from '../core/Logger';
+import { Inventory, NodeLabels, TargetExpression } from '../features/Inventory';
+import { SwarmRollout, RolloutStep, RolloutOptions, RolloutReport } from './SwarmRollout';
 
 /**
  * Represents the outcome of an operation on a specific node within the swarm.
@@ -12,6 +19,42 @@ export interface SwarmResult {
     data?: any[];
     /** The error message (if failed). */
     error?: string;
+    /** True if the node did not answer within the `timeoutMs` deadline. */
+    timedOut?: boolean;
+}
+
+export interface MikrotikSwarmOptions {
+    /**
+     * Fleet-wide command policy. Every node enforces it on top of its own `policy`,
+     * so a node can be restricted further but never loosened.
+     * Default: every command allowed
+     */
+    policy?: PolicyOptions | 'read-only' | PolicyGuard;
+
+    /**
+     * Log sink of the swarm, also handed to every node that has no `logger` of its own.
+     * Default: `ConsoleLogger` from 'warn' upwards
+     */
+    logger?: Logger;
+}
+
+export interface SwarmInventoryOptions extends MikrotikSwarmOptions {
+    /**
+     * Hot reload: re-reads the inventory when the file changes and adds, replaces or removes nodes.
+     * Pass a number to set the polling interval in ms.
+     * Default: false (Polling: 2000ms)
+     */
+    watch?: boolean | number;
+}
+
+/**
+ * Nodes touched by an inventory (re)load. Emitted as the 'inventory' event.
+ */
+export interface InventoryChange {
+    added: string[];
+    /** Connection settings changed: the client was replaced */
+    updated: string[];
+    removed: string[];
 }
 
 /**
@@ -25,20 +68,138 @@ export interface SwarmResult {
  * This class uses `Promise.allSettled` to execute commands in parallel.
  * It handles partial failures gracefully (e.g., if 1 out of 50 routers is offline,
  * the other 49 will still receive the command).
+ *
+ * **Inventory:** `MikrotikSwarm.fromInventory()` builds the fleet from a YAML/JSON file
+ * (groups, tags, credential references) and can reload it live. Events: 'inventory' (`InventoryChange`)
+ * and 'inventoryError' (the previous nodes stay in place).
+ *
+ * **Rollouts:** `rollout()` changes the fleet in batches (canary first) behind health gates,
+ * emitting 'rollout' progress events (`RolloutEvent`).
  */
-export class MikrotikSwarm {
+export class MikrotikSwarm extends EventEmitter {
     /**
      * Internal registry of router clients.
      * Key: Node ID, Value: MikrotikClient Instance.
      */
     private nodes = new Map<string, MikrotikClient>();
 
+    /**
+     * Groups and tags of every node, matched by target expressions.
+     */
+    private labels = new Map<string, NodeLabels>();
+
+    /**
+     * Nodes owned by the inventory, with their serialized settings (to detect changes on reload).
+     * Nodes added with `addNode()` are never removed by a reload.
+     */
+    private inventoryNodes = new Map<string, string>();
+    private inventoryPath: string | null = null;
+    private watchListener: (() => void) | null = null;
+    private isConnected = false;
+
+    /**
+     * Fleet-wide policy, enforced by every node.
+     * @example const noc = new MikrotikSwarm({ policy: 'read-only' });
+     */
+    public readonly policy: PolicyGuard;
+
+    private readonly logger: Logger;
+
+    constructor(options: MikrotikSwarmOptions = {}) {
+        super();
+        this.policy = options.policy instanceof PolicyGuard ? options.policy : new PolicyGuard(options.policy);
+        this.logger = options.logger || new ConsoleLogger();
+    }
+
+    /**
+     * **Inventory-Driven Swarm**
+     *
+     * Builds a swarm from an inventory file (YAML, or JSON for `.json`) with nodes, groups, tags,
+     * per-group defaults and credential references (`passwordEnv` / `passwordFile`, never inline).
+     * The nodes are registered but not connected: call `connectAll()`.
+     *
+     * @param path Inventory file.
+     * @param options Swarm options, plus `watch` for hot reload.
+     * @throws InventoryError when the file is invalid or a credential cannot be resolved.
+     *
+     * @example
+     * const swarm = await MikrotikSwarm.fromInventory('./fleet.yaml', { watch: true });
+     * await swarm.connectAll();
+     * await swarm.multicast('group:core && tag:v7 && !id:edge-3', '/ip/dns/set', { servers: '1.1.1.1' });
+     */
+    public static async fromInventory(path: string, options: SwarmInventoryOptions = {}): Promise<MikrotikSwarm> {
+        const swarm = new MikrotikSwarm(options);
+        swarm.inventoryPath = path;
+        await swarm.reloadInventory();
+
+        if (options.watch) {
+            swarm.watchInventory(typeof options.watch === 'number' ? options.watch : 2000);
+        }
+        return swarm;
+    }
+
+    /**
+     * Re-reads the inventory: new nodes are added (and connected if the swarm is), nodes whose
+     * connection settings changed get a new client, nodes gone from the file are closed and removed.
+     * On error nothing changes.
+     *
+     * @example
+     * process.on('SIGHUP', () => swarm.reloadInventory().catch(console.error));
+     */
+    public async reloadInventory(): Promise<InventoryChange> {
+        if (!this.inventoryPath) {
+            throw new Error('MikrotikSwarm: No inventory, use MikrotikSwarm.fromInventory().');
+        }
+
+        // Resolve everything first: a broken file must not tear down the running fleet
+        const resolved = (await Inventory.load(this.inventoryPath)).resolve();
+        const change: InventoryChange = { added: [], updated: [], removed: [] };
+        const seen = new Set<string>();
+
+        for (const node of resolved) {
+            seen.add(node.id);
+            const fingerprint = JSON.stringify(node.options);
+            const previous = this.inventoryNodes.get(node.id);
+
+            this.labels.set(node.id, node.labels);
+            if (previous === fingerprint) continue;
+
+            if (previous === undefined) change.added.push(node.id);
+            else {
+                change.updated.push(node.id);
+                this.nodes.get(node.id)?.close();
+                this.nodes.delete(node.id); // Replaced on purpose, no overwrite warning
+            }
+
+            this.addNode(node.id, node.options, node.labels);
+            this.inventoryNodes.set(node.id, fingerprint);
+        }
+
+        for (const id of Array.from(this.inventoryNodes.keys())) {
+            if (seen.has(id)) continue;
+            change.removed.push(id);
+            this.removeNode(id);
+        }
+
+        // A running swarm connects the new clients right away
+        if (this.isConnected) {
+            await Promise.allSettled([...change.added, ...change.updated].map(id => this.connectNode(id)));
+        }
+
+        if (change.added.length + change.updated.length + change.removed.length > 0) {
+            this.logger.info(`MikrotikSwarm: Inventory loaded (+${change.added.length} ~${change.updated.length} -${change.removed.length}).`);
+            this.emit('inventory', change);
+        }
+        return change;
+    }
+
     /**
      * Adds a new router node to the swarm registry.
      * The client is instantiated but not connected immediately.
      *
      * @param id A unique string identifier for this router (e.g., "Gateway_01", "192.168.88.1").
      * @param config The configuration object for the MikrotikClient (Host, User, Pass, Protocol).
+     * @param labels Groups and tags for target expressions (`group:core && tag:v7`).
      *
      * @example
      * // EXAMPLE 1: Adding a RouterOS v7 Node (REST Mode)
@@ -60,12 +221,45 @@ export class MikrotikSwarm {
      * port: 8728
      * });
      */
-    public addNode(id: string, config: MikrotikOptions): void {
+    public addNode(id: string, config: MikrotikOptions, labels: NodeLabels = {}): void {
         if (this.nodes.has(id)) {
-            console.warn(`[MikrotikSwarm] Warning: Overwriting existing node ID '${id}'.`);
+            this.logger.warn(`MikrotikSwarm: Overwriting existing node ID '${id}'.`, { node: id });
         }
-        const client = new MikrotikClient(config);
+        // The node's own policy applies on top of the swarm policy
+        const policy = config.policy instanceof PolicyGuard
+            ? new PolicyGuard({}, this.policy, config.policy)
+            : new PolicyGuard(config.policy, this.policy);
+
+        const client = new MikrotikClient({...config, policy, logger: config.logger || this.logger});
         this.nodes.set(id, client);
+        this.labels.set(id, labels);
+    }
+
+    /**
+     * Closes a node and removes it from the registry.
+     * @returns False if there was no such node.
+     */
+    public removeNode(id: string): boolean {
+        const client = this.nodes.get(id);
+        if (!client) return false;
+
+        client.close();
+        this.nodes.delete(id);
+        this.labels.delete(id);
+        this.inventoryNodes.delete(id);
+        return true;
+    }
+
+    /**
+     * Node IDs matching a target expression.
+     * Selectors `id:`, `group:` and `tag:` (with `*` wildcards), combined with `&&`, `||`, `!` and parentheses.
+     *
+     * @example
+     * swarm.select('group:core && tag:v7 && !id:edge-3'); // ['core-1', 'core-2']
+     */
+    public select(target: string): string[] {
+        const expression = TargetExpression.parse(target);
+        return Array.from(this.nodes.keys()).filter(id => expression.matches(id, this.labels.get(id)));
     }
 
     /**
@@ -87,21 +281,24 @@ export class MikrotikSwarm {
      * console.log(`Warning: ${offlineNodes.length} routers are unreachable.`);
      */
     public async connectAll(): Promise<void> {
-        console.log(`[Swarm] Connecting to ${this.nodes.size} nodes...`);
+        this.logger.info(`MikrotikSwarm: Connecting to ${this.nodes.size} nodes.`);
 
-        const promises = Array.from(this.nodes.entries()).map(async ([id, client]) => {
-            try {
-                await client.connect();
-                console.log(`[${id}] Connected`);
-            } catch (err: any) {
-                console.error(`[${id}] Connection Failed: ${err.message}`);
-            }
-        });
+        this.isConnected = true;
+        const promises = Array.from(this.nodes.keys()).map(id => this.connectNode(id));
 
         // Wait for all attempts to finish (whether success or fail)
         await Promise.allSettled(promises);
     }
 
+    private async connectNode(id: string): Promise<void> {
+        try {
+            await this.nodes.get(id)?.connect();
+            this.logger.info('MikrotikSwarm: Node connected.', { node: id });
+        } catch (err: any) {
+            this.logger.error('MikrotikSwarm: Node connection failed.', { node: id, error: err });
+        }
+    }
+
     /**
      * **Broadcast Command**
      *
@@ -111,6 +308,8 @@ export class MikrotikSwarm {
      * @param command The API command path (e.g., `/ip/firewall/filter/add`).
      * @param params The parameters for the command (e.g., `{ chain: 'input', action: 'drop' }`).
      * @param options Execution options (e.g., `{ idempotent: true }` to avoid duplicates).
+     * The deadline (`timeoutMs`, `signal`) applies to every node individually, so one
+     * hung router cannot stall the whole broadcast.
      * @returns A Promise resolving to an array of results for each node.
      *
      * @example
@@ -127,13 +326,18 @@ export class MikrotikSwarm {
      * servers: '8.8.8.8,1.1.1.1',
      * 'allow-remote-requests': 'yes'
      * });
+     *
+     * @example
+     * // EXAMPLE 3: Bounded Broadcast (slow nodes are reported with timedOut: true)
+     * const results = await swarm.broadcast('/system/identity/print', {}, { timeoutMs: 5000 });
+     * const slow = results.filter(r => r.timedOut).map(r => r.nodeId);
      */
     public async broadcast(
         command: string,
         params?: Record<string, any>,
         options?: IWriteOptions
     ): Promise<SwarmResult[]> {
-        console.log(`[Swarm] Broadcasting: ${command} to ${this.nodes.size} nodes.`);
+        this.logger.info(`MikrotikSwarm: Broadcasting to ${this.nodes.size} nodes.`, { path: command });
 
         // Execute on all nodes
         return this.executeOnClients(Array.from(this.nodes.entries()), command, params, options);
@@ -142,10 +346,12 @@ export class MikrotikSwarm {
     /**
      * **Multicast Command**
      *
-     * Executes a write operation on a **SPECIFIC SUBSET** of nodes defined by their IDs.
+     * Executes a write operation on a **SPECIFIC SUBSET** of nodes defined by their IDs
+     * or by a target expression (see `select()`).
      * Useful when you only want to update a specific region or type of router.
      *
-     * @param nodeIds An array of Node IDs to target (e.g., `['TOWER_A', 'TOWER_B']`).
+     * @param nodeIds An array of Node IDs to target (e.g., `['TOWER_A', 'TOWER_B']`),
+     * or a target expression (e.g., `'group:north && !tag:v6'`).
      * @param command The API command path.
      * @param params The parameters for the command.
      * @param options Execution options.
@@ -162,21 +368,73 @@ export class MikrotikSwarm {
      * group: 'full',
      * password: 'secure_temp_pass'
      * });
+     *
+     * @example
+     * // EXAMPLE 3: Target by inventory groups and tags
+     * await swarm.multicast('group:core && tag:v7 && !id:edge-3', '/routing/bgp/connection/print');
      */
     public async multicast(
-        nodeIds: string[],
+        nodeIds: string[] | string,
         command: string,
         params?: Record<string, any>,
         options?: IWriteOptions
     ): Promise<SwarmResult[]> {
+        const targets = typeof nodeIds === 'string' ? this.select(nodeIds) : nodeIds;
         const targetEntries = Array.from(this.nodes.entries())
-            .filter(([id]) => nodeIds.includes(id));
+            .filter(([id]) => targets.includes(id));
 
-        console.log(`🐝 [Swarm] Multicasting: ${command} to ${targetEntries.length} selected nodes.`);
+        this.logger.info(`MikrotikSwarm: Multicasting to ${targetEntries.length} selected nodes.`, { path: command });
 
         return this.executeOnClients(targetEntries, command, params, options);
     }
 
+    /**
+     * **Rolling Rollout**
+     *
+     * Applies a change batch by batch instead of everywhere at once: a canary batch first,
+     * then `concurrency` nodes at a time. Each batch must pass the `verify` health gate; the rollout
+     * halts when the canary fails or the failure rate exceeds `maxFailurePercent`, and then runs
+     * `rollback` on the nodes already changed. Progress is emitted as 'rollout' events.
+     *
+     * @param step The change: `{ command, params, options }` or a function of the node's client.
+     * @param options Targets, canary, concurrency, health gate, failure budget and rollback.
+     * @returns The per-node report (never rejects for node failures).
+     *
+     * @example
+     * // EXAMPLE 1: Change BGP timers on the core, two routers at a time, keeping sessions up
+     * const report = await swarm.rollout(
+     * { command: '/routing/bgp/template/set', params: { numbers: 'default', 'hold-time': '30s' } },
+     * {
+     * target: 'group:core',
+     * canary: 1,
+     * concurrency: 2,
+     * settleMs: 10000,
+     * verify: async (client) => (await client.write('/routing/bgp/session/print')).every(s => s.established),
+     * rollback: { command: '/routing/bgp/template/set', params: { numbers: 'default', 'hold-time': '3m' } }
+     * });
+     * if (report.halted) console.error(report.haltReason);
+     *
+     * @example
+     * // EXAMPLE 2: Follow the progress
+     * swarm.on('rollout', (event) => {
+     * if (event.type === 'node') console.log(event.result.nodeId, event.result.status);
+     * });
+     */
+    public async rollout(step: RolloutStep, options: RolloutOptions = {}): Promise<RolloutReport> {
+        const targets = options.target === undefined
+            ? Array.from(this.nodes.keys())
+            : (typeof options.target === 'string' ? this.select(options.target) : options.target.filter(id => this.nodes.has(id)));
+
+        const canary = typeof options.canary === 'string'
+            ? this.select(options.canary).filter(id => targets.includes(id))
+            : targets.slice(0, options.canary ?? 1);
+
+        this.logger.info(`MikrotikSwarm: Rolling out to ${targets.length} nodes (canary: ${canary.length}).`);
+
+        const clients = new Map(targets.map(id => [id, this.nodes.get(id)!] as [string, MikrotikClient]));
+        return new SwarmRollout(clients, canary, step, options, event => this.emit('rollout', event), this.logger).run();
+    }
+
     /**
      * Safely closes connections for all nodes in the swarm.
      * Should be called when the application shuts down.
@@ -198,14 +456,19 @@ export class MikrotikSwarm {
      * });
      */
     public closeAll(): void {
+        this.isConnected = false;
+        if (this.watchListener && this.inventoryPath) {
+            fs.unwatchFile(this.inventoryPath, this.watchListener);
+            this.watchListener = null;
+        }
         this.nodes.forEach((client, id) => {
             try {
                 client.close();
             } catch (e) {
-                console.error(`Error closing client ${id}`, e);
+                this.logger.error('MikrotikSwarm: Error closing client.', { node: id, error: e });
             }
         });
-        console.log('🐝 [Swarm] All connections closed.');
+        this.logger.info('MikrotikSwarm: All connections closed.');
     }
 
     /**
@@ -256,6 +519,21 @@ export class MikrotikSwarm {
     // PRIVATE WORKER
     // =========================================
 
+    /**
+     * Polls the inventory file (survives editors that replace the file) and reloads it on change.
+     */
+    private watchInventory(interval: number): void {
+        if (!this.inventoryPath || this.watchListener) return;
+
+        this.watchListener = () => {
+            this.reloadInventory().catch(error => {
+                this.logger.error('MikrotikSwarm: Inventory reload failed, keeping the current nodes.', { error });
+                this.emit('inventoryError', error);
+            });
+        };
+        fs.watchFile(this.inventoryPath, { interval, persistent: false }, this.watchListener);
+    }
+
     private async executeOnClients(
         entries: [string, MikrotikClient][],
         command: string,
@@ -277,7 +555,8 @@ export class MikrotikSwarm {
                 return {
                     nodeId: id,
                     success: false,
-                    error: err.message || 'Unknown error'
+                    error: err.message || 'Unknown error',
+                    timedOut: err instanceof RosTimeoutError
                 };
             }
         });
@@ -0,0 +1,93 @@
+import { test, describe, before, after, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MikrotikClient } from './MikrotikClient';
+import { TransactionError } from './MikrotikTransaction';
+import { MockRouterServer } from '../testing/MockRouterServer';
+
+describe('MikrotikTransaction', () => {
+    const mock = new MockRouterServer();
+    let client: MikrotikClient;
+    let existing: string;
+
+    before(async () => {
+        await mock.start();
+        client = mock.client();
+        await client.connect();
+    });
+
+    after(async () => {
+        await mock.stop();
+    });
+
+    beforeEach(() => {
+        mock.store.remove('/ppp/secret', mock.store.list('/ppp/secret').map(item => item['.id']));
+        [existing] = mock.store.seed('/ppp/secret', [
+            { name: 'keep', profile: 'gold', service: 'pppoe' },
+            { name: 'drop', profile: 'basic', service: 'pppoe' }
+        ]).map(item => item['.id']);
+    });
+
+    const secrets = () => mock.store.list('/ppp/secret').map(({ name, profile }) => ({ name, profile }));
+
+    test('commits every step', async () => {
+        const results = await client.transaction()
+            .add('/ppp/secret/add', { name: 'new', profile: 'vip' })
+            .add('/ppp/secret/set', { '.id': existing, profile: 'vip' })
+            .commit();
+
+        assert.equal(results.length, 2);
+        assert.deepEqual(secrets(), [{ name: 'keep', profile: 'vip' }, { name: 'drop', profile: 'basic' }, { name: 'new', profile: 'vip' }]);
+    });
+
+    test('a failure undoes add, set and remove in reverse order', async () => {
+        const before = secrets();
+        const dropId = mock.store.list('/ppp/secret')[1]['.id'];
+        mock.injectTrap({ command: '/queue/simple/add', message: 'failure: out of memory' });
+
+        await assert.rejects(
+            client.transaction()
+                .add('/ppp/secret/add', { name: 'new', profile: 'vip' })
+                .add('/ppp/secret/set', { '.id': existing, profile: 'vip' })
+                .add('/ppp/secret/remove', { '.id': dropId })
+                .add('/queue/simple/add', { name: 'new', target: '10.0.0.50' })
+                .commit(),
+            (error: TransactionError) => {
+                assert.ok(error instanceof TransactionError);
+                assert.equal(error.isRolledBack, true);
+                assert.match(error.message, /Step 4/);
+                assert.deepEqual(error.report.steps.map(step => step.status), ['rolled-back', 'rolled-back', 'rolled-back', 'failed']);
+                return true;
+            }
+        );
+
+        // Same items and values (the removed one comes back under a new .id)
+        assert.deepEqual(secrets().sort((a, b) => a.name.localeCompare(b.name)), before.sort((a, b) => a.name.localeCompare(b.name)));
+    });
+
+    test('explicit inverses run, irreversible steps are reported', async () => {
+        mock.handle('/system/script/run', () => []);
+        mock.injectTrap({ command: '/ppp/secret/add', message: 'failure: secret with the same name already exists' });
+
+        const report = await client.transaction()
+            .add('/system/script/run', { number: 'provision' }, { inverse: { path: '/ppp/secret/set', params: { '.id': existing, comment: 'undone' } } })
+            .add('/system/script/run', { number: 'notify' }, { inverse: null })
+            .add('/ppp/secret/add', { name: 'keep' })
+            .run();
+
+        assert.equal(report.ok, false);
+        assert.equal(report.rolledBack, false);
+        assert.deepEqual(report.steps.map(step => step.status), ['rolled-back', 'irreversible', 'failed']);
+        assert.equal(mock.store.get('/ppp/secret', existing)?.comment, 'undone');
+    });
+
+    test('pre-image reads share the deadline of the batch', async () => {
+        // A slow read: the set step must not start once the budget is spent
+        mock.handle('/ppp/secret/print', () => new Promise(resolve => setTimeout(() => resolve(mock.store.list('/ppp/secret')), 150)));
+
+        const report = await client.transaction().add('/ppp/secret/set', { '.id': existing, profile: 'vip' }).run({ timeoutMs: 50 });
+
+        assert.equal(report.ok, false);
+        assert.equal(report.steps[0].error?.name, 'RosTimeoutError');
+        assert.equal(mock.store.get('/ppp/secret', existing)?.profile, 'gold');
+    });
+});
@@ -1,22 +1,116 @@
-import { MikrotikClient } from './MikrotikClient';
+import { MikrotikClient, IDeadlineOptions } from './MikrotikClient';
+import { ResultParser } from './ResultParser';
+import { RosTimeoutError, RosAbortError } from '../core/RosError';
+import { camelToKebab } from '../utils/Helpers';
+import { ROUTER_MANAGED_FIELDS } from '../features/Reconciler';
 
 /**
- * Defines a single step in a transaction.
+ * A raw API command (menu path + action, and its parameters).
  */
-interface TransactionStep {
+export interface TransactionCommand {
     path: string;
     params: Record<string, any>;
 }
 
+/**
+ * Defines a single step in a transaction.
+ */
+interface TransactionStep extends TransactionCommand {
+    /** Explicit compensation. `null` marks the step as irreversible. */
+    inverse?: TransactionCommand[] | null;
+}
+
+/**
+ * What an automatic inverse works on: `/ip/address/set` with `.id=*1,*2`.
+ */
+interface StepTarget {
+    menu: string;
+    action: string;
+    ids: string[];
+}
+
+/** Actions inverted from the pre-image of their items */
+const PRE_IMAGE_ACTIONS = ['set', 'remove', 'enable', 'disable'];
+
+export interface TransactionStepOptions {
+    /**
+     * Commands that undo this step, replacing the automatic inverse.
+     * Required for actions the transaction cannot invert by itself (e.g. `/system/script/run`).
+     * Pass `null` to declare the step irreversible.
+     */
+    inverse?: TransactionCommand | TransactionCommand[] | null;
+}
+
+export interface CheckpointOptions {
+    /** Backup file name, without extension (Default: `tx-<timestamp>`) */
+    name?: string;
+    /** Keep the backup after a successful commit (Default: false, it is always kept on failure) */
+    keep?: boolean;
+}
+
+/**
+ * - 'applied': Executed and kept.
+ * - 'failed': The step that broke the transaction.
+ * - 'skipped': Never executed.
+ * - 'rolled-back': Executed, then undone by its inverse.
+ * - 'rollback-failed': Executed, and its inverse failed (see `rollbackError`).
+ * - 'irreversible': Executed, but no inverse was known.
+ */
+export type TransactionStepStatus = 'applied' | 'failed' | 'skipped' | 'rolled-back' | 'rollback-failed' | 'irreversible';
+
+export interface TransactionStepResult {
+    index: number;
+    path: string;
+    status: TransactionStepStatus;
+    /** Router response of the step */
+    result?: any;
+    error?: Error;
+    rollbackError?: Error;
+    /** Commands that undo (or undid) the step */
+    inverse?: TransactionCommand[];
+}
+
+export interface TransactionReport {
+    /** True when every step was applied */
+    ok: boolean;
+    steps: TransactionStepResult[];
+    /** True when a failure occurred and every applied step was undone */
+    rolledBack: boolean;
+    /** The error that aborted the transaction */
+    error?: Error;
+    /** Name of the `/system/backup` checkpoint taken before the first step */
+    checkpoint?: string;
+}
+
+/**
+ * Raised by `commit()` when the transaction fails.
+ * `report` tells which steps were applied, which failed and which were rolled back.
+ */
+export class TransactionError extends Error {
+    constructor(message: string, public readonly report: TransactionReport) {
+        super(message);
+        this.name = 'TransactionError';
+        Object.setPrototypeOf(this, TransactionError.prototype);
+    }
+
+    /** True when the router was left exactly as before the transaction */
+    get isRolledBack(): boolean {
+        return this.report.rolledBack;
+    }
+}
+
 /**
  * MikrotikTransaction
- * Allows queuing multiple write commands and executing them as a batch.
- * Supports "Stop-on-Error" consistency.
+ * Allows queuing multiple write commands and executing them as a unit.
+ * * Every step records its inverse (remove for add, previous values for set, re-add for remove).
+ * * On failure, applied steps are compensated in reverse order.
+ * * Optional `/system/backup` checkpoint for worst-case manual recovery.
  */
 export class MikrotikTransaction {
     private client: MikrotikClient;
     private steps: TransactionStep[] = [];
     private useParallel: boolean = false;
+    private checkpointOptions: CheckpointOptions | null = null;
 
     constructor(client: MikrotikClient) {
         this.client = client;
@@ -26,9 +120,14 @@ export class MikrotikTransaction {
      * Adds a command to the transaction queue.
      * @param path Menu path (e.g., '/ppp/secret/add')
      * @param params Command parameters
+     * @param options Explicit inverse for actions other than add/set/remove/enable/disable
      */
-    public add(path: string, params: Record<string, any> = {}): this {
-        this.steps.push({ path, params });
+    public add(path: string, params: Record<string, any> = {}, options: TransactionStepOptions = {}): this {
+        const step: TransactionStep = { path, params };
+        if (options.inverse !== undefined) {
+            step.inverse = options.inverse === null ? null : ([] as TransactionCommand[]).concat(options.inverse);
+        }
+        this.steps.push(step);
         return this;
     }
 
@@ -42,53 +141,340 @@ export class MikrotikTransaction {
         return this;
     }
 
+    /**
+     * Takes a `/system/backup` snapshot before the first step.
+     * The backup is never restored automatically (loading it reboots the router);
+     * its name is reported so an operator can recover when the rollback itself fails.
+     */
+    public checkpoint(options: CheckpointOptions = {}): this {
+        this.checkpointOptions = options;
+        return this;
+    }
+
     /**
      * Executes the transaction.
      * - Sequential Mode (Default): Stops immediately if one command fails.
-     * - Parallel Mode: Tries to execute all, throws aggregated error if any fail.
+     * - Parallel Mode: Tries to execute all, fails if any of them fails.
+     * In both modes the applied steps are rolled back before the error is thrown.
+     *
+     * @param options Optional deadline for the WHOLE batch. In sequential mode each step
+     * receives only the time left, so `timeoutMs: 10000` bounds the entire commit.
+     * @returns The router response of every step.
+     * @throws {TransactionError} With the full report.
      */
-    public async commit(): Promise<any[]> {
+    public async commit(options?: IDeadlineOptions): Promise<any[]> {
         if (this.steps.length === 0) return [];
 
+        const report = await this.run(options);
+        if (report.ok) return report.steps.map(step => step.result);
+
+        const failed = report.steps.find(step => step.status === 'failed');
+        const reason = report.error?.message || String(report.error);
+        const message = !failed
+            ? `Transaction Failed: ${reason}`
+            : this.useParallel
+                ? `Parallel Transaction Failed: ${reason}`
+                : `Transaction Failed at Step ${failed.index + 1} (${failed.path}): ${reason}`;
+
+        const secrets = failed ? this.client.redactor.secretsOf(this.steps[failed.index].params) : [];
+        throw new TransactionError(this.client.redactor.redactText(message, secrets), report);
+    }
+
+    /**
+     * Executes the transaction and returns the report instead of throwing.
+     *
+     * @example
+     * const report = await client.transaction()
+     * .add('/ppp/secret/add', { name: 'client_A', profile: '10M' })
+     * .add('/queue/simple/add', { name: 'client_A', target: '192.168.1.50' })
+     * .run();
+     *
+     * if (!report.ok) console.table(report.steps.map(s => ({ path: s.path, status: s.status })));
+     */
+    public async run(options?: IDeadlineOptions): Promise<TransactionReport> {
+        const report: TransactionReport = {
+            ok: false,
+            rolledBack: false,
+            steps: this.steps.map((step, index) => ({ index, path: step.path, status: 'skipped' as TransactionStepStatus }))
+        };
+
+        // Policy: refuse the whole batch up front rather than rolling back half of it
+        try {
+            this.checkPolicy(report);
+        } catch (error: any) {
+            report.error = error;
+            return report;
+        }
+
+        if (this.checkpointOptions) {
+            const name = this.checkpointOptions.name || `tx-${Date.now()}`;
+            try {
+                await this.client.write('/system/backup/save', { name, 'dont-encrypt': 'yes' });
+                report.checkpoint = name;
+            } catch (error: any) {
+                report.error = new Error(`Checkpoint '${name}' could not be created: ${error.message || error}`);
+                return report;
+            }
+        }
+
+        const deadline = options?.timeoutMs !== undefined ? Date.now() + options.timeoutMs : undefined;
+
         if (this.useParallel) {
-            return this.executeParallel();
+            await this.executeParallel(report, deadline, options?.signal);
         } else {
-            return this.executeSequential();
+            await this.executeSequential(report, deadline, options?.signal);
+        }
+
+        report.ok = !report.error;
+
+        if (!report.ok) {
+            await this.rollback(report);
+        } else if (report.checkpoint && !this.checkpointOptions?.keep) {
+            await this.client.write('/file/remove', { numbers: `${report.checkpoint}.backup` }).catch(() => undefined);
+        }
+
+        return report;
+    }
+
+    /**
+     * Checks every command the transaction may send (steps, pre-image reads, inverses, checkpoint)
+     * against the client's policy before the first one goes out.
+     */
+    private checkPolicy(report: TransactionReport): void {
+        const policy = this.client.policy;
+
+        if (this.checkpointOptions) {
+            policy.check('/system/backup/save');
+            if (!this.checkpointOptions.keep) policy.check('/file/remove');
         }
+
+        this.steps.forEach((step, index) => {
+            try {
+                policy.check(step.path);
+                this.inversePaths(step).forEach(path => policy.check(path));
+            } catch (error: any) {
+                report.steps[index].status = 'failed';
+                report.steps[index].error = error;
+                throw error;
+            }
+        });
     }
 
+    // ==========================================
+    // EXECUTION
+    // ==========================================
+
     /**
      * Safe execution: Step 1 -> Step 2 -> Step 3.
      * If Step 2 fails, Step 3 is never executed.
      */
-    private async executeSequential(): Promise<any[]> {
-        const results: any[] = [];
-
+    private async executeSequential(report: TransactionReport, deadline?: number, signal?: AbortSignal): Promise<void> {
         for (const [index, step] of this.steps.entries()) {
+            const stepResult = report.steps[index];
             try {
-                const result = await this.client.write(step.path, step.params);
-                results.push(result);
+                // The pre-image read and the step share the remaining budget of the batch
+                const inverse = await this.prepareInverse(step, {timeoutMs: this.remaining(step, deadline), signal});
+                const result = await this.client.write(step.path, step.params, {timeoutMs: this.remaining(step, deadline), signal});
+                this.markApplied(stepResult, step, inverse, result);
             } catch (error: any) {
-                // Enhance error message to tell the developer exactly where it failed
-                throw new Error(
-                    `Transaction Failed at Step ${index + 1} (${step.path}): ${error.message || error}`
-                );
+                stepResult.status = 'failed';
+                stepResult.error = error;
+                report.error = error;
+                return;
             }
         }
-        return results;
     }
 
     /**
      * Fast execution: All at once.
+     * Pre-images are read before any write so the inverses reflect the original state.
      */
-    private async executeParallel(): Promise<any[]> {
+    private async executeParallel(report: TransactionReport, deadline?: number, signal?: AbortSignal): Promise<void> {
+        let inverses: (TransactionCommand[] | null | undefined)[];
         try {
-            const promises = this.steps.map(step =>
-                this.client.write(step.path, step.params)
-            );
-            return await Promise.all(promises);
+            inverses = await Promise.all(this.steps.map(step => this.prepareInverse(step, {timeoutMs: this.remaining(step, deadline), signal})));
         } catch (error: any) {
-            throw new Error(`Parallel Transaction Failed: ${error.message || error}`);
+            // Nothing was written yet
+            report.error = error;
+            return;
         }
+
+        const outcomes = await Promise.allSettled(
+            this.steps.map(async step => this.client.write(step.path, step.params, {timeoutMs: this.remaining(step, deadline), signal}))
+        );
+
+        outcomes.forEach((outcome, index) => {
+            const stepResult = report.steps[index];
+            if (outcome.status === 'fulfilled') {
+                this.markApplied(stepResult, this.steps[index], inverses[index], outcome.value);
+            } else {
+                stepResult.status = 'failed';
+                stepResult.error = outcome.reason;
+                if (!report.error) report.error = outcome.reason;
+            }
+        });
     }
-}
\ No newline at end of file
+
+    private markApplied(
+        stepResult: TransactionStepResult,
+        step: TransactionStep,
+        inverse: TransactionCommand[] | null | undefined,
+        result: any
+    ): void {
+        stepResult.status = 'applied';
+        stepResult.result = result;
+
+        // 'add' can only be inverted once the router has assigned the new `.id`
+        const resolved = inverse === undefined ? this.inverseOfAdd(step, result) : inverse;
+        if (resolved) stepResult.inverse = resolved;
+    }
+
+    // ==========================================
+    // COMPENSATION
+    // ==========================================
+
+    /**
+     * Undoes the applied steps in reverse order.
+     * Keeps going when an inverse fails, so as much as possible is restored.
+     */
+    private async rollback(report: TransactionReport): Promise<void> {
+        const applied = report.steps.filter(step => step.status === 'applied').reverse();
+
+        for (const stepResult of applied) {
+            if (!stepResult.inverse) {
+                stepResult.status = 'irreversible';
+                continue;
+            }
+            try {
+                for (const command of stepResult.inverse) {
+                    await this.client.write(command.path, command.params);
+                }
+                stepResult.status = 'rolled-back';
+            } catch (error: any) {
+                stepResult.status = 'rollback-failed';
+                stepResult.rollbackError = error;
+            }
+        }
+
+        report.rolledBack = applied.every(step => step.status === 'rolled-back');
+    }
+
+    /**
+     * Remaining budget of the batch, in ms (undefined without a deadline).
+     */
+    private remaining(step: TransactionStep, deadline?: number): number | undefined {
+        if (deadline === undefined) return undefined;
+        const timeoutMs = deadline - Date.now();
+        if (timeoutMs <= 0) throw new RosTimeoutError(step.path, 0);
+        return timeoutMs;
+    }
+
+    private target(step: TransactionStep): StepTarget {
+        const slash = step.path.lastIndexOf('/');
+        return {
+            menu: step.path.substring(0, slash),
+            action: step.path.substring(slash + 1),
+            ids: String(step.params['.id'] ?? step.params['numbers'] ?? '').split(',').filter(Boolean)
+        };
+    }
+
+    /**
+     * Commands that computing and running the inverse of a step may send (mirrors `prepareInverse()`).
+     */
+    private inversePaths(step: TransactionStep): string[] {
+        if (step.inverse !== undefined) return (step.inverse || []).map(command => command.path);
+
+        const { menu, action, ids } = this.target(step);
+        if (action === 'add') return [`${menu}/remove`];
+        if (!PRE_IMAGE_ACTIONS.includes(action) || ids.length === 0) return [];
+        return action === 'remove'
+            ? [`${menu}/print`, `${menu}/add`]
+            : [`${menu}/print`, `${menu}/set`, `${menu}/unset`];
+    }
+
+    /**
+     * Computes the commands that undo a step, reading the pre-image when needed.
+     * @returns The inverse, `null` if the step cannot be undone,
+     * or `undefined` when it depends on the step's result (add).
+     */
+    private async prepareInverse(step: TransactionStep, options: IDeadlineOptions): Promise<TransactionCommand[] | null | undefined> {
+        if (step.inverse !== undefined) return step.inverse;
+
+        const { menu, action, ids } = this.target(step);
+
+        if (action === 'add') return undefined;
+        if (!PRE_IMAGE_ACTIONS.includes(action) || ids.length === 0) return null;
+
+        try {
+            const inverse: TransactionCommand[] = [];
+
+            for (const id of ids) {
+                const before = await this.readItem(menu, id, options);
+                if (!before) return null;
+
+                if (action === 'remove') {
+                    inverse.push({ path: `${menu}/add`, params: this.recreateParams(before) });
+                    continue;
+                }
+
+                const changed = action === 'set'
+                    ? Object.keys(step.params).filter(key => key !== '.id' && key !== 'numbers').map(camelToKebab)
+                    : ['disabled'];
+
+                const restore: Record<string, string> = { '.id': before['.id'] };
+                const unset: string[] = [];
+                for (const key of changed) {
+                    if (key in before) restore[key] = before[key];
+                    else unset.push(key);
+                }
+
+                if (Object.keys(restore).length > 1) inverse.push({ path: `${menu}/set`, params: restore });
+                for (const key of unset) {
+                    inverse.push({ path: `${menu}/unset`, params: { numbers: before['.id'], 'value-name': key } });
+                }
+            }
+
+            return inverse;
+        } catch (error) {
+            // Out of time: the step must not run
+            if (error instanceof RosTimeoutError || error instanceof RosAbortError) throw error;
+            // The step will most likely fail too; if it does not, it is reported as irreversible
+            return null;
+        }
+    }
+
+    private inverseOfAdd(step: TransactionStep, result: any): TransactionCommand[] | null {
+        if (!step.path.endsWith('/add')) return null;
+
+        // Socket: [{ ret: '*1A' }] | REST: { '.id': '*1A', ... }
+        const response = Array.isArray(result) ? result[0] : result;
+        const newId = response ? (response['ret'] || response['.id'] || response['id']) : null;
+        if (!newId) return null;
+
+        return [{ path: step.path.replace(/\/add$/, '/remove'), params: { '.id': newId } }];
+    }
+
+    /**
+     * Reads one item in router format (kebab-case keys, string values).
+     * `id` may be an internal id (`*1A`) or a name, as accepted by `numbers`.
+     */
+    private async readItem(menu: string, id: string, options: IDeadlineOptions): Promise<Record<string, string> | null> {
+        const query: Record<string, string> = id.startsWith('*') ? { '?.id': id } : { '?name': id };
+        const rows = await this.client.write(`${menu}/print`, query, options);
+        const row = Array.isArray(rows) ? rows[0] : null;
+        return row ? ResultParser.toRouterFormat(row, this.client.decoding, menu) : null;
+    }
+
+    /**
+     * Properties needed to re-create a removed item (read-only fields are dropped).
+     * The new item gets a new `.id` and is appended at the end of ordered menus.
+     */
+    private recreateParams(before: Record<string, string>): Record<string, string> {
+        const params: Record<string, string> = {};
+        for (const [key, value] of Object.entries(before)) {
+            if (key.startsWith('.') || ROUTER_MANAGED_FIELDS.includes(key)) continue;
+            params[key] = value;
+        }
+        return params;
+    }
+}
@@ -0,0 +1,73 @@
+import { test, describe, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { QueryBuilder } from './QueryBuilder';
+import { MikrotikClient } from './MikrotikClient';
+import { MockRouterServer } from '../testing/MockRouterServer';
+
+describe('QueryBuilder', () => {
+    test('AND chains are sent without operators', () => {
+        const words = new QueryBuilder().where('disabled', false).whereGt('rxByte', 1000).toWords();
+        assert.deepEqual(words, ['?disabled=no', '?>rx-byte=1000']);
+    });
+
+    test('AND binds tighter than OR', () => {
+        const words = new QueryBuilder().where('disabled', false).whereGt('rxByte', 1000).orWhere('comment', 'vip').toWords();
+        assert.deepEqual(words, ['?disabled=no', '?>rx-byte=1000', '?#&', '?comment=vip', '?#|']);
+    });
+
+    test('negation, existence and groups', () => {
+        assert.deepEqual(new QueryBuilder().whereNot('action', 'accept').toWords(), ['?action=accept', '?#!']);
+        assert.deepEqual(new QueryBuilder().whereExists('comment').whereNotExists('dynamic').toWords(), ['?comment', '?-dynamic']);
+        assert.deepEqual(
+            new QueryBuilder().where('service', 'pppoe').whereGroup(q => q.where('profile', 'gold').orWhere('profile', 'vip')).toWords(),
+            ['?service=pppoe', '?profile=gold', '?profile=vip', '?#|']
+        );
+    });
+
+    test('REST queries drop the prefix, monitors take the equalities', () => {
+        const query = new QueryBuilder().where('interface', 'ether1').whereLt('rxByte', 5);
+        assert.deepEqual(query.toRestQuery(), ['interface=ether1', '<rx-byte=5']);
+        assert.deepEqual(query.toEqualityParams(), { interface: 'ether1' });
+    });
+});
+
+describe('Queries evaluated by the router', () => {
+    const mock = new MockRouterServer();
+    let client: MikrotikClient;
+
+    before(async () => {
+        await mock.start();
+        mock.store.seed('/ppp/secret', [
+            { name: 'ana', profile: 'gold', service: 'pppoe', 'limit-bytes-in': '10' },
+            { name: 'bob', profile: 'vip', service: 'pppoe', 'limit-bytes-in': '500' },
+            { name: 'cid', profile: 'gold', service: 'l2tp', 'limit-bytes-in': '900', comment: 'lab' },
+            { name: 'dan', profile: 'basic', service: 'pppoe', 'limit-bytes-in': '50' }
+        ]);
+        client = mock.client();
+        await client.connect();
+    });
+
+    after(async () => {
+        await mock.stop();
+    });
+
+    const names = async (build: (builder: ReturnType<MikrotikClient['command']>) => any) => {
+        const rows = await build(client.command('/ppp/secret')).print(undefined, { cache: false });
+        return rows.toArray().map((row: any) => row.name).sort();
+    };
+
+    test('comparison operators', async () => {
+        assert.deepEqual(await names(q => q.whereGt('limitBytesIn', 100)), ['bob', 'cid']);
+        assert.deepEqual(await names(q => q.whereLt('limitBytesIn', 100)), ['ana', 'dan']);
+        assert.deepEqual(await names(q => q.whereNot('profile', 'gold')), ['bob', 'dan']);
+    });
+
+    test('OR, groups and existence', async () => {
+        assert.deepEqual(await names(q => q.where('profile', 'gold').orWhere('profile', 'vip')), ['ana', 'bob', 'cid']);
+        assert.deepEqual(
+            await names(q => q.where('service', 'pppoe').whereGroup((g: QueryBuilder) => g.where('profile', 'gold').orWhere('profile', 'vip'))),
+            ['ana', 'bob']
+        );
+        assert.deepEqual(await names(q => q.whereExists('comment')), ['cid']);
+    });
+});
@@ -0,0 +1,203 @@
+import {camelToKebab} from '../utils/Helpers';
+
+/**
+ * A single entry on the RouterOS query stack, already compiled to API words.
+ */
+interface QueryTerm {
+    /** Words that push exactly one boolean onto the stack */
+    words: string[];
+    /** How this term joins the previous one */
+    connector: 'and' | 'or';
+    /** Plain equality (used to derive action params for monitor commands) */
+    equality?: { key: string; value: string };
+}
+
+/**
+ * Turns a (kebab-case) field and its JS value into the wire text of a condition.
+ */
+export type QueryValueEncoder = (key: string, value: string | number | boolean) => string;
+
+/**
+ * QueryBuilder.ts
+ * * Typed DSL for the RouterOS API query stack.
+ * * Compiles fluent conditions into the word list understood by `/print`:
+ * `?key=value`, `?>key=value`, `?<key=value`, `?key`, `?-key` and the stack
+ * operations `?#!` (NOT), `?#&` (AND) and `?#|` (OR).
+ * * Precedence follows SQL: AND binds tighter than OR. Use groups for anything else.
+ *
+ * @example
+ * // (disabled = false AND rx-byte > 1000) OR comment = 'vip'
+ * const query = new QueryBuilder()
+ * .where('disabled', false)
+ * .whereGt('rxByte', 1000)
+ * .orWhere('comment', 'vip');
+ *
+ * query.toWords();
+ * // ['?disabled=no', '?>rx-byte=1000', '?#&', '?comment=vip', '?#|']
+ */
+export class QueryBuilder {
+    private terms: QueryTerm[] = [];
+
+    /**
+     * @param encode Wire text of condition values. `CommandBuilder` passes the client's
+     * decoding profile, so codec fields are written the way they are read.
+     */
+    constructor(private readonly encode: QueryValueEncoder = (_key, value) => QueryBuilder.format(value)) {}
+
+    // ========================================================
+    // CONDITIONS
+    // ========================================================
+
+    /** Equality: `?key=value` */
+    public where(key: string, value: string | number | boolean): this {
+        return this.push('and', this.compare('=', key, value), this.equality(key, value));
+    }
+
+    /** OR-joined equality: `?key=value` ... `?#|` */
+    public orWhere(key: string, value: string | number | boolean): this {
+        return this.push('or', this.compare('=', key, value), this.equality(key, value));
+    }
+
+    /** Inequality: `?key=value` + `?#!` */
+    public whereNot(key: string, value: string | number | boolean): this {
+        return this.push('and', [...this.compare('=', key, value), '?#!']);
+    }
+
+    /** Greater than: `?>key=value` (numeric compare on the router) */
+    public whereGt(key: string, value: string | number): this {
+        return this.push('and', this.compare('>', key, value));
+    }
+
+    /** Less than: `?<key=value` (numeric compare on the router) */
+    public whereLt(key: string, value: string | number): this {
+        return this.push('and', this.compare('<', key, value));
+    }
+
+    /** Presence: `?key` (the item has the property, whatever its value) */
+    public whereExists(key: string): this {
+        return this.push('and', [`?${camelToKebab(key)}`]);
+    }
+
+    /** Absence: `?-key` */
+    public whereNotExists(key: string): this {
+        return this.push('and', [`?-${camelToKebab(key)}`]);
+    }
+
+    /**
+     * AND-joined sub-query, evaluated as a single condition.
+     * @example
+     * // name = 'a' AND (profile = 'gold' OR profile = 'vip')
+     * q.where('name', 'a').whereGroup(g => g.where('profile', 'gold').orWhere('profile', 'vip'));
+     */
+    public whereGroup(build: (group: QueryBuilder) => void): this {
+        return this.pushGroup('and', build);
+    }
+
+    /** OR-joined sub-query, evaluated as a single condition. */
+    public orWhereGroup(build: (group: QueryBuilder) => void): this {
+        return this.pushGroup('or', build);
+    }
+
+    // ========================================================
+    // COMPILATION
+    // ========================================================
+
+    public isEmpty(): boolean {
+        return this.terms.length === 0;
+    }
+
+    /**
+     * Compiles the conditions to query words (with the `?` prefix) for the socket API.
+     * Pure AND chains are sent without operators: RouterOS ANDs every value left on the stack.
+     */
+    public toWords(): string[] {
+        if (this.terms.length === 0) return [];
+
+        if (!this.hasOr()) return this.terms.flatMap(term => term.words);
+
+        return this.compile();
+    }
+
+    /**
+     * Compiles the conditions to the `.query` array of the REST `POST .../print` endpoint
+     * (same stack, without the `?` prefix).
+     */
+    public toRestQuery(): string[] {
+        return this.toWords().map(word => word.substring(1));
+    }
+
+    /**
+     * Plain equality conditions as `key -> value`.
+     * Monitor commands (`/interface/monitor-traffic`, `/tool/torch`) take these as arguments.
+     */
+    public toEqualityParams(): Record<string, string> {
+        const params: Record<string, string> = {};
+        for (const term of this.terms) {
+            if (term.equality) params[term.equality.key] = term.equality.value;
+        }
+        return params;
+    }
+
+    /**
+     * Converts a JS value into the string RouterOS expects.
+     */
+    public static format(value: string | number | boolean): string {
+        if (typeof value === 'boolean') return value ? 'yes' : 'no';
+        return String(value);
+    }
+
+    /**
+     * AND binds tighter than OR: every OR starts a new AND-chain,
+     * chains are reduced with `?#&` and then joined with `?#|`.
+     */
+    private compile(): string[] {
+        const chains: QueryTerm[][] = [];
+        for (const term of this.terms) {
+            if (chains.length === 0 || term.connector === 'or') chains.push([term]);
+            else chains[chains.length - 1].push(term);
+        }
+
+        const words: string[] = [];
+        chains.forEach((chain, chainIndex) => {
+            chain.forEach((term, termIndex) => {
+                words.push(...term.words);
+                if (termIndex > 0) words.push('?#&');
+            });
+            if (chainIndex > 0) words.push('?#|');
+        });
+        return words;
+    }
+
+    private compare(operator: '=' | '<' | '>', key: string, value: string | number | boolean): string[] {
+        const prefix = operator === '=' ? '?' : `?${operator}`;
+        const field = camelToKebab(key);
+        return [`${prefix}${field}=${this.encode(field, value)}`];
+    }
+
+    private equality(key: string, value: string | number | boolean): { key: string; value: string } {
+        const field = camelToKebab(key);
+        return {key: field, value: this.encode(field, value)};
+    }
+
+    private pushGroup(connector: 'and' | 'or', build: (group: QueryBuilder) => void): this {
+        const group = new QueryBuilder(this.encode);
+        build(group);
+        if (group.isEmpty()) return this;
+
+        // A group must leave exactly one value on the stack
+        const words = group.toWords();
+        const values = group.hasOr() ? 1 : group.terms.length;
+        for (let i = 1; i < values; i++) words.push('?#&');
+
+        return this.push(connector, words);
+    }
+
+    private hasOr(): boolean {
+        return this.terms.some((term, i) => i > 0 && term.connector === 'or');
+    }
+
+    private push(connector: 'and' | 'or', words: string[], equality?: QueryTerm['equality']): this {
+        this.terms.push({connector, words, equality});
+        return this;
+    }
+}
@@ -1,4 +1,5 @@
-import { kebabToCamel, isNumeric, parseBoolean } from '../utils/Helpers';
+import { kebabToCamel, camelToKebab, isNumeric, parseBoolean } from '../utils/Helpers';
+import { DecodingProfile } from '../core/ValueCodec';
 
 /**
  * ResultParser.ts
@@ -7,22 +8,25 @@ import { kebabToCamel, isNumeric, parseBoolean } from '../utils/Helpers';
  * - Converts property keys from kebab-case to camelCase.
  * - Auto-converts string numbers to JS numbers.
  * - Auto-converts "true"/"false"/"yes"/"no" to JS booleans.
+ * - Applies the codecs of a `DecodingProfile` (durations, rates, Dates...), or keeps raw strings in lossless mode.
  */
 export class ResultParser {
 
     /**
      * Parses an array of raw objects received from the MikroTik Client.
      * @param rawData The array of objects (usually from !re sentences).
+     * @param profile Field codecs and inference mode (Default: plain inference).
+     * @param menu Menu the rows come from, used to pick per-path codecs (e.g. `/queue/simple`).
      * @returns A new array with clean keys and typed values.
      */
-    public static parse(rawData: any[]): any[] {
-        return rawData.map(item => ResultParser.parseItem(item));
+    public static parse(rawData: any[], profile: DecodingProfile = DecodingProfile.default, menu: string = ''): any[] {
+        return rawData.map(item => ResultParser.parseItem(item, profile, menu));
     }
 
     /**
      * Parses a single item/row.
      */
-    private static parseItem(item: any): any {
+    private static parseItem(item: any, profile: DecodingProfile, menu: string): any {
         const cleanItem: any = {};
 
         for (const key of Object.keys(item)) {
@@ -34,13 +38,49 @@ export class ResultParser {
             // Convert "address-list" -> "addressList"
             newKey = kebabToCamel(newKey);
 
-            // 2. Clean the Value (Type Inference)
-            cleanItem[newKey] = ResultParser.inferType(value);
+            // 2. Clean the Value (Field Codec > Type Inference > Raw)
+            const decoded = profile.decodeField(menu, key, value);
+            if (decoded !== undefined) cleanItem[newKey] = decoded;
+            else cleanItem[newKey] = profile.mode === 'lossless' ? value : ResultParser.inferType(value);
         }
 
         return cleanItem;
     }
 
+    /**
+     * Reverses `parse()`: converts a row back to RouterOS wire format.
+     * Works on both parsed Socket rows (`id`, `macAddress`, `true`) and raw REST rows
+     * (`.id`, `mac-address`, `"true"`), so code comparing rows does not depend on the protocol.
+     * - Keys become kebab-case, and `id`/`nextid`/`dead` regain their leading dot.
+     * - Values become strings (booleans as 'true'/'false'; Dates, addresses and `{ tx, rx }` pairs in wire form).
+     * - Fields with a codec in `profile` are encoded by it (a `timeout` decoded to ms goes back as `1h`, not `3600000`).
+     * @param profile The profile the row was decoded with.
+     * @param menu Menu of the row, for path-specific codecs.
+     */
+    public static toRouterFormat(
+        item: Record<string, any>,
+        profile: DecodingProfile = DecodingProfile.default,
+        menu: string = ''
+    ): Record<string, string> {
+        const routerItem: Record<string, string> = {};
+
+        for (const [key, value] of Object.entries(item)) {
+            if (value === undefined || value === null) continue;
+
+            let routerKey = key.startsWith('.') ? key : camelToKebab(key);
+            if (ResultParser.DOTTED_KEYS.includes(routerKey)) routerKey = `.${routerKey}`;
+
+            routerItem[routerKey] = typeof value === 'boolean' && !profile.codecFor(menu, routerKey)
+                ? (value ? 'true' : 'false')
+                : profile.encode(menu, routerKey, value);
+        }
+
+        return routerItem;
+    }
+
+    /** Internal properties RouterOS prefixes with a dot (stripped by `parse()`) */
+    private static readonly DOTTED_KEYS = ['id', 'nextid', 'dead', 'about'];
+
     /**
      * Infers the JavaScript type from the string value.
      */
@@ -50,13 +90,12 @@ export class ResultParser {
         if (boolVal !== null) return boolVal;
 
         // Check for Number (but avoid converting IP addresses or mac addresses)
-        // Regex checks if it contains only digits (and optionally a dot for decimals/versions)
         // We must be careful not to convert "1.1.1.1" (IP) to a number.
-        // Simple rule: Is it numeric AND doesn't have multiple dots?
-        if (isNumeric(value) && (value.match(/\./g) || []).length <= 1) {
-            // Edge case: Version numbers like "6.48.6" have 2 dots, so they stay strings.
-            // Edge case: IP addresses have 3 dots, so they stay strings.
-            return parseFloat(value);
+        // Simple rule: Is it numeric AND does the number print back to the exact same text?
+        if (isNumeric(value) && String(Number(value)) === value) {
+            // Edge case: Version numbers like "6.48.6" and IP addresses are not numeric, so they stay strings.
+            // Edge case: "0012", "1.10", "1e5" and IDs beyond 2^53 would not round-trip, so they stay strings.
+            return Number(value);
         }
 
         // Return as String
@@ -0,0 +1,88 @@
+import { test, describe } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { SnapshotSubscription, SnapshotDiff } from './SnapshotSubscription';
+import { MikrotikClient } from './MikrotikClient';
+
+type Lease = { '.id': string; address: string; 'mac-address'?: string; uptime?: string };
+
+describe('Snapshot diffs', () => {
+    const client = {} as MikrotikClient;
+
+    const subscribe = () => {
+        const diffs: SnapshotDiff<Lease>[] = [];
+        const sub = new SnapshotSubscription<Lease>(client, diff => diffs.push(diff), () => undefined);
+        return { sub, diffs };
+    };
+
+    const a: Lease = { '.id': '*1', address: '10.0.0.1', 'mac-address': 'AA', uptime: '1s' };
+    const b: Lease = { '.id': '*2', address: '10.0.0.2', 'mac-address': 'BB', uptime: '1s' };
+
+    test('the first emission adds every item', async () => {
+        const { sub, diffs } = subscribe();
+        await sub.onDiff().processUpdate([a, b]);
+
+        assert.deepEqual(diffs[0].added, [a, b]);
+        assert.deepEqual(diffs[0].modified, []);
+    });
+
+    test('packets become field-level changes', async () => {
+        const { sub, diffs } = subscribe();
+        await sub.onDiff().processUpdate([a, b]);
+
+        const moved = { ...a, address: '10.0.0.9' };
+        await sub.processUpdate([moved, b], [{ before: a, after: moved }]);
+        await sub.processUpdate([moved], [{ before: b, after: undefined }]);
+
+        assert.deepEqual(diffs[1].changes, [{ key: '*1', item: moved, previous: a, fields: [{ field: 'address', before: '10.0.0.1', after: '10.0.0.9' }] }]);
+        assert.deepEqual(diffs[2].removed, [b]);
+    });
+
+    test('changes limited to ignored fields are not reported', async () => {
+        const { sub, diffs } = subscribe();
+        await sub.onDiff({ ignore: ['uptime'] }).processUpdate([a]);
+
+        const older = { ...a, uptime: '2s' };
+        await sub.processUpdate([older], [{ before: a, after: older }]);
+
+        assert.equal(diffs.length, 1);
+    });
+
+    test('custom keys report a key change as removed + added', async () => {
+        const { sub, diffs } = subscribe();
+        await sub.onDiff({ key: 'mac-address' }).processUpdate([a]);
+
+        const swapped = { ...a, 'mac-address': 'CC' };
+        await sub.processUpdate([swapped], [{ before: a, after: swapped }]);
+
+        assert.deepEqual(diffs[1].removed, [a]);
+        assert.deepEqual(diffs[1].added, [swapped]);
+        assert.deepEqual(diffs[1].modified, []);
+    });
+
+    test('throttled emissions keep every change since the last one', async () => {
+        const { sub, diffs } = subscribe();
+        sub.onDiff().throttle(30);
+        await sub.processUpdate([a]);
+
+        const first = { ...a, address: '10.0.0.5' };
+        const second = { ...first, address: '10.0.0.6' };
+        await sub.processUpdate([first, b], [{ before: a, after: first }, { before: undefined, after: b }]);
+        await sub.processUpdate([second, b], [{ before: first, after: second }]);
+        await new Promise(resolve => setTimeout(resolve, 60));
+
+        assert.equal(diffs.length, 2);
+        assert.deepEqual(diffs[1].added, [b]);
+        assert.deepEqual(diffs[1].changes[0].fields, [{ field: 'address', before: '10.0.0.1', after: '10.0.0.6' }]);
+    });
+
+    test('updates without deltas compare full snapshots', async () => {
+        const { sub, diffs } = subscribe();
+        await sub.onDiff().processUpdate([a, b]);
+
+        const changed = { ...b, address: '10.0.0.7' };
+        await sub.processUpdate([changed]);
+
+        assert.deepEqual(diffs[1].removed, [a]);
+        assert.deepEqual(diffs[1].modified, [changed]);
+    });
+});
@@ -1,4 +1,71 @@
 import { MikrotikClient } from './MikrotikClient';
+import { kebabToCamel } from '../utils/Helpers';
+import { StreamIterator, IteratorOptions } from '../core/StreamIterator';
+
+/**
+ * One field of an item that changed between two emissions.
+ */
+export interface SnapshotFieldChange {
+    field: string;
+    before: unknown;
+    after: unknown;
+}
+
+/**
+ * A modified item with the fields that changed.
+ */
+export interface SnapshotItemChange<T> {
+    /** Value of the diff key (`.id` by default) */
+    key: string;
+    /** The item as it is now */
+    item: T;
+    /** The item as it was at the previous emission */
+    previous: T;
+    fields: SnapshotFieldChange[];
+}
+
+/**
+ * An item before and after a packet was applied by LiveCollection
+ * (`before` is undefined for new items, `after` for deleted ones).
+ * @internal
+ */
+export interface SnapshotDelta<T> {
+    before?: T;
+    after?: T;
+}
+
+/**
+ * Lifecycle of a live snapshot:
+ * `loading` (initial print), `live` (complete, applying packets), `stale` (link or stream lost),
+ * `resyncing` (reloading after a reconnection or a gap).
+ */
+export type SnapshotStatus = 'loading' | 'live' | 'stale' | 'resyncing';
+
+/**
+ * The collection feeding a subscription (LiveCollection).
+ * @internal
+ */
+export interface SnapshotSource<T> {
+    readonly status: SnapshotStatus;
+    snapshot(): T[];
+    resync(): Promise<void>;
+}
+
+/**
+ * Options of `.onDiff()`.
+ */
+export interface SnapshotDiffOptions {
+    /**
+     * Field identifying an item across updates.
+     * Default: the collection key (`.id` unless set with `client.collection(path).key()`)
+     */
+    key?: string;
+    /**
+     * Volatile fields left out of the comparison (e.g. `uptime`, byte counters).
+     * An item whose only changes are in these fields is not reported as modified.
+     */
+    ignore?: string[];
+}
 
 /**
  * Defines the structure of a Differential Update event.
@@ -11,24 +78,49 @@ export interface SnapshotDiff<T> {
     modified: T[];
     /** Items that were present before but are gone now */
     removed: T[];
+    /** Field-level detail of `modified`, in the same order */
+    changes: SnapshotItemChange<T>[];
     /** The full current list (for reference/fallback) */
     current: T[];
 }
 
+/**
+ * Receives the emissions of a SnapshotSubscription (Observable interop).
+ * There is no `error` channel: a lost link or stream turns the subscription `stale`
+ * and it resyncs by itself (see `onStatus()`).
+ */
+export interface SnapshotObserver<T> {
+    next?: (value: T[] | SnapshotDiff<T>) => void;
+    complete?: () => void;
+}
+
+/**
+ * Returned by `SnapshotSubscription.subscribe()`.
+ */
+export interface SnapshotObservation {
+    unsubscribe(): void;
+    readonly closed: boolean;
+}
+
 /**
  * **Smart Subscription Controller**
  *
  * Controls the flow of data from the Router to your Application.
  * It acts as a middleware pipeline that adds intelligence to raw data streams:
  * 1.  **Throttling:** Protects your app from CPU spikes using "Leading + Trailing Edge" logic.
- * 2.  **Diffing:** Calculates atomic changes (Added/Removed) instead of dumping full arrays.
+ * 2.  **Diffing:** Calculates atomic changes (Added/Removed/Modified, field by field) instead of dumping full arrays.
+ *     Diffs are built from the packets LiveCollection applies, so a change costs O(changed rows), not O(table).
  * 3.  **Hydration (Join):** Merges data from other MikroTik tables in real-time.
+ * 4.  **Lifecycle:** `status`, `onReady()` and `onStatus()` report when the snapshot is complete, stale or resyncing.
+ * 5.  **Interop:** Observable-compatible (`subscribe()`, `Symbol.observable`) for RxJS pipelines, and `for await` via `iterate()`.
  */
 export class SnapshotSubscription<T extends Record<string, any>> {
     // ==========================================
     // CONFIGURATION STATE
     // ==========================================
     private isDiffMode = false;
+    private diffKey: string;
+    private ignoredFields = new Set<string>();
     private throttleMs = 0;
     private joinConfig: { from: string; localField: string; foreignField: string; as: string } | null = null;
 
@@ -43,6 +135,15 @@ export class SnapshotSubscription<T extends Record<string, any>> {
      */
     private previousSnapshot: T[] = [];
 
+    /**
+     * Items touched since the last emission, by diff key: the state at that emission (`before`)
+     * and the latest one (`after`). Filled incrementally from LiveCollection packets.
+     */
+    private pendingDeltas = new Map<string, SnapshotDelta<T>>();
+
+    /** Set when an update came without deltas: the next diff compares full snapshots */
+    private needsFullDiff = false;
+
     // ==========================================
     // THROTTLING BUFFER
     // ==========================================
@@ -55,15 +156,40 @@ export class SnapshotSubscription<T extends Record<string, any>> {
     private readonly callback: (data: T[] | SnapshotDiff<T>) => void;
     private readonly client: MikrotikClient;
     private readonly unsubscribeFn: () => void;
+    private readonly source?: SnapshotSource<T>;
 
+    // ==========================================
+    // LIFECYCLE LISTENERS
+    // ==========================================
+    private readyCallbacks: Array<(snapshot: T[]) => void> = [];
+    private statusCallbacks: Array<(status: SnapshotStatus) => void> = [];
+    private observers = new Set<SnapshotObserver<T>>();
+    private stopped = false;
+
+    /**
+     * @param diffKey Identity key of the collection, the default key of `.onDiff()`.
+     * @param source The collection feeding this subscription (status, snapshot, resync).
+     */
     constructor(
         client: MikrotikClient,
         callback: (data: any) => void,
-        unsubscribeFn: () => void
+        unsubscribeFn: () => void,
+        diffKey: string = '.id',
+        source?: SnapshotSource<T>
     ) {
         this.client = client;
         this.callback = callback;
         this.unsubscribeFn = unsubscribeFn;
+        this.diffKey = diffKey;
+        this.source = source;
+    }
+
+    /**
+     * Lifecycle of the underlying collection (`loading`, `live`, `stale`, `resyncing`).
+     * Callbacks only fire once the snapshot is complete: never with a partially loaded table.
+     */
+    public get status(): SnapshotStatus {
+        return this.source?.status ?? 'live';
     }
 
     // ==========================================
@@ -78,11 +204,13 @@ export class SnapshotSubscription<T extends Record<string, any>> {
      *
      * **Behavior Change:**
      * Instead of receiving `T[]`, your callback will receive a `SnapshotDiff<T>` object.
+     * `changes` lists, for every modified item, the fields that changed with their `before` and `after` values.
      *
      * **Why use this?**
      * - **Bandwidth:** You don't need to re-process 2,000 users if only 1 disconnected.
      * - **Frontend Performance:** Allows atomic DOM updates (append/remove) instead of full re-renders.
      *
+     * @param options Diff key (Default: '.id') and volatile fields to ignore.
      * @returns The current subscription instance for chaining.
      *
      * @example
@@ -98,9 +226,23 @@ export class SnapshotSubscription<T extends Record<string, any>> {
      * }
      * })
      * .onDiff(); // <--- Activates the mode
+     *
+     * @example
+     * // SCENARIO: Session Audit
+     * // Report profile changes of PPP sessions, not their traffic counters.
+     * client.collection('/ppp/active')
+     * .onSnapshot((diff) => {
+     * if ('changes' in diff) {
+     * diff.changes.forEach(change => change.fields.forEach(f => console.log(`${change.key} ${f.field}: ${f.before} -> ${f.after}`)));
+     * }
+     * })
+     * .onDiff({ key: 'name', ignore: ['uptime', 'bytes-in', 'bytes-out'] });
      */
-    public onDiff(): this {
+    public onDiff(options: SnapshotDiffOptions = {}): this {
         this.isDiffMode = true;
+        if (options.key) this.diffKey = options.key;
+        // Items may carry wire (`bytes-in`) or camelCase (`bytesIn`) keys: ignore both spellings
+        this.ignoredFields = new Set((options.ignore || []).flatMap(field => [field, SnapshotSubscription.normalizeField(field)]));
         return this;
     }
 
@@ -171,6 +313,47 @@ export class SnapshotSubscription<T extends Record<string, any>> {
         return this;
     }
 
+    /**
+     * **Lifecycle: Initial Load Complete**
+     *
+     * Runs once, with the complete snapshot, when the initial print has been applied
+     * (immediately if the collection is already live).
+     *
+     * @example
+     * client.collection('/ip/dhcp-server/lease')
+     * .onSnapshot(updateTable)
+     * .onReady(leases => console.log(`${leases.length} leases loaded`));
+     */
+    public onReady(callback: (snapshot: T[]) => void): this {
+        if (this.status === 'live') callback(this.source ? this.source.snapshot() : this.previousSnapshot);
+        else this.readyCallbacks.push(callback);
+        return this;
+    }
+
+    /**
+     * **Lifecycle: Status Changes**
+     *
+     * Called on every transition (e.g. `live` -> `stale` when the link drops,
+     * `resyncing` -> `live` once the table has been reloaded).
+     *
+     * @example
+     * sub.onStatus(status => dashboard.setBadge(status === 'live' ? 'green' : 'orange'));
+     */
+    public onStatus(callback: (status: SnapshotStatus) => void): this {
+        this.statusCallbacks.push(callback);
+        return this;
+    }
+
+    /**
+     * **Lifecycle: Force Resync**
+     *
+     * Reloads the whole table from the router. Subscribers receive the difference
+     * (in diff mode) or the full list. Runs automatically after reconnections and detected gaps.
+     */
+    public async resync(): Promise<void> {
+        await this.source?.resync();
+    }
+
     /**
      * **Lifecycle: Unsubscribe**
      *
@@ -190,10 +373,103 @@ export class SnapshotSubscription<T extends Record<string, any>> {
      * }, []);
      */
     public stop(): void {
+        if (this.stopped) return;
+        this.stopped = true;
         this.clearPending();
+        this.readyCallbacks = [];
+        this.statusCallbacks = [];
+
+        const observers = Array.from(this.observers);
+        this.observers.clear();
+        observers.forEach(observer => observer.complete?.());
+
         this.unsubscribeFn();
     }
 
+    // ==========================================
+    // INTEROP (Observable & Async Iterator)
+    // ==========================================
+
+    /**
+     * **Interop: Observable**
+     *
+     * Adds an observer that receives the same emissions as the `onSnapshot` callback (after throttle, join and diff).
+     * `complete` fires when the subscription stops. A subscription created without a callback
+     * stops itself when its last observer unsubscribes.
+     *
+     * @example
+     * // RxJS
+     * from(client.collection('/ppp/active').onSnapshot().onDiff())
+     * .pipe(filter(diff => diff.removed.length > 0))
+     * .subscribe(diff => alertDisconnects(diff.removed));
+     */
+    public subscribe(observerOrNext?: SnapshotObserver<T> | ((value: T[] | SnapshotDiff<T>) => void)): SnapshotObservation {
+        const observer: SnapshotObserver<T> = typeof observerOrNext === 'function'
+            ? { next: observerOrNext }
+            : { next: observerOrNext?.next, complete: observerOrNext?.complete };
+
+        if (this.stopped) {
+            observer.complete?.();
+            return { unsubscribe: () => undefined, closed: true };
+        }
+
+        this.observers.add(observer);
+        const observers = this.observers;
+        const owner = this;
+
+        return {
+            unsubscribe() {
+                if (!observers.delete(observer)) return;
+                if (owner.observerOnly && observers.size === 0) owner.stop();
+            },
+            get closed() {
+                return !observers.has(observer);
+            }
+        };
+    }
+
+    /**
+     * `Symbol.observable` / '@@observable' interop: the subscription is its own Observable.
+     */
+    public ['@@observable'](): this {
+        return this;
+    }
+
+    /**
+     * **Interop: Async Iterator**
+     *
+     * Consumes emissions with `for await`, through a bounded buffer (`bufferSize`, `overflow`).
+     * Leaving the loop detaches it; the loop ends when the subscription stops.
+     *
+     * @example
+     * for await (const diff of client.collection('/ppp/active').onSnapshot().onDiff().iterate()) {
+     * if ('added' in diff) await provision(diff.added);
+     * }
+     */
+    public iterate(options: IteratorOptions = {}): StreamIterator<T[] | SnapshotDiff<T>> {
+        return new StreamIterator<T[] | SnapshotDiff<T>>((push, _fail, end) => {
+            const observation = this.subscribe({ next: push, complete: end });
+            return { stop: async () => observation.unsubscribe() };
+        }, options);
+    }
+
+    public [Symbol.asyncIterator](): AsyncIterableIterator<T[] | SnapshotDiff<T>> {
+        return this.iterate();
+    }
+
+    /** Created without a callback: observers are the only consumers */
+    private get observerOnly(): boolean {
+        return this.callback === SnapshotSubscription.NO_CALLBACK;
+    }
+
+    /** Placeholder callback of subscriptions consumed through `subscribe()` / `iterate()` */
+    public static readonly NO_CALLBACK = (): void => undefined;
+
+    private deliver(data: T[] | SnapshotDiff<T>): void {
+        this.callback(data);
+        this.observers.forEach(observer => observer.next?.(data));
+    }
+
     // ==========================================
     // INTERNAL ORCHESTRATION
     // ==========================================
@@ -202,9 +478,15 @@ export class SnapshotSubscription<T extends Record<string, any>> {
      * **Internal Execution Orchestrator**
      * Called automatically by LiveCollection when raw data arrives.
      * Decides WHEN to execute based on throttling logic.
+     * @param newData The full current list.
+     * @param deltas The items the triggering packet changed. Without them, the next diff compares full snapshots.
      * @internal
      */
-    public async processUpdate(newData: T[]): Promise<void> {
+    public async processUpdate(newData: T[], deltas?: SnapshotDelta<T>[]): Promise<void> {
+        // Deltas accumulate even while throttled, so no change is lost between emissions
+        if (deltas) deltas.forEach(delta => this.recordDelta(delta));
+        else this.needsFullDiff = true;
+
         const now = Date.now();
         const timeSinceLast = now - this.lastExecutionTime;
 
@@ -236,6 +518,21 @@ export class SnapshotSubscription<T extends Record<string, any>> {
         }
     }
 
+    /**
+     * Called by LiveCollection on every status transition.
+     * @internal
+     */
+    public notifyStatus(status: SnapshotStatus): void {
+        this.statusCallbacks.forEach(callback => callback(status));
+
+        if (status === 'live' && this.readyCallbacks.length > 0) {
+            const callbacks = this.readyCallbacks;
+            this.readyCallbacks = [];
+            const snapshot = this.source ? this.source.snapshot() : this.previousSnapshot;
+            callbacks.forEach(callback => callback(snapshot));
+        }
+    }
+
     private async flushPending() {
         this.throttleTimer = null;
         if (this.pendingUpdate) {
@@ -264,6 +561,14 @@ export class SnapshotSubscription<T extends Record<string, any>> {
     private async executeCallbackLogic(currentData: T[]): Promise<void> {
         let processedData = currentData;
 
+        // Take the pending deltas before the join awaits: packets arriving meanwhile belong to the next run
+        const deltas = !this.isDiffMode ? []
+            : this.needsFullDiff ? this.fullDeltas(this.previousSnapshot, currentData)
+            : Array.from(this.pendingDeltas.values());
+        this.previousSnapshot = currentData;
+        this.pendingDeltas.clear();
+        this.needsFullDiff = false;
+
         // JOIN LOGIC (Data Hydration)
         if (this.joinConfig) {
             try {
@@ -286,79 +591,137 @@ export class SnapshotSubscription<T extends Record<string, any>> {
                     };
                 });
             } catch (error) {
-                console.warn(`RosInterface: Join failed for ${this.joinConfig.from}. Returning un-joined data.`, error);
+                this.client.logger.warn(`SnapshotSubscription: Join failed for ${this.joinConfig.from}. Returning un-joined data.`, { path: this.joinConfig.from, error });
                 // On error, we proceed with un-joined data so the stream doesn't crash.
             }
         }
 
         // DIFF LOGIC
         if (this.isDiffMode) {
-            // Compare LAST known state vs NEW state
-            const diff = this.calculateDiff(this.previousSnapshot, processedData);
-
-            // CRITICAL: Update state for the next run
-            this.previousSnapshot = processedData;
+            // Compare LAST emitted state vs NEW state: incrementally, or in full after a resync
+            const diff = this.calculateDiff(deltas, processedData, processedData !== currentData);
 
             // Optimization: Only fire callback if there are actual changes
             if (diff.added.length > 0 || diff.modified.length > 0 || diff.removed.length > 0) {
-                this.callback(diff);
+                this.deliver(diff);
             }
         }
         // STANDARD LOGIC
         else {
-            // Even in standard mode, we must update the state in case
+            // Even in standard mode, the state above was updated in case
             // the user switches to .onDiff() later dynamically.
-            this.previousSnapshot = processedData;
-            this.callback(processedData);
+            this.deliver(processedData);
         }
     }
 
     /**
-     * Calculates the difference between two arrays using '.id' as the Strict Key.
-     * This prevents false "Modified" events when items are deleted/created.
+     * Merges a packet's delta into the pending ones: the first `before` since the last emission is kept,
+     * the `after` is the latest. An item whose key changed counts as removed + added.
      */
-    private calculateDiff(oldData: T[], newData: T[]): SnapshotDiff<T> {
-        const diff: SnapshotDiff<T> = { added: [], modified: [], removed: [], current: newData };
-
-        // Helper to safely get ID
-        const getId = (item: any) => {
-            if (item['.id']) return item['.id'];
-            if (item['name']) return `name:${item['name']}`;
-            return JSON.stringify(item);
-        };
+    private recordDelta(delta: SnapshotDelta<T>): void {
+        const beforeKey = delta.before ? this.keyOf(delta.before) : undefined;
+        const afterKey = delta.after ? this.keyOf(delta.after) : undefined;
 
-        const oldMap = new Map();
-        oldData.forEach(item => oldMap.set(getId(item), item));
+        if (beforeKey !== undefined && beforeKey !== afterKey) {
+            this.mergeDelta(beforeKey, { before: delta.before, after: undefined });
+        }
+        if (afterKey !== undefined) {
+            this.mergeDelta(afterKey, { before: beforeKey === afterKey ? delta.before : undefined, after: delta.after });
+        }
+    }
 
-        const newMap = new Map();
-        newData.forEach(item => newMap.set(getId(item), item));
+    private mergeDelta(key: string, delta: SnapshotDelta<T>): void {
+        const pending = this.pendingDeltas.get(key);
+        this.pendingDeltas.set(key, pending ? { before: pending.before, after: delta.after } : delta);
+    }
 
-        // Detect Added & Modified
-        for (const newItem of newData) {
-            const id = getId(newItem);
+    /**
+     * Deltas between two full snapshots (first emission, late subscribers and resyncs).
+     */
+    private fullDeltas(oldData: T[], newData: T[]): SnapshotDelta<T>[] {
+        const oldMap = new Map<string, T>();
+        oldData.forEach(item => oldMap.set(this.keyOf(item), item));
+
+        const deltas: SnapshotDelta<T>[] = [];
+        for (const item of newData) {
+            const key = this.keyOf(item);
+            deltas.push({ before: oldMap.get(key), after: item });
+            oldMap.delete(key);
+        }
+        oldMap.forEach(item => deltas.push({ before: item, after: undefined }));
+        return deltas;
+    }
 
-            if (!oldMap.has(id)) {
-                diff.added.push(newItem);
-            } else {
-                const oldItem = oldMap.get(id);
-                if (!this.areEqual(oldItem, newItem)) {
-                    diff.modified.push(newItem);
-                }
+    /**
+     * Classifies deltas into added / removed / modified (with field-level changes).
+     * Items that changed only in ignored fields, or not at all, are left out.
+     */
+    private calculateDiff(deltas: SnapshotDelta<T>[], current: T[], joined: boolean): SnapshotDiff<T> {
+        const diff: SnapshotDiff<T> = { added: [], modified: [], removed: [], changes: [], current };
+
+        // Report the joined version of the items when a join is configured
+        const joinedItems = joined ? new Map(current.map(item => [this.keyOf(item), item])) : null;
+        const present = (item: T) => joinedItems?.get(this.keyOf(item)) || item;
+
+        for (const { before, after } of deltas) {
+            if (!before && after) {
+                diff.added.push(present(after));
+            } else if (before && !after) {
+                diff.removed.push(before);
+            } else if (before && after) {
+                const fields = this.changedFields(before, after);
+                if (fields.length === 0) continue;
+                const item = present(after);
+                diff.modified.push(item);
+                diff.changes.push({ key: this.keyOf(after), item, previous: before, fields });
             }
         }
 
-        // Detect Removed
-        for (const oldItem of oldData) {
-            const id = getId(oldItem);
-            if (!newMap.has(id)) {
-                diff.removed.push(oldItem);
+        return diff;
+    }
+
+    private changedFields(before: T, after: T): SnapshotFieldChange[] {
+        const fields: SnapshotFieldChange[] = [];
+        for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+            if (this.ignoredFields.has(field)) continue;
+            if (!SnapshotSubscription.sameValue(before[field], after[field])) {
+                fields.push({ field, before: before[field], after: after[field] });
             }
         }
+        return fields;
+    }
 
-        return diff;
+    private keyOf(item: T): string {
+        const value = item[this.diffKey] ?? item[SnapshotSubscription.normalizeField(this.diffKey)] ?? item['.id'] ?? item['id'];
+        return value !== undefined ? String(value) : JSON.stringify(item);
+    }
+
+    /** Primitives by value; decoded values (Dates, addresses, tx/rx pairs) by their JSON form */
+    private static sameValue(a: unknown, b: unknown): boolean {
+        if (a === b) return true;
+        if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+        return JSON.stringify(a) === JSON.stringify(b);
     }
 
-    private areEqual(obj1: any, obj2: any): boolean {
-        return JSON.stringify(obj1) === JSON.stringify(obj2);
+    /** `.id` -> `id`, `bytes-in` -> `bytesIn` (key format of camelCase collections) */
+    private static normalizeField(field: string): string {
+        return kebabToCamel(field.replace(/^\./, ''));
     }
-}
\ No newline at end of file
+}
+
+declare global {
+    interface SymbolConstructor {
+        /** Defined by Observable polyfills (e.g. `symbol-observable`), absent otherwise */
+        readonly observable: symbol;
+    }
+}
+
+// Interop: RxJS `from()` and other Observable consumers look the interface up under `Symbol.observable`
+const observableSymbol: symbol | undefined = Symbol.observable;
+if (observableSymbol) {
+    Object.defineProperty(SnapshotSubscription.prototype, observableSymbol, {
+        value: SnapshotSubscription.prototype['@@observable'],
+        writable: true,
+        configurable: true
+    });
+}
@@ -0,0 +1,289 @@
+import { MikrotikClient, IWriteOptions } from './MikrotikClient';
+import { RosTimeoutError } from '../core/RosError';
+import { Logger } from '../core/Logger';
+
+/**
+ * What a rollout does on each node: a raw command, or a function for multi-step changes.
+ * Functions receive the node's client and, for rollbacks, the result of the change.
+ */
+export type RolloutStep =
+    | { command: string; params?: Record<string, any>; options?: IWriteOptions }
+    | ((client: MikrotikClient, nodeId: string, result?: any) => Promise<any>);
+
+export interface RolloutOptions {
+    /**
+     * Nodes to change: IDs or a target expression (`'group:core && tag:v7'`).
+     * Default: every node of the swarm
+     */
+    target?: string[] | string;
+
+    /**
+     * First batch, changed and verified alone. Any failure in it halts the rollout.
+     * A number of nodes, or a target expression picking them. 0 disables the canary.
+     * Default: 1
+     */
+    canary?: number | string;
+
+    /**
+     * Nodes changed in parallel in each batch after the canary.
+     * Default: 1
+     */
+    concurrency?: number;
+
+    /**
+     * Health gate run on each changed node before the next batch starts.
+     * Return false (or throw) to mark the node as unhealthy.
+     * @example async (client) => (await client.write('/routing/bgp/session/print')).every(s => s.established)
+     */
+    verify?: (client: MikrotikClient, nodeId: string) => Promise<boolean | void>;
+
+    /**
+     * Wait after a batch is applied before verifying it (sessions re-establishing...), in ms.
+     * Default: 0
+     */
+    settleMs?: number;
+
+    /**
+     * Halt once the failed + unhealthy share of the nodes processed so far exceeds this percentage.
+     * Default: 0 (halt on the first failure)
+     */
+    maxFailurePercent?: number;
+
+    /**
+     * Undoes the change on every node already changed (applied or unhealthy) when the rollout halts.
+     * Nodes whose change timed out may have applied it, so they are rolled back too.
+     * Nodes are rolled back in reverse order.
+     */
+    rollback?: RolloutStep;
+
+    /**
+     * Halts the rollout before the next batch.
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * - 'applied': Changed and healthy.
+ * - 'failed': The change itself failed.
+ * - 'unhealthy': Changed, but `verify` failed.
+ * - 'skipped': Not reached before the rollout halted.
+ * - 'rolled-back': Changed, then undone by `rollback`.
+ * - 'rollback-failed': Changed, and `rollback` failed (see `rollbackError`).
+ */
+export type RolloutNodeStatus = 'applied' | 'failed' | 'unhealthy' | 'skipped' | 'rolled-back' | 'rollback-failed';
+
+export interface RolloutNodeResult {
+    nodeId: string;
+    /** 0 for the canary batch */
+    batch: number;
+    status: RolloutNodeStatus;
+    /** Router response of the change */
+    data?: any;
+    error?: string;
+    /** True if the change did not answer within its `timeoutMs` deadline */
+    timedOut?: boolean;
+    rollbackError?: string;
+}
+
+export interface RolloutReport {
+    /** True when every targeted node was changed and healthy */
+    ok: boolean;
+    halted: boolean;
+    haltReason?: string;
+    /** Failed + unhealthy share of the processed nodes */
+    failurePercent: number;
+    /** True when the rollout halted and every changed node was undone */
+    rolledBack: boolean;
+    nodes: RolloutNodeResult[];
+}
+
+/**
+ * Progress of `swarm.rollout()`, emitted as the swarm's 'rollout' event.
+ */
+export type RolloutEvent =
+    | { type: 'batch'; batch: number; canary: boolean; nodeIds: string[] }
+    | { type: 'node'; result: RolloutNodeResult }
+    | { type: 'halt'; reason: string }
+    | { type: 'rollback'; result: RolloutNodeResult }
+    | { type: 'done'; report: RolloutReport };
+
+/**
+ * SwarmRollout
+ * The engine behind `swarm.rollout()`.
+ * * Changes the canary batch first, then the other nodes `concurrency` at a time.
+ * * Each batch is verified before the next one starts; the failure budget decides whether to go on.
+ * * On halt, the remaining nodes are skipped and the changed ones rolled back (if a `rollback` is given).
+ */
+export class SwarmRollout {
+    private readonly results = new Map<string, RolloutNodeResult>();
+    private haltReason?: string;
+
+    /**
+     * @param clients Targeted nodes, in rollout order.
+     * @param canary IDs of the canary batch (a subset of `clients`).
+     */
+    constructor(
+        private readonly clients: Map<string, MikrotikClient>,
+        private readonly canary: string[],
+        private readonly step: RolloutStep,
+        private readonly options: RolloutOptions,
+        private readonly emit: (event: RolloutEvent) => void,
+        private readonly logger: Logger
+    ) {}
+
+    public async run(): Promise<RolloutReport> {
+        const batches = this.plan();
+        // Batch 0 is the canary: without one, numbering starts at 1
+        const numberOf = (index: number) => this.canary.length > 0 ? index : index + 1;
+        batches.forEach((nodeIds, index) => nodeIds.forEach(nodeId => {
+            this.results.set(nodeId, { nodeId, batch: numberOf(index), status: 'skipped' });
+        }));
+
+        for (const [index, nodeIds] of batches.entries()) {
+            if (this.options.signal?.aborted) {
+                this.halt('Rollout aborted.');
+                break;
+            }
+
+            const isCanary = index === 0 && this.canary.length > 0;
+            const batch = numberOf(index);
+            this.emit({ type: 'batch', batch, canary: isCanary, nodeIds });
+            this.logger.info(`MikrotikSwarm: Rollout batch ${batch}${isCanary ? ' (canary)' : ''} on ${nodeIds.length} nodes.`);
+
+            await this.runBatch(batch, nodeIds);
+
+            const failed = nodeIds.filter(nodeId => this.isFailure(this.results.get(nodeId)!)).length;
+            if (isCanary && failed > 0) {
+                this.halt(`Canary failed on ${failed} of ${nodeIds.length} nodes.`);
+                break;
+            }
+            if (this.failurePercent() > (this.options.maxFailurePercent ?? 0)) {
+                this.halt(`Failure rate ${this.failurePercent().toFixed(1)}% exceeds ${this.options.maxFailurePercent ?? 0}%.`);
+                break;
+            }
+        }
+
+        const failurePercent = this.failurePercent();
+        if (this.haltReason && this.options.rollback) {
+            await this.rollBack(this.options.rollback);
+        }
+
+        const nodes = Array.from(this.results.values());
+        const changed = nodes.filter(node => SwarmRollout.mayHaveChanged(node) || ['rolled-back', 'rollback-failed'].includes(node.status));
+        const report: RolloutReport = {
+            ok: !this.haltReason && nodes.every(node => node.status === 'applied'),
+            halted: !!this.haltReason,
+            haltReason: this.haltReason,
+            failurePercent,
+            rolledBack: !!this.haltReason && changed.every(node => node.status === 'rolled-back'),
+            nodes
+        };
+        this.emit({ type: 'done', report });
+        return report;
+    }
+
+    /**
+     * Canary first, then the other nodes in groups of `concurrency`.
+     */
+    private plan(): string[][] {
+        const size = Math.max(1, this.options.concurrency ?? 1);
+        const rest = Array.from(this.clients.keys()).filter(nodeId => !this.canary.includes(nodeId));
+        const batches: string[][] = this.canary.length > 0 ? [this.canary] : [];
+
+        for (let i = 0; i < rest.length; i += size) {
+            batches.push(rest.slice(i, i + size));
+        }
+        return batches;
+    }
+
+    private async runBatch(batch: number, nodeIds: string[]): Promise<void> {
+        // APPLY: every node of the batch in parallel
+        await Promise.all(nodeIds.map(async nodeId => {
+            const result: RolloutNodeResult = { nodeId, batch, status: 'applied' };
+            try {
+                result.data = await this.execute(this.step, nodeId);
+            } catch (err: any) {
+                result.status = 'failed';
+                result.error = err?.message || String(err);
+                result.timedOut = err instanceof RosTimeoutError;
+            }
+            this.results.set(nodeId, result);
+        }));
+
+        // HEALTH GATE: verify the changed nodes once they settled
+        const verify = this.options.verify;
+        const applied = nodeIds.filter(nodeId => this.results.get(nodeId)!.status === 'applied');
+        if (verify && applied.length > 0) {
+            if (this.options.settleMs) await new Promise(resolve => setTimeout(resolve, this.options.settleMs));
+
+            await Promise.all(applied.map(async nodeId => {
+                const result = this.results.get(nodeId)!;
+                try {
+                    if (await verify(this.clients.get(nodeId)!, nodeId) === false) {
+                        result.status = 'unhealthy';
+                        result.error = 'Verification failed.';
+                    }
+                } catch (err: any) {
+                    result.status = 'unhealthy';
+                    result.error = `Verification failed: ${err?.message || err}`;
+                }
+            }));
+        }
+
+        nodeIds.forEach(nodeId => this.emit({ type: 'node', result: this.results.get(nodeId)! }));
+    }
+
+    /**
+     * Undoes the changed nodes, latest first, `concurrency` at a time.
+     */
+    private async rollBack(rollback: RolloutStep): Promise<void> {
+        const changed = Array.from(this.results.values())
+            .filter(result => SwarmRollout.mayHaveChanged(result))
+            .reverse();
+        const size = Math.max(1, this.options.concurrency ?? 1);
+
+        for (let i = 0; i < changed.length; i += size) {
+            await Promise.all(changed.slice(i, i + size).map(async result => {
+                try {
+                    await this.execute(rollback, result.nodeId, result.data);
+                    result.status = 'rolled-back';
+                } catch (err: any) {
+                    result.status = 'rollback-failed';
+                    result.rollbackError = err?.message || String(err);
+                    this.logger.error('MikrotikSwarm: Rollback failed.', { node: result.nodeId, error: err });
+                }
+                this.emit({ type: 'rollback', result });
+            }));
+        }
+    }
+
+    /**
+     * Applied and unhealthy nodes were changed. A timed out change may have reached the router anyway.
+     */
+    private static mayHaveChanged(result: RolloutNodeResult): boolean {
+        return result.status === 'applied' || result.status === 'unhealthy' || (result.status === 'failed' && !!result.timedOut);
+    }
+
+    private execute(step: RolloutStep, nodeId: string, previous?: any): Promise<any> {
+        const client = this.clients.get(nodeId)!;
+        return typeof step === 'function'
+            ? step(client, nodeId, previous)
+            : client.write(step.command, step.params, step.options);
+    }
+
+    private halt(reason: string): void {
+        this.haltReason = reason;
+        this.logger.warn(`MikrotikSwarm: Rollout halted. ${reason}`);
+        this.emit({ type: 'halt', reason });
+    }
+
+    private isFailure(result: RolloutNodeResult): boolean {
+        return result.status === 'failed' || result.status === 'unhealthy';
+    }
+
+    private failurePercent(): number {
+        const processed = Array.from(this.results.values()).filter(result => result.status !== 'skipped');
+        if (processed.length === 0) return 0;
+        return processed.filter(result => this.isFailure(result)).length / processed.length * 100;
+    }
+}
@@ -1,3 +1,5 @@
+import { Logger, ConsoleLogger } from './Logger';
+
 /**
  * CircuitBreakerState Enum
  * Defines the possible states of the protection mechanism.
@@ -33,7 +35,7 @@ export class CircuitBreaker {
     private readonly failureThreshold: number;
     private readonly resetTimeout: number;
 
-    constructor(options: CircuitBreakerOptions = {}) {
+    constructor(options: CircuitBreakerOptions = {}, private readonly logger: Logger = new ConsoleLogger()) {
         this.failureThreshold = options.failureThreshold || 5;
         this.resetTimeout = options.resetTimeout || 10000;
     }
@@ -90,13 +92,26 @@ export class CircuitBreaker {
     private transitionTo(newState: CircuitBreakerState): void {
         this.state = newState;
         const stateName = CircuitBreakerState[newState];
-        console.warn(`[CircuitBreaker] State changed to: ${stateName}`);
+        const context = { state: stateName, failures: this.failureCount };
+        if (newState === CircuitBreakerState.OPEN) this.logger.warn(`CircuitBreaker: State changed to ${stateName}.`, context);
+        else this.logger.info(`CircuitBreaker: State changed to ${stateName}.`, context);
     }
 
     private isResetTimeoutExpired(): boolean {
         return (Date.now() - this.lastFailureTime) > this.resetTimeout;
     }
 
+    /**
+     * Forces the breaker back to CLOSED and clears the failure history.
+     * Used when an external signal (e.g. a successful reconnection) proves the router is healthy.
+     */
+    public reset(): void {
+        this.failureCount = 0;
+        if (this.state !== CircuitBreakerState.CLOSED) {
+            this.transitionTo(CircuitBreakerState.CLOSED);
+        }
+    }
+
     public getState(): CircuitBreakerState {
         return this.state;
     }
@@ -0,0 +1,87 @@
+import { test, describe, mock, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ConsoleLogger, ContextLogger, Logger, LogContext, LogLevel } from './Logger';
+import { REDACTED } from './Redactor';
+import { MockRouterServer } from '../testing/MockRouterServer';
+
+/** Collects every line instead of printing it */
+const capture = () => {
+    const lines: { level: LogLevel; message: string; context?: LogContext }[] = [];
+    const sink = (level: LogLevel) => (message: string, context?: LogContext) => { lines.push({ level, message, context }); };
+    const logger: Logger = { debug: sink('debug'), info: sink('info'), warn: sink('warn'), error: sink('error') };
+    return { logger, lines };
+};
+
+describe('ConsoleLogger', () => {
+    afterEach(() => mock.restoreAll());
+
+    test("prints from 'warn' upwards by default", () => {
+        const warn = mock.method(console, 'warn', () => undefined);
+        const info = mock.method(console, 'info', () => undefined);
+        const logger = new ConsoleLogger();
+
+        logger.info('connected');
+        logger.warn('retrying', { host: '10.0.0.1' });
+
+        assert.equal(info.mock.callCount(), 0);
+        assert.deepEqual(warn.mock.calls[0].arguments, ['[RosInterface] retrying {"host":"10.0.0.1"}']);
+    });
+
+    test('json lines carry the level, the fields and the error message', () => {
+        const error = mock.method(console, 'error', () => undefined);
+        new ConsoleLogger({ level: 'debug', json: true }).error('Stream error', { tag: 't1', error: new Error('boom') });
+
+        const line = JSON.parse(error.mock.calls[0].arguments[0]);
+        assert.equal(line.level, 'error');
+        assert.equal(line.message, 'Stream error');
+        assert.equal(line.tag, 't1');
+        assert.equal(line.error, 'boom');
+    });
+
+    test("'silent' prints nothing", () => {
+        const error = mock.method(console, 'error', () => undefined);
+        new ConsoleLogger({ level: 'silent' }).error('ignored');
+        assert.equal(error.mock.callCount(), 0);
+    });
+});
+
+describe('ContextLogger', () => {
+    test('binds fields and masks secrets before they reach the sink', () => {
+        const { logger, lines } = capture();
+        const log = new ContextLogger(logger, { host: '10.0.0.1' }).child({ path: '/ppp/secret' });
+
+        log.info('Provisioned password=hunter2', { params: { name: 'ana', password: 'hunter2' } });
+
+        assert.deepEqual(lines, [{
+            level: 'info',
+            message: `Provisioned password=${REDACTED}`,
+            context: { host: '10.0.0.1', path: '/ppp/secret', params: { name: 'ana', password: REDACTED } }
+        }]);
+    });
+
+    test("errors are redacted too, on a copy of the caller's error", () => {
+        const { logger, lines } = capture();
+        const error = new Error('failure: password=hunter2');
+        new ContextLogger(logger).error('Command failed', { error });
+
+        assert.doesNotMatch(String((lines[0].context?.error as Error).message), /hunter2/);
+        assert.equal(error.message, 'failure: password=hunter2');
+    });
+});
+
+describe('Client logging', () => {
+    test("lines are bound to the client's host", async () => {
+        const router = new MockRouterServer();
+        const address = await router.start();
+        const { logger, lines } = capture();
+        const client = router.client({ logger });
+
+        try {
+            await client.connect();
+            assert.ok(lines.length > 0);
+            assert.ok(lines.every(line => line.context?.host === address.host));
+        } finally {
+            await router.stop();
+        }
+    });
+});
@@ -0,0 +1,160 @@
+import { Redactor } from './Redactor';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured fields attached to a log line.
+ */
+export interface LogContext {
+    /** Router the message refers to */
+    host?: string;
+    /** Menu or command path (e.g. `/ip/address/add`) */
+    path?: string;
+    /** Socket API tag */
+    tag?: string;
+    /** Elapsed time in ms */
+    duration?: number;
+    /** The error behind a 'warn' / 'error' line */
+    error?: unknown;
+    [key: string]: unknown;
+}
+
+/**
+ * Sink for everything the library reports (`logger` option of the client, pool and swarm).
+ * Adapt it to pino, winston or any JSON logger with four one-line methods.
+ *
+ * @example
+ * const logger: Logger = {
+ * debug: (msg, ctx) => pino.debug(ctx, msg),
+ * info: (msg, ctx) => pino.info(ctx, msg),
+ * warn: (msg, ctx) => pino.warn(ctx, msg),
+ * error: (msg, ctx) => pino.error(ctx, msg)
+ * };
+ */
+export interface Logger {
+    debug(message: string, context?: LogContext): void;
+    info(message: string, context?: LogContext): void;
+    warn(message: string, context?: LogContext): void;
+    error(message: string, context?: LogContext): void;
+}
+
+/**
+ * Discards everything.
+ * @example new MikrotikClient({ ...config, logger: noopLogger });
+ */
+export const noopLogger: Logger = {
+    debug: () => undefined,
+    info: () => undefined,
+    warn: () => undefined,
+    error: () => undefined
+};
+
+export interface ConsoleLoggerOptions {
+    /** Lowest level printed (Default: 'warn') */
+    level?: LogLevel | 'silent';
+    /** One JSON object per line instead of human-readable text (Default: false) */
+    json?: boolean;
+}
+
+/**
+ * ConsoleLogger
+ * * Default logger: prints to the console from 'warn' upwards.
+ * * Set `level: 'debug'` to see connection, queue and schema details,
+ * or `json: true` to keep log collectors happy.
+ */
+export class ConsoleLogger implements Logger {
+    private static readonly SEVERITY: Record<LogLevel | 'silent', number> = {
+        debug: 10, info: 20, warn: 30, error: 40, silent: 100
+    };
+
+    private readonly level: LogLevel | 'silent';
+    private readonly json: boolean;
+
+    constructor(options: ConsoleLoggerOptions = {}) {
+        this.level = options.level || 'warn';
+        this.json = options.json ?? false;
+    }
+
+    public debug(message: string, context?: LogContext): void {
+        this.print('debug', message, context);
+    }
+
+    public info(message: string, context?: LogContext): void {
+        this.print('info', message, context);
+    }
+
+    public warn(message: string, context?: LogContext): void {
+        this.print('warn', message, context);
+    }
+
+    public error(message: string, context?: LogContext): void {
+        this.print('error', message, context);
+    }
+
+    private print(level: LogLevel, message: string, context: LogContext = {}): void {
+        if (ConsoleLogger.SEVERITY[level] < ConsoleLogger.SEVERITY[this.level]) return;
+
+        const { error, ...fields } = context;
+
+        if (this.json) {
+            console[level](JSON.stringify({
+                time: new Date().toISOString(),
+                level,
+                message,
+                ...fields,
+                ...(error !== undefined ? { error: error instanceof Error ? error.message : String(error) } : {})
+            }));
+            return;
+        }
+
+        const details = Object.keys(fields).length > 0 ? ` ${JSON.stringify(fields)}` : '';
+        const line = `[RosInterface] ${message}${details}`;
+        if (error !== undefined) console[level](line, error);
+        else console[level](line);
+    }
+}
+
+/**
+ * ContextLogger
+ * * Wraps the user's logger with fields bound to every line (e.g. the client's `host`).
+ * * Runs every line through the `Redactor` before it reaches the sink: sensitive fields of the
+ * context (including those nested in `params`), `field=value` pairs in the message and errors.
+ */
+export class ContextLogger implements Logger {
+    constructor(
+        private readonly target: Logger,
+        private readonly bindings: LogContext = {},
+        private readonly redactor: Redactor = Redactor.default
+    ) {}
+
+    /**
+     * Returns a logger that adds more bound fields.
+     * @example const log = client.logger.child({ path: '/ip/address' });
+     */
+    public child(bindings: LogContext): ContextLogger {
+        return new ContextLogger(this.target, { ...this.bindings, ...bindings }, this.redactor);
+    }
+
+    public debug(message: string, context?: LogContext): void {
+        this.target.debug(this.redactor.redactText(message), this.merge(context));
+    }
+
+    public info(message: string, context?: LogContext): void {
+        this.target.info(this.redactor.redactText(message), this.merge(context));
+    }
+
+    public warn(message: string, context?: LogContext): void {
+        this.target.warn(this.redactor.redactText(message), this.merge(context));
+    }
+
+    public error(message: string, context?: LogContext): void {
+        this.target.error(this.redactor.redactText(message), this.merge(context));
+    }
+
+    private merge(context?: LogContext): LogContext {
+        const { error, ...fields } = { ...this.bindings, ...context };
+        const result = this.redactor.redactParams(fields) as LogContext;
+        if (error !== undefined) result.error = this.redactor.redactedCopy(error);
+        return result;
+    }
+}
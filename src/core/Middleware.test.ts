@@ -0,0 +1,111 @@
+import { test, describe, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MiddlewarePipeline, CommandContext, Middleware } from './Middleware';
+import { MikrotikClient } from '../client/MikrotikClient';
+import { MockRouterServer } from '../testing/MockRouterServer';
+
+describe('MiddlewarePipeline', () => {
+    const context = () => ({ command: '/ip/address/print', params: {}, options: {}, startTime: Date.now(), state: {} } as CommandContext);
+
+    const tracer = (name: string, trace: string[]): Middleware => async (_ctx, next) => {
+        trace.push(`>${name}`);
+        const rows = await next();
+        trace.push(`<${name}`);
+        return rows;
+    };
+
+    test('user middlewares run before the built-ins, in registration order', async () => {
+        const trace: string[] = [];
+        const pipeline = new MiddlewarePipeline()
+            .useBuiltIn('queryCache', tracer('queryCache', trace))
+            .use(tracer('audit', trace), { name: 'audit' })
+            .use(tracer('metrics', trace), { name: 'metrics' })
+            .use(tracer('first', trace), { name: 'first', before: 'audit' });
+
+        assert.deepEqual(pipeline.names(), ['first', 'audit', 'metrics', 'queryCache']);
+
+        await pipeline.execute(context(), async () => { trace.push('transport'); return []; });
+        assert.deepEqual(trace, ['>first', '>audit', '>metrics', '>queryCache', 'transport', '<queryCache', '<metrics', '<audit', '<first']);
+    });
+
+    test('short-circuits skip the transport', async () => {
+        let sent = false;
+        const pipeline = new MiddlewarePipeline().use(async () => [{ cached: true }]);
+
+        const rows = await pipeline.execute(context(), async () => { sent = true; return []; });
+        assert.deepEqual(rows, [{ cached: true }]);
+        assert.equal(sent, false);
+    });
+
+    test('remove, replace and duplicate names', async () => {
+        const pipeline = new MiddlewarePipeline().use(async (_ctx, next) => next(), { name: 'audit' });
+
+        assert.throws(() => pipeline.use(async (_ctx, next) => next(), { name: 'audit' }), /already exists/);
+        assert.throws(() => pipeline.replace('missing', async (_ctx, next) => next()), /No middleware named 'missing'/);
+        assert.deepEqual(pipeline.remove('audit').names(), []);
+    });
+
+    test('next() may only be called once', async () => {
+        const pipeline = new MiddlewarePipeline().use(async (_ctx, next) => { await next(); return next(); });
+        await assert.rejects(pipeline.execute(context(), async () => []), /next\(\) called multiple times/);
+    });
+});
+
+describe('Middlewares around write()', () => {
+    const mock = new MockRouterServer();
+
+    const connect = async () => {
+        const client = mock.client();
+        await client.connect();
+        return client;
+    };
+
+    const sent = (command: string, run: () => Promise<unknown>) => {
+        const seen: string[] = [];
+        const record = (record: { command: string }) => { if (record.command === command) seen.push(command); };
+        mock.on('command', record);
+        return run().finally(() => mock.off('command', record)).then(() => seen.length);
+    };
+
+    before(async () => {
+        await mock.start();
+        mock.store.seed('/ip/address', [{ address: '10.0.0.1/24', interface: 'ether1' }]);
+    });
+
+    after(async () => {
+        await mock.stop();
+    });
+
+    test('rewrites reach the router, vetoes never do', async () => {
+        const client = await connect();
+        client.use(async (ctx, next) => {
+            if (ctx.command.endsWith('/remove')) throw new Error('Maintenance window: writes are frozen');
+            ctx.params = { ...ctx.params, comment: 'managed' };
+            return next();
+        });
+
+        const params = { address: '10.0.0.2/24', interface: 'ether1' };
+        await client.write('/ip/address/add', params);
+        assert.equal(mock.store.list('/ip/address').find(item => item.address === '10.0.0.2/24')?.comment, 'managed');
+        assert.equal('comment' in params, false);
+
+        const count = await sent('/ip/address/remove', () =>
+            assert.rejects(client.write('/ip/address/remove', { '.id': '*1' }), /writes are frozen/)
+        );
+        assert.equal(count, 0);
+    });
+
+    test("remove('queryCache') sends every read", async () => {
+        const cached = await connect();
+        const uncached = await connect();
+        uncached.middleware.remove('queryCache');
+
+        const read = (client: MikrotikClient) => async () => {
+            await client.command('/ip/address').print();
+            await client.command('/ip/address').print();
+        };
+
+        assert.equal(await sent('/ip/address/print', read(cached)), 1);
+        assert.equal(await sent('/ip/address/print', read(uncached)), 2);
+    });
+});
@@ -0,0 +1,245 @@
+import { IWriteOptions } from '../client/MikrotikClient';
+import { RateLimiter } from './RateLimiter';
+import { CircuitBreaker } from './CircuitBreaker';
+import { QueryCache } from './QueryCache';
+import { RosAbortError } from './RosError';
+import { DecodingProfile } from './ValueCodec';
+
+/**
+ * Everything a middleware knows about the command in flight.
+ * `command`, `params` and `options` may be rewritten before calling `next()`.
+ */
+export interface CommandContext {
+    /** Full command path (e.g. `/ip/address/add`) */
+    command: string;
+    /** Command parameters (a copy: rewriting them does not touch the caller's object) */
+    params: Record<string, any>;
+    options: IWriteOptions;
+    /** Transport that will carry the command */
+    readonly protocol: 'socket' | 'rest';
+    /** Router the command is sent to */
+    readonly host: string;
+    /** Port the client targets (undefined: the protocol's default) */
+    readonly port?: number;
+    /** User the client logs in as */
+    readonly user: string;
+    /** Profile the rows of this command are decoded with */
+    readonly decoding: DecodingProfile;
+    /** Socket API tag, set by the transport once assigned */
+    tag?: string;
+    /** Transport that actually served the command (differs from `protocol` after a fallback) */
+    servedBy?: 'socket' | 'rest';
+    /** True if REST refused the menu (404/501) and the socket served it */
+    fallback?: boolean;
+    /** Epoch ms when the command entered the pipeline */
+    readonly startTime: number;
+    /** Total time in ms, set once the transport settled (undefined for short-circuited commands) */
+    duration?: number;
+    /** Scratch space shared by the middlewares of this command */
+    state: Record<string, any>;
+}
+
+/** Runs the rest of the chain (and finally the transport) */
+export type NextFunction = () => Promise<any[]>;
+
+/**
+ * A middleware wraps the command: code before `await next()` runs on the way out,
+ * code after it on the way back. Returning without calling `next()` short-circuits
+ * (e.g. a cached result); throwing vetoes the command.
+ */
+export type Middleware = (context: CommandContext, next: NextFunction) => Promise<any[]>;
+
+export interface MiddlewareOptions {
+    /** Identifier used by `remove()`, `replace()`, `before` and `after` (Default: 'middleware-<n>') */
+    name?: string;
+    /** Insert before the middleware with this name */
+    before?: string;
+    /** Insert after the middleware with this name */
+    after?: string;
+}
+
+interface MiddlewareEntry {
+    name: string;
+    handler: Middleware;
+    builtIn: boolean;
+}
+
+/**
+ * Names of the middlewares every client starts with (outermost first).
+ */
+export const BUILT_IN_MIDDLEWARES = ['queryCache', 'circuitBreaker', 'rateLimiter'] as const;
+
+/** Verbs that change a menu (and therefore invalidate its cached reads) */
+const MUTATING_VERBS = ['add', 'set', 'remove', 'unset', 'enable', 'disable', 'move', 'reset', 'comment'];
+
+/**
+ * MiddlewarePipeline
+ * * Ordered chain of middlewares around every `MikrotikClient.write()`, on both REST and socket.
+ * * Starts with the built-ins: 'queryCache' -> 'circuitBreaker' -> 'rateLimiter'.
+ * * `use()` inserts before the built-ins by default, so vetoes never count as breaker failures
+ * and audit hooks also see cache hits. Use `before`/`after`, `remove()` or `replace()` to reorganize.
+ */
+export class MiddlewarePipeline {
+    private entries: MiddlewareEntry[] = [];
+    private counter = 0;
+
+    /**
+     * Adds a middleware.
+     * @example
+     * pipeline.use(async (ctx, next) => {
+     * const rows = await next();
+     * audit.log(ctx.command, ctx.params, ctx.duration);
+     * return rows;
+     * }, { name: 'audit' });
+     */
+    public use(handler: Middleware, options: MiddlewareOptions = {}): this {
+        return this.insert({ name: options.name || `middleware-${++this.counter}`, handler, builtIn: false }, options);
+    }
+
+    /**
+     * Registers a built-in middleware (always appended, outermost first).
+     * @internal
+     */
+    public useBuiltIn(name: string, handler: Middleware): this {
+        this.assertUnique(name);
+        this.entries.push({ name, handler, builtIn: true });
+        return this;
+    }
+
+    /**
+     * Removes a middleware (built-ins included, e.g. `remove('queryCache')`).
+     */
+    public remove(name: string): this {
+        this.entries = this.entries.filter(entry => entry.name !== name);
+        return this;
+    }
+
+    /**
+     * Swaps the implementation of a middleware, keeping its position.
+     */
+    public replace(name: string, handler: Middleware): this {
+        const entry = this.entries.find(e => e.name === name);
+        if (!entry) throw new Error(`MiddlewarePipeline: No middleware named '${name}'.`);
+        entry.handler = handler;
+        return this;
+    }
+
+    public has(name: string): boolean {
+        return this.entries.some(entry => entry.name === name);
+    }
+
+    /**
+     * Middleware names in execution order (outermost first).
+     */
+    public names(): string[] {
+        return this.entries.map(entry => entry.name);
+    }
+
+    /**
+     * Runs the chain, ending with the transport.
+     */
+    public execute(context: CommandContext, transport: NextFunction): Promise<any[]> {
+        const chain = this.entries.map(entry => entry.handler);
+
+        const dispatch = (index: number): Promise<any[]> => {
+            if (index === chain.length) {
+                return transport().finally(() => {
+                    context.duration = Date.now() - context.startTime;
+                });
+            }
+
+            let called = false;
+            return chain[index](context, () => {
+                if (called) return Promise.reject(new Error('MiddlewarePipeline: next() called multiple times.'));
+                called = true;
+                return dispatch(index + 1);
+            });
+        };
+
+        return dispatch(0);
+    }
+
+    private insert(entry: MiddlewareEntry, options: MiddlewareOptions): this {
+        this.assertUnique(entry.name);
+
+        const anchor = options.before ?? options.after;
+        if (anchor !== undefined) {
+            const index = this.entries.findIndex(e => e.name === anchor);
+            if (index === -1) throw new Error(`MiddlewarePipeline: No middleware named '${anchor}'.`);
+            this.entries.splice(options.before !== undefined ? index : index + 1, 0, entry);
+            return this;
+        }
+
+        // Default: after the other user middlewares, before the first built-in
+        const firstBuiltIn = this.entries.findIndex(e => e.builtIn);
+        if (firstBuiltIn === -1) this.entries.push(entry);
+        else this.entries.splice(firstBuiltIn, 0, entry);
+        return this;
+    }
+
+    private assertUnique(name: string): void {
+        if (this.has(name)) throw new Error(`MiddlewarePipeline: A middleware named '${name}' already exists.`);
+    }
+}
+
+// ==========================================
+// BUILT-IN MIDDLEWARES
+// ==========================================
+
+/**
+ * Serves `print` commands flagged with `options.cache` from the QueryCache,
+ * and invalidates a menu's entries after any write to it.
+ */
+export function queryCacheMiddleware(cache: QueryCache): Middleware {
+    return async (context, next) => {
+        const slash = context.command.lastIndexOf('/');
+        const menu = context.command.substring(0, slash);
+        const verb = context.command.substring(slash + 1);
+
+        // Two routers may listen on one host (port forwarding, labs)
+        const router = `${context.host}:${context.port ?? 'default'}`;
+
+        if (verb === 'print' && context.options.cache) {
+            // Rows differ by user (permissions), decoding profile, raw flag and transport
+            const scope = `${context.user}|${context.decoding.id}|${context.options.raw ? 'raw' : 'parsed'}|${context.protocol}`;
+            const key = QueryCache.key(router, menu, context.params, scope);
+            const cached = cache.get(key);
+            if (cached) return cached;
+
+            const rows = await next();
+            cache.set(key, rows);
+            return rows;
+        }
+
+        if (!MUTATING_VERBS.includes(verb)) return next();
+
+        try {
+            return await next();
+        } finally {
+            // Even a failed write may have been partially applied
+            cache.invalidate(router, menu);
+        }
+    };
+}
+
+/**
+ * Runs the rest of the chain inside the Circuit Breaker.
+ */
+export function circuitBreakerMiddleware(breaker: CircuitBreaker): Middleware {
+    return (context, next) => breaker.execute(next);
+}
+
+/**
+ * Waits for a Rate Limiter token (Smart Backoff).
+ */
+export function rateLimiterMiddleware(limiter: RateLimiter): Middleware {
+    return async (context, next) => {
+        await limiter.acquire();
+
+        // The caller may have given up while we were waiting for a token
+        if (context.options.signal?.aborted) {
+            throw new RosAbortError(context.command, context.options.signal.reason);
+        }
+        return next();
+    };
+}
@@ -0,0 +1,74 @@
+import { test, describe } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { OfflineQueue, MemoryQueueStore, DeferredTask } from './OfflineQueue';
+import { MikrotikPool } from '../client/MikrotikPool';
+import { MockRouterServer } from '../testing/MockRouterServer';
+import { noopLogger } from './Logger';
+
+describe('OfflineQueue', () => {
+    test('coalesces sets on the same item', () => {
+        const queue = new OfflineQueue('r1', {}, noopLogger);
+        queue.enqueue({ path: '/ip/address', action: 'set', params: { '.id': '*1', comment: 'a' } });
+        queue.enqueue({ path: '/ip/address', action: 'set', params: { '.id': '*1', disabled: 'yes' } });
+        assert.equal(queue.size, 1);
+        assert.deepEqual(queue.pending()[0].params, { '.id': '*1', comment: 'a', disabled: 'yes' });
+    });
+
+    test('replays in order and settles waiters', async () => {
+        const queue = new OfflineQueue('r1', {}, noopLogger);
+        const first = queue.enqueue({ path: '/ip/address', action: 'add', params: { address: '10.0.0.1/24' } });
+        const second = queue.enqueue({ path: '/ip/address', action: 'remove', params: { '.id': '*9' } });
+        const outcome = queue.waitFor(second.id);
+
+        const order: string[] = [];
+        await queue.flush(async task => {
+            order.push(task.id);
+            if (task.action === 'remove') throw new Error('no such item');
+            return 'ok';
+        });
+
+        assert.deepEqual(order, [first.id, second.id]);
+        await assert.rejects(outcome, /no such item/);
+        assert.equal(queue.size, 0);
+    });
+
+    test('expires tasks past their ttl', async () => {
+        const queue = new OfflineQueue('r1', { ttl: 10 }, noopLogger);
+        const task = queue.enqueue({ path: '/ip/address', action: 'add', params: {} });
+        const outcome = queue.waitFor(task.id);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        assert.equal(queue.size, 0);
+        await assert.rejects(outcome, /expired/);
+    });
+
+    test('a pool replays each stored task once', async () => {
+        const mock = new MockRouterServer();
+        const address = await mock.start();
+
+        const store = new MemoryQueueStore();
+        const task: DeferredTask = {
+            id: 'deferred-1',
+            host: address.host,
+            path: '/ip/address',
+            action: 'add',
+            params: { address: '10.9.9.1/24', interface: 'ether1' },
+            timestamp: Date.now()
+        };
+        store.append(task);
+
+        const pool = new MikrotikPool({
+            ...mock.clientOptions(),
+            poolSize: 3, healthCheckInterval: 0, offlineQueue: { store }
+        });
+        const drained = new Promise(resolve => pool.offlineQueue.once('drained', resolve));
+        await pool.connect();
+        await drained;
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        assert.equal(mock.store.list('/ip/address').length, 1);
+        assert.equal(store.load(address.host).length, 0);
+
+        pool.close();
+        await mock.stop();
+    });
+});
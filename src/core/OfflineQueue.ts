@@ -1,48 +1,303 @@
+import * as fs from 'fs';
+import { EventEmitter } from 'events';
+import { Logger, ConsoleLogger } from './Logger';
+
 /**
  * OfflineQueue.ts
  * Manages the queue of commands that are waiting for the router to reconnect.
- * * In a full production environment, this should write to a local SQLite/JSON file
- * to survive server restarts.
+ * * One queue per router (keyed by host), backed by a pluggable store so tasks survive restarts.
+ * * Replayed in FIFO order by MikrotikClient on 'ready' / 'reconnected'.
+ * * Repeated `set` calls on the same `.id` are coalesced into a single task.
  */
 export interface DeferredTask {
     id: string;
+    /** Router the task belongs to */
+    host: string;
     path: string;
     action: 'add' | 'set' | 'remove';
     params: any;
     timestamp: number;
+    /** Epoch ms after which the task is discarded instead of executed */
+    expiresAt?: number;
+}
+
+/**
+ * Storage backend for deferred tasks.
+ * Methods are synchronous on purpose: a task must be durable before `enqueue()` returns.
+ */
+export interface OfflineQueueStore {
+    /** Returns the pending tasks of a router, oldest first */
+    load(host: string): DeferredTask[];
+    /** Persists a new task */
+    append(task: DeferredTask): void;
+    /** Persists a modified task (e.g. after coalescing) */
+    update(task: DeferredTask): void;
+    /** Forgets a task (executed, failed or expired) */
+    remove(host: string, taskId: string): void;
+}
+
+export interface OfflineQueueOptions {
+    /** Storage backend (Default: MemoryQueueStore) */
+    store?: OfflineQueueStore;
+    /** Time-to-live of a queued task in ms (Default: no expiry) */
+    ttl?: number;
+}
+
+export declare interface OfflineQueue {
+    on(event: 'enqueued', listener: (task: DeferredTask) => void): this;
+    on(event: 'coalesced', listener: (task: DeferredTask) => void): this;
+    on(event: 'executed', listener: (task: DeferredTask, result: any) => void): this;
+    on(event: 'failed', listener: (task: DeferredTask, error: Error) => void): this;
+    on(event: 'expired', listener: (task: DeferredTask) => void): this;
+    on(event: 'drained', listener: () => void): this;
+}
+
+// ==========================================
+// STORES
+// ==========================================
+
+/**
+ * Default store. Fast, but tasks are lost when the process exits.
+ */
+export class MemoryQueueStore implements OfflineQueueStore {
+    private tasks = new Map<string, DeferredTask[]>();
+
+    public load(host: string): DeferredTask[] {
+        return (this.tasks.get(host) || []).map(task => ({ ...task }));
+    }
+
+    public append(task: DeferredTask): void {
+        if (!this.tasks.has(task.host)) this.tasks.set(task.host, []);
+        this.tasks.get(task.host)!.push({ ...task });
+    }
+
+    public update(task: DeferredTask): void {
+        const list = this.tasks.get(task.host) || [];
+        const index = list.findIndex(t => t.id === task.id);
+        if (index !== -1) list[index] = { ...task };
+    }
+
+    public remove(host: string, taskId: string): void {
+        const list = this.tasks.get(host) || [];
+        this.tasks.set(host, list.filter(t => t.id !== taskId));
+    }
+}
+
+/**
+ * Durable store: an append-only NDJSON log (`put` / `del` records).
+ * The log is compacted every time it is loaded, so it only grows while the router is offline.
+ */
+export class JsonFileQueueStore implements OfflineQueueStore {
+    constructor(private readonly filePath: string) {}
+
+    public load(host: string): DeferredTask[] {
+        const all = this.replay();
+
+        // Compaction: rewrite the log with the surviving tasks only
+        const lines = Array.from(all.values()).map(task => JSON.stringify({ op: 'put', task }));
+        fs.writeFileSync(this.filePath, lines.length > 0 ? lines.join('\n') + '\n' : '');
+
+        return Array.from(all.values()).filter(task => task.host === host);
+    }
+
+    public append(task: DeferredTask): void {
+        this.write({ op: 'put', task });
+    }
+
+    public update(task: DeferredTask): void {
+        this.write({ op: 'put', task });
+    }
+
+    public remove(host: string, taskId: string): void {
+        this.write({ op: 'del', host, id: taskId });
+    }
+
+    /**
+     * Rebuilds the current state from the log. Insertion order is preserved (FIFO),
+     * and a `put` for an existing id updates it in place.
+     */
+    private replay(): Map<string, DeferredTask> {
+        const tasks = new Map<string, DeferredTask>();
+        if (!fs.existsSync(this.filePath)) return tasks;
+
+        const lines = fs.readFileSync(this.filePath, 'utf8').split('\n');
+        for (const line of lines) {
+            if (!line.trim()) continue;
+            try {
+                const record = JSON.parse(line);
+                if (record.op === 'put') tasks.set(record.task.id, record.task);
+                else if (record.op === 'del') tasks.delete(record.id);
+            } catch {
+                // A torn last line (crash mid-write) is ignored
+            }
+        }
+        return tasks;
+    }
+
+    private write(record: any): void {
+        fs.appendFileSync(this.filePath, JSON.stringify(record) + '\n');
+    }
 }
 
-export class OfflineQueue {
-    private static storage: DeferredTask[] = [];
+// ==========================================
+// QUEUE
+// ==========================================
+
+/**
+ * OfflineQueue
+ * * Per-router FIFO of writes issued with `.persistent()` while the router was unreachable.
+ * * Emits 'enqueued', 'coalesced', 'executed', 'failed', 'expired' and 'drained'.
+ * * `waitFor(taskId)` lets the caller that received `'QUEUED_OFFLINE'` learn the final outcome.
+ */
+export class OfflineQueue extends EventEmitter {
+    private readonly store: OfflineQueueStore;
+    private readonly ttl?: number;
+    private tasks: DeferredTask[];
+    private waiters = new Map<string, { resolve: (value: any) => void; reject: (error: Error) => void }[]>();
+    private flushing: Promise<void> | null = null;
+
+    constructor(
+        public readonly host: string,
+        options: OfflineQueueOptions = {},
+        private readonly logger: Logger = new ConsoleLogger()
+    ) {
+        super();
+        this.store = options.store || new MemoryQueueStore();
+        this.ttl = options.ttl;
+        this.tasks = this.store.load(host);
+    }
 
     /**
      * Adds a task to the waiting list.
+     * A `set` on an `.id` that already has a pending `set` is merged into it (last value wins),
+     * keeping the original position in the queue.
+     * @returns The stored task. Its `id` can be passed to `waitFor()`.
      */
-    public static enqueue(task: Omit<DeferredTask, 'id' | 'timestamp' | 'status'>): void {
+    public enqueue(task: Pick<DeferredTask, 'path' | 'action' | 'params'>): DeferredTask {
+        this.expire();
+
+        if (task.action === 'set' && task.params?.['.id']) {
+            const pending = this.tasks.find(t =>
+                t.action === 'set' && t.path === task.path && t.params?.['.id'] === task.params['.id']
+            );
+            if (pending) {
+                pending.params = { ...pending.params, ...task.params };
+                pending.timestamp = Date.now();
+                if (this.ttl !== undefined) pending.expiresAt = pending.timestamp + this.ttl;
+                this.store.update(pending);
+                this.emit('coalesced', pending);
+                return pending;
+            }
+        }
+
+        const now = Date.now();
         const fullTask: DeferredTask = {
             id: Math.random().toString(36).substring(2, 15),
-            timestamp: Date.now(),
+            host: this.host,
+            timestamp: now,
             ...task
         };
+        if (this.ttl !== undefined) fullTask.expiresAt = now + this.ttl;
 
-        this.storage.push(fullTask);
-        console.log(`Router offline. Task queued: ${fullTask.action.toUpperCase()} on ${fullTask.path}`);
+        this.tasks.push(fullTask);
+        this.store.append(fullTask);
+        this.logger.info(`Router offline. Task queued: ${fullTask.action.toUpperCase()} on ${fullTask.path}`, { path: fullTask.path });
+        this.emit('enqueued', fullTask);
+        return fullTask;
     }
 
     /**
-     * Returns all pending tasks and clears the queue.
-     * Called by the client upon reconnection.
+     * Resolves with the result of the task once it is replayed,
+     * or rejects if it fails or expires.
      */
-    public static flush(): DeferredTask[] {
-        const tasks = [...this.storage];
-        this.storage = [];
-        return tasks;
+    public waitFor(taskId: string): Promise<any> {
+        if (!this.tasks.some(t => t.id === taskId)) {
+            return Promise.reject(new Error(`OfflineQueue: Task '${taskId}' is not pending on ${this.host}.`));
+        }
+        return new Promise((resolve, reject) => {
+            if (!this.waiters.has(taskId)) this.waiters.set(taskId, []);
+            this.waiters.get(taskId)!.push({ resolve, reject });
+        });
+    }
+
+    /**
+     * Replays the pending tasks in FIFO order.
+     * Stops (keeping the remaining tasks) as soon as `canContinue()` turns false,
+     * e.g. because the router dropped again while flushing.
+     * @param execute Runs one task against the router.
+     * @param canContinue Checked before every task and after every failure.
+     */
+    public flush(execute: (task: DeferredTask) => Promise<any>, canContinue: () => boolean = () => true): Promise<void> {
+        if (this.flushing) return this.flushing;
+
+        this.flushing = (async () => {
+            this.expire();
+
+            while (this.tasks.length > 0 && canContinue()) {
+                const task = this.tasks[0];
+                try {
+                    const result = await execute(task);
+                    this.settle(task);
+                    this.emit('executed', task, result);
+                    this.notify(task.id, waiter => waiter.resolve(result));
+                } catch (error) {
+                    // Connection lost mid-flush: keep the task for the next replay
+                    if (!canContinue()) break;
+
+                    this.settle(task);
+                    this.emit('failed', task, error as Error);
+                    this.notify(task.id, waiter => waiter.reject(error as Error));
+                }
+            }
+
+            if (this.tasks.length === 0) this.emit('drained');
+        })().finally(() => {
+            this.flushing = null;
+        });
+
+        return this.flushing;
+    }
+
+    /**
+     * Pending tasks, oldest first.
+     */
+    public pending(): DeferredTask[] {
+        this.expire();
+        return this.tasks.map(task => ({ ...task }));
     }
 
     /**
      * Checks if there are pending operations.
      */
-    public static get size(): number {
-        return this.storage.length;
+    public get size(): number {
+        this.expire();
+        return this.tasks.length;
     }
-}
\ No newline at end of file
+
+    /**
+     * Drops expired tasks, rejecting their waiters.
+     */
+    private expire(): void {
+        const now = Date.now();
+        for (const task of [...this.tasks]) {
+            if (task.expiresAt !== undefined && task.expiresAt <= now) {
+                this.settle(task);
+                this.emit('expired', task);
+                this.notify(task.id, waiter => waiter.reject(
+                    new Error(`OfflineQueue: Task ${task.action.toUpperCase()} on ${task.path} expired before the router came back.`)
+                ));
+            }
+        }
+    }
+
+    private settle(task: DeferredTask): void {
+        this.tasks = this.tasks.filter(t => t.id !== task.id);
+        this.store.remove(this.host, task.id);
+    }
+
+    private notify(taskId: string, fn: (waiter: { resolve: (value: any) => void; reject: (error: Error) => void }) => void): void {
+        const waiters = this.waiters.get(taskId) || [];
+        this.waiters.delete(taskId);
+        waiters.forEach(fn);
+    }
+}
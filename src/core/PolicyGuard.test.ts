@@ -0,0 +1,88 @@
+import { test, describe } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { PolicyGuard, PolicyViolationError } from './PolicyGuard';
+import { MockRouterServer } from '../testing/MockRouterServer';
+
+describe('PolicyGuard', () => {
+    test('read-only allows reads and refuses writes', () => {
+        const guard = new PolicyGuard('read-only');
+        assert.equal(guard.isAllowed('/ip/address/print'), true);
+        assert.equal(guard.isAllowed('/interface/monitor-traffic'), true);
+        assert.equal(guard.isAllowed('/ip/address/add'), false);
+        assert.equal(guard.isAllowed('/system/reboot'), false);
+    });
+
+    test('deny wins over allow', () => {
+        const guard = new PolicyGuard({
+            allow: [{ path: '/system/**' }],
+            deny: [{ path: '/system', verbs: ['reboot'] }]
+        });
+        assert.equal(guard.isAllowed('/system/identity/print'), true);
+        assert.throws(() => guard.check('/system/reboot'), (error: PolicyViolationError) => error.reason === 'denied');
+    });
+
+    test('globs match one or any number of segments', () => {
+        const guard = new PolicyGuard({ allow: [{ path: '/interface/*' }, { path: '/ip/firewall/**' }] });
+        assert.equal(guard.isAllowed('/interface/ethernet/print'), true);
+        assert.equal(guard.isAllowed('/interface/bridge/port/print'), false);
+        assert.equal(guard.isAllowed('/ip/firewall/filter/add'), true);
+        assert.equal(guard.isAllowed('/ip/firewall/nat/print'), true);
+    });
+
+    test('parents must permit the command too', () => {
+        const swarm = new PolicyGuard({ deny: [{ path: '/system', verbs: ['reboot'] }] });
+        const node = new PolicyGuard({}, swarm);
+        assert.equal(node.isAllowed('/system/reboot'), false);
+        assert.equal(node.isAllowed('/ip/address/print'), true);
+    });
+
+    test('restricting policies refuse ssh by default', () => {
+        assert.throws(() => new PolicyGuard('read-only').checkCli('/export'), PolicyViolationError);
+        assert.doesNotThrow(() => new PolicyGuard().checkCli('/export'));
+    });
+});
+
+describe('Policy on a connected client', () => {
+    test('schema discovery is exempt from the policy', async () => {
+        const mock = new MockRouterServer();
+        await mock.start();
+        const client = mock.client({ policy: { allow: [{ path: '/ip/**' }] } });
+        await client.connect();
+
+        assert.equal(client.schema.majorVersion, 7);
+        assert.equal(client.schema.version, '7.14.3 (stable)');
+        await assert.rejects(client.write('/system/resource/print'), PolicyViolationError);
+        await mock.stop();
+    });
+
+    test('refused commands never reach the router', async () => {
+        const mock = new MockRouterServer();
+        await mock.start();
+        const client = mock.client({ policy: 'read-only' });
+        await client.connect();
+
+        const sent: string[] = [];
+        mock.on('command', record => sent.push(record.command));
+        await assert.rejects(client.command('/ip/address').add({ address: '10.0.0.1/24', interface: 'ether1' }), PolicyViolationError);
+        assert.throws(() => client.stream('/ip/address/remove', { '.id': '*1' }, () => {}), PolicyViolationError);
+        assert.deepEqual(sent, []);
+        await mock.stop();
+    });
+
+    test('transactions are refused up front when an automatic inverse is not allowed', async () => {
+        const mock = new MockRouterServer();
+        await mock.start();
+        const client = mock.client({ policy: { deny: [{ path: '/ppp/secret', verbs: ['remove'] }] } });
+        await client.connect();
+
+        const sent: string[] = [];
+        mock.on('command', record => sent.push(record.command));
+        // Rolling back the add would need /ppp/secret/remove
+        const report = await client.transaction().add('/ppp/secret/add', { name: 'ana' }).run();
+
+        assert.equal(report.ok, false);
+        assert.ok(report.error instanceof PolicyViolationError);
+        assert.deepEqual(sent, []);
+        await mock.stop();
+    });
+});
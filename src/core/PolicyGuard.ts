@@ -0,0 +1,173 @@
+/**
+ * A path/verb pattern used by allow and deny lists.
+ */
+export interface PolicyRule {
+    /**
+     * Menu glob, matched against the command without its verb.
+     * `*` matches one segment, `**` any number of segments.
+     * @example '/ip/firewall/**', '/ppp/secret', '/interface/*'
+     */
+    path: string;
+    /**
+     * Verbs covered by the rule (`print`, `add`, `set`, `remove`, or any action such as `reboot`).
+     * Default: every verb
+     */
+    verbs?: string[];
+}
+
+export interface PolicyOptions {
+    /** Starts from a built-in rule set. 'read-only' allows reads and monitors only. */
+    preset?: 'read-only';
+    /** When non-empty, only matching commands run (in addition to the preset). */
+    allow?: PolicyRule[];
+    /** Commands that never run. Evaluated before the allow list. */
+    deny?: PolicyRule[];
+    /**
+     * Permits `client.ssh.exec()`. CLI text cannot be checked against rules.
+     * Default: true, unless the policy restricts commands (preset or allow list)
+     */
+    ssh?: boolean;
+}
+
+/**
+ * Raised before anything is sent on the wire when a command is not permitted.
+ */
+export class PolicyViolationError extends Error {
+    constructor(
+        public readonly command: string,
+        /** Why it was refused: matched a deny rule, or matched no allow rule */
+        public readonly reason: 'denied' | 'not-allowed',
+        /** The deny rule that matched */
+        public readonly rule?: PolicyRule
+    ) {
+        super(reason === 'denied'
+            ? `PolicyGuard: '${command}' is denied by rule ${rule?.path}${rule?.verbs ? ` [${rule.verbs.join(',')}]` : ''}.`
+            : `PolicyGuard: '${command}' is not in the allow list.`);
+        this.name = 'PolicyViolationError';
+        Object.setPrototypeOf(this, PolicyViolationError.prototype);
+    }
+}
+
+/**
+ * PolicyGuard
+ * * Central allow/deny check for every command a client sends:
+ * `write()`, `stream()`, FileManager, MikrotikTransaction, the OfflineQueue and SSH.
+ * * Deny rules win; with an allow list (or the 'read-only' preset), anything unmatched is refused.
+ * * A guard may have parents (e.g. the swarm-wide policy): all of them must permit the command,
+ * so a node-level policy can only restrict further.
+ *
+ * @example
+ * // NOC dashboards: reads everywhere, never a write
+ * new MikrotikClient({ host, user, password, policy: 'read-only' });
+ *
+ * @example
+ * // Provisioning bot: PPP secrets and queues only, never reboot
+ * new MikrotikClient({ host, user, password, policy: {
+ * allow: [{ path: '/ppp/secret' }, { path: '/queue/simple' }, { path: '/**', verbs: ['print'] }],
+ * deny: [{ path: '/system', verbs: ['reboot', 'shutdown'] }]
+ * }});
+ */
+export class PolicyGuard {
+    /**
+     * Verbs considered read-only: they observe the router without changing its configuration.
+     */
+    public static readonly READ_VERBS = [
+        'print', 'getall', 'get', 'monitor', 'monitor-traffic', 'listen', 'torch', 'ping', 'traceroute'
+    ];
+
+    /** Built-in rule sets */
+    public static readonly PRESETS: Record<'read-only', PolicyRule[]> = {
+        'read-only': [{ path: '/**', verbs: PolicyGuard.READ_VERBS }]
+    };
+
+    private readonly allow: PolicyRule[];
+    private readonly deny: PolicyRule[];
+    private readonly sshAllowed: boolean;
+    private readonly parents: PolicyGuard[];
+
+    /**
+     * @param options Rules, or the name of a preset.
+     * @param parents Guards that must also permit every command (e.g. the swarm policy).
+     */
+    constructor(options: PolicyOptions | 'read-only' = {}, ...parents: PolicyGuard[]) {
+        this.parents = parents;
+        const resolved: PolicyOptions = typeof options === 'string' ? { preset: options } : options;
+
+        this.allow = [
+            ...(resolved.preset ? PolicyGuard.PRESETS[resolved.preset] : []),
+            ...(resolved.allow || [])
+        ];
+        this.deny = resolved.deny || [];
+        this.sshAllowed = resolved.ssh ?? this.allow.length === 0;
+    }
+
+    /**
+     * True when the guard lets every command through.
+     */
+    public get isPermissive(): boolean {
+        return this.allow.length === 0 && this.deny.length === 0 && this.sshAllowed && this.parents.every(parent => parent.isPermissive);
+    }
+
+    /**
+     * Throws `PolicyViolationError` if the command may not run.
+     * @param command Full API command (e.g. `/ip/address/remove`).
+     */
+    public check(command: string): void {
+        this.parents.forEach(parent => parent.check(command));
+
+        const slash = command.lastIndexOf('/');
+        const menu = command.substring(0, slash) || '/';
+        const verb = command.substring(slash + 1);
+
+        const denied = this.deny.find(rule => PolicyGuard.matches(rule, menu, verb));
+        if (denied) throw new PolicyViolationError(command, 'denied', denied);
+
+        if (this.allow.length > 0 && !this.allow.some(rule => PolicyGuard.matches(rule, menu, verb))) {
+            throw new PolicyViolationError(command, 'not-allowed');
+        }
+    }
+
+    /**
+     * Throws `PolicyViolationError` if CLI commands over SSH are not permitted.
+     */
+    public checkCli(command: string): void {
+        this.parents.forEach(parent => parent.checkCli(command));
+        if (!this.sshAllowed) throw new PolicyViolationError(`ssh: ${command}`, 'not-allowed');
+    }
+
+    public isAllowed(command: string): boolean {
+        try {
+            this.check(command);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    private static matches(rule: PolicyRule, menu: string, verb: string): boolean {
+        if (rule.verbs && !rule.verbs.includes('*') && !rule.verbs.includes(verb)) return false;
+        return PolicyGuard.matchPath(rule.path, menu);
+    }
+
+    /**
+     * Glob match on menu segments (`*` = one segment, `**` = zero or more).
+     */
+    public static matchPath(glob: string, menu: string): boolean {
+        const pattern = glob.split('/').filter(Boolean);
+        const segments = menu.split('/').filter(Boolean);
+
+        const match = (p: number, s: number): boolean => {
+            if (p === pattern.length) return s === segments.length;
+            if (pattern[p] === '**') {
+                for (let i = s; i <= segments.length; i++) {
+                    if (match(p + 1, i)) return true;
+                }
+                return false;
+            }
+            if (s === segments.length) return false;
+            return (pattern[p] === '*' || pattern[p] === segments[s]) && match(p + 1, s + 1);
+        };
+
+        return match(0, 0);
+    }
+}
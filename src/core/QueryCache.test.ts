@@ -0,0 +1,108 @@
+import { test, describe, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { QueryCache } from './QueryCache';
+import { DecodingProfile } from './ValueCodec';
+import { MikrotikOptions } from '../client/MikrotikClient';
+import { MockRouterServer } from '../testing/MockRouterServer';
+
+describe('QueryCache', () => {
+    test('expires entries after the ttl', async () => {
+        const cache = new QueryCache(20);
+        cache.set('k', [{ a: 1 }]);
+        assert.deepEqual(cache.get('k'), [{ a: 1 }]);
+        await new Promise(resolve => setTimeout(resolve, 30));
+        assert.equal(cache.get('k'), undefined);
+    });
+
+    test('invalidates every entry of a menu', () => {
+        const cache = new QueryCache();
+        cache.set(QueryCache.key('r1', '/ip/address', {}, 'a'), [1]);
+        cache.set(QueryCache.key('r1', '/ip/address', { '?x': '1' }, 'b'), [2]);
+        cache.set(QueryCache.key('r1', '/ip/route', {}, 'a'), [3]);
+        cache.invalidate('r1', '/ip/address');
+        assert.equal(cache.get(QueryCache.key('r1', '/ip/address', {}, 'a')), undefined);
+        assert.deepEqual(cache.get(QueryCache.key('r1', '/ip/route', {}, 'a')), [3]);
+    });
+
+    test('hands out copies of the cached rows', () => {
+        const cache = new QueryCache();
+        cache.set('k', [{ name: 'a' }]);
+        const rows = cache.get('k')!;
+        rows[0].name = 'changed';
+        rows.push({ name: 'b' });
+        assert.deepEqual(cache.get('k'), [{ name: 'a' }]);
+    });
+
+    test('profiles built from the same options share an id', () => {
+        assert.equal(new DecodingProfile('standard').id, new DecodingProfile({ preset: 'standard' }).id);
+        assert.notEqual(new DecodingProfile('standard').id, new DecodingProfile().id);
+        assert.notEqual(new DecodingProfile('lossless').id, new DecodingProfile().id);
+    });
+});
+
+describe('Read cache between clients', () => {
+    let mock: MockRouterServer;
+    let other: MockRouterServer;
+    const menu = '/ip/firewall/address-list';
+
+    before(async () => {
+        mock = new MockRouterServer({ seed: { [menu]: [{ list: 'x', address: '192.0.2.1', timeout: '1h' }] } });
+        other = new MockRouterServer({ seed: { [menu]: [{ list: 'x', address: '198.51.100.1', timeout: '1h' }] } });
+        await mock.start();
+        await other.start();
+    });
+
+    after(async () => {
+        await Promise.all([mock.stop(), other.stop()]);
+    });
+
+    const connect = async (extra: Partial<MikrotikOptions>, server = mock) => {
+        const client = server.client(extra);
+        await client.connect();
+        return client;
+    };
+
+    const reads = (server: MockRouterServer, run: () => Promise<unknown>) => {
+        let count = 0;
+        const record = (record: { command: string }) => { if (record.command === `${menu}/print`) count++; };
+        server.on('command', record);
+        return run().finally(() => server.off('command', record)).then(() => count);
+    };
+
+    test('each client has its own cache unless one is shared', async () => {
+        const first = await connect({});
+        const second = await connect({});
+        const cache = new QueryCache();
+        const sharing = [await connect({ queryCache: cache }), await connect({ queryCache: cache })];
+
+        assert.equal(await reads(mock, async () => {
+            await first.write(`${menu}/print`, undefined, { cache: true });
+            await second.write(`${menu}/print`, undefined, { cache: true });
+        }), 2);
+        assert.equal(await reads(mock, async () => {
+            for (const client of sharing) await client.write(`${menu}/print`, undefined, { cache: true });
+        }), 1);
+    });
+
+    test('routers on one host do not share rows', async () => {
+        const cache = new QueryCache();
+        const here = await connect({ queryCache: cache });
+        const there = await connect({ queryCache: cache }, other);
+
+        const [first] = await here.write(`${menu}/print`, undefined, { cache: true });
+        const [second] = await there.write(`${menu}/print`, undefined, { cache: true });
+        assert.equal(first.address, '192.0.2.1');
+        assert.equal(second.address, '198.51.100.1');
+    });
+
+    test('clients with different decoding profiles do not share rows', async () => {
+        const cache = new QueryCache();
+        const plain = await connect({ queryCache: cache });
+        const typed = await connect({ queryCache: cache, decoding: 'standard' });
+
+        const [first] = await plain.write(`${menu}/print`, undefined, { cache: true });
+        const [second] = await typed.write(`${menu}/print`, undefined, { cache: true });
+        assert.equal(first.timeout, '1h');
+        assert.equal(second.timeout, 3600000);
+    });
+});
@@ -0,0 +1,75 @@
+/**
+ * Interface for the internal cache storage.
+ */
+interface CacheEntry {
+    data: any[];
+    expires: number;
+}
+
+/**
+ * QueryCache
+ * * Short-lived read cache behind the 'queryCache' middleware (and `CommandBuilder.print()`).
+ * * Each client has its own, unless one instance is passed to several clients (`queryCache` option).
+ * * Keys are `router:menu:scope:params` (router = `host:port`), so clients sharing a cache share entries
+ * only when they also log in as the same user and decode rows the same way (the scope).
+ * * Rows are copied in and out: callers may mutate what they get.
+ * * Entries of a menu are dropped whenever a write to that menu goes through the pipeline.
+ */
+export class QueryCache {
+    private entries = new Map<string, CacheEntry>();
+
+    constructor(public readonly ttlMs: number = 5000) {}
+
+    /**
+     * @param router Identity of the router (`host:port`).
+     * @param scope What else shapes the rows (user, decoding profile, transport).
+     */
+    public static key(router: string, menu: string, params: Record<string, any>, scope: string = ''): string {
+        return `${router}:${menu}:${scope}:${JSON.stringify(params)}`;
+    }
+
+    public get(key: string): any[] | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) return undefined;
+        if (Date.now() >= entry.expires) {
+            this.entries.delete(key);
+            return undefined;
+        }
+        return QueryCache.copy(entry.data);
+    }
+
+    public set(key: string, data: any[]): void {
+        this.entries.set(key, { data: QueryCache.copy(data), expires: Date.now() + this.ttlMs });
+
+        // Probabilistic garbage collection keeps the memory footprint low
+        if (Math.random() > 0.95) this.prune();
+    }
+
+    /**
+     * Drops every entry of a menu on a router (`host:port`).
+     */
+    public invalidate(router: string, menu: string): void {
+        const prefix = `${router}:${menu}:`;
+        for (const key of this.entries.keys()) {
+            if (key.startsWith(prefix)) this.entries.delete(key);
+        }
+    }
+
+    public clear(): void {
+        this.entries.clear();
+    }
+
+    private static copy(rows: any[]): any[] {
+        return rows.map(row => (row && typeof row === 'object' ? { ...row } : row));
+    }
+
+    /**
+     * Helper to clean expired cache entries to prevent memory leaks.
+     */
+    private prune(): void {
+        const now = Date.now();
+        for (const [key, entry] of this.entries) {
+            if (now >= entry.expires) this.entries.delete(key);
+        }
+    }
+}
@@ -1,3 +1,5 @@
+import { Logger, ConsoleLogger } from './Logger';
+
 /**
  * RateLimiter.ts
  * Implements a Token Bucket algorithm with Smart Backoff.
@@ -17,12 +19,17 @@ export class RateLimiter {
     private queue: Array<() => void> = [];
     private rttHistory: number[] = [];
     private readonly historySize = 10; // Keep last 10 requests to calculate average
+    private congested = false;
 
     // Health Thresholds (in milliseconds)
     private readonly LATENCY_THRESHOLD_WARNING = 200; // >200ms = Router is busy
     private readonly LATENCY_THRESHOLD_CRITICAL = 500; // >500ms = Router is dying
 
-    constructor(limitPerSecond: number = 50, burstSize: number = 10) {
+    constructor(
+        limitPerSecond: number = 50,
+        burstSize: number = 10,
+        private readonly logger: Logger = new ConsoleLogger()
+    ) {
         this.refillRate = limitPerSecond;
         this.originalRefillRate = limitPerSecond;
         this.maxTokens = burstSize;
@@ -94,7 +101,10 @@ export class RateLimiter {
             this.refillRate = this.minRefillRate;
             // Clear tokens to force a pause
             this.tokens = 0;
-            if (Math.random() > 0.9) console.warn(`[RateLimiter] High Congestion! Latency: ${avgLatency.toFixed(0)}ms. Throttling down.`);
+            // Report the transition once, not every sample
+            if (!this.congested) {
+                this.logger.warn('RateLimiter: High congestion, throttling down.', { latency: Math.round(avgLatency) });
+            }
         }
         // 2. WARNING STATE (Linear Backoff)
         else if (avgLatency > this.LATENCY_THRESHOLD_WARNING) {
@@ -108,5 +118,7 @@ export class RateLimiter {
                 this.refillRate += 5; // Recover 5 tokens/sec per check
             }
         }
+
+        this.congested = avgLatency > this.LATENCY_THRESHOLD_CRITICAL;
     }
 }
\ No newline at end of file
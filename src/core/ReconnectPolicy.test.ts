@@ -0,0 +1,75 @@
+import { test, describe } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { once } from 'events';
+import { ReconnectPolicy } from './ReconnectPolicy';
+import { MikrotikClient } from '../client/MikrotikClient';
+import { MockRouterServer } from '../testing/MockRouterServer';
+
+describe('ReconnectPolicy', () => {
+    test('backs off exponentially up to maxDelay', () => {
+        const policy = new ReconnectPolicy({ initialDelay: 100, factor: 2, maxDelay: 500, jitter: 0 });
+        assert.deepEqual([1, 2, 3, 4, 5].map(attempt => policy.nextDelay(attempt)), [100, 200, 400, 500, 500]);
+    });
+
+    test('jitter stays within its ratio', () => {
+        const policy = new ReconnectPolicy({ initialDelay: 1000, jitter: 0.2 });
+        for (let i = 0; i < 50; i++) {
+            const delay = policy.nextDelay(1);
+            assert.ok(delay >= 800 && delay <= 1200, String(delay));
+        }
+    });
+
+    test('stops after maxAttempts and is off by default', () => {
+        const policy = new ReconnectPolicy({ maxAttempts: 2 });
+        assert.equal(policy.canRetry(2), true);
+        assert.equal(policy.canRetry(3), false);
+        assert.equal(new ReconnectPolicy().canRetry(1), false);
+    });
+});
+
+describe('Reconnection supervisor', () => {
+    test('reconnects and resubscribes active streams', async () => {
+        const mock = new MockRouterServer();
+        await mock.start();
+        const client = mock.client({ reconnect: { initialDelay: 20, jitter: 0 } });
+        await client.connect();
+
+        const seen: string[] = [];
+        const subscription = client.command('/ip/address').listen(item => {
+            if (item.address) seen.push(item.address);
+        }, { followOnly: true });
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        const reconnected = once(client, 'reconnected');
+        mock.dropConnections();
+        const [info] = await reconnected;
+        assert.ok(info.attempts >= 1);
+        assert.equal(client.isConnected, true);
+
+        await new Promise(resolve => setTimeout(resolve, 50));
+        await client.write('/ip/address/add', { address: '10.5.5.1/24', interface: 'ether1' });
+        await new Promise(resolve => setTimeout(resolve, 50));
+        assert.deepEqual(seen, ['10.5.5.1/24']);
+
+        await subscription.stop();
+        await mock.stop();
+    });
+
+    test("gives up with 'reconnect_failed' after maxAttempts", async () => {
+        const mock = new MockRouterServer();
+        await mock.start();
+        // Outlives the mock: stop() must not close it
+        const client = new MikrotikClient(mock.clientOptions({ reconnect: { initialDelay: 10, jitter: 0, maxAttempts: 2 } }));
+        await client.connect();
+
+        const attempts: number[] = [];
+        client.on('reconnecting', info => attempts.push(info.attempt));
+        const failed = once(client, 'reconnect_failed');
+        await mock.stop();
+
+        const [info] = await failed;
+        assert.equal(info.attempts, 2);
+        assert.deepEqual(attempts, [1, 2]);
+        client.close();
+    });
+});
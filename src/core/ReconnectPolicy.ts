@@ -0,0 +1,70 @@
+/**
+ * ReconnectPolicy.ts
+ * Computes the waiting time between reconnection attempts.
+ * * Implements Exponential Backoff with optional Jitter so a fleet of clients
+ * that lost the same router does not hammer it in lock-step when it comes back.
+ */
+export interface ReconnectOptions {
+    /** Enables the automatic reconnection supervisor (Default: true when options are given) */
+    enabled?: boolean;
+    /** Delay before the first attempt in ms (Default: 1000ms) */
+    initialDelay?: number;
+    /** Upper bound for the delay between attempts in ms (Default: 30000ms) */
+    maxDelay?: number;
+    /** Multiplier applied to the delay after every failed attempt (Default: 2) */
+    factor?: number;
+    /**
+     * Randomization ratio between 0 and 1 (Default: 0.2).
+     * A value of 0.2 spreads each delay randomly within +/- 20%.
+     */
+    jitter?: number;
+    /** Maximum number of attempts before giving up (Default: Infinity) */
+    maxAttempts?: number;
+}
+
+export class ReconnectPolicy {
+    public readonly enabled: boolean;
+
+    private readonly initialDelay: number;
+    private readonly maxDelay: number;
+    private readonly factor: number;
+    private readonly jitter: number;
+    private readonly maxAttempts: number;
+
+    constructor(options: ReconnectOptions | boolean = false) {
+        const config: ReconnectOptions = typeof options === 'boolean'
+            ? { enabled: options }
+            : { enabled: true, ...options };
+
+        this.enabled = config.enabled ?? false;
+        this.initialDelay = config.initialDelay ?? 1000;
+        this.maxDelay = config.maxDelay ?? 30000;
+        this.factor = config.factor ?? 2;
+        this.jitter = Math.min(Math.max(config.jitter ?? 0.2, 0), 1);
+        this.maxAttempts = config.maxAttempts ?? Infinity;
+    }
+
+    /**
+     * Returns true if another attempt is allowed.
+     * @param attempt The 1-based number of the attempt about to be made.
+     */
+    public canRetry(attempt: number): boolean {
+        return this.enabled && attempt <= this.maxAttempts;
+    }
+
+    /**
+     * Calculates the delay (ms) to wait before the given attempt.
+     * @param attempt The 1-based number of the attempt about to be made.
+     */
+    public nextDelay(attempt: number): number {
+        const exponential = this.initialDelay * Math.pow(this.factor, Math.max(attempt - 1, 0));
+        const capped = Math.min(exponential, this.maxDelay);
+
+        if (this.jitter === 0) return capped;
+
+        // Spread the delay randomly within [capped - jitter%, capped + jitter%]
+        const spread = capped * this.jitter;
+        const randomized = capped - spread + Math.random() * spread * 2;
+        return Math.max(0, Math.round(randomized));
+    }
+}
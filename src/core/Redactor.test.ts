@@ -0,0 +1,115 @@
+import { test, describe } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Redactor, REDACTED } from './Redactor';
+import { RosTrapError } from './RosError';
+import { MikrotikClient } from '../client/MikrotikClient';
+import { MockRouterServer } from '../testing/MockRouterServer';
+
+describe('Redactor', () => {
+    const redactor = new Redactor(['api-token-v2']);
+
+    test('matches exact names, secret suffixes and configured names', () => {
+        ['password', '=password', '?secret', 'private-key', 'preshared-key', 'old-password', 'ipsec-secret',
+            'wpa-psk', 'api-token', 'api-token-v2', 'privateKey', 'oldPassword'].forEach(key => {
+            assert.equal(redactor.isSensitive(key), true, key);
+        });
+    });
+
+    test('leaves look-alike names alone', () => {
+        ['passthrough', 'public-key', 'publicKey', 'keepalive-timeout', 'key-size', 'tokens', 'name', 'comment'].forEach(key => {
+            assert.equal(redactor.isSensitive(key), false, key);
+        });
+    });
+
+    test('redacts params deeply, including query words', () => {
+        const redacted = redactor.redactParams({
+            name: 'peer1',
+            'public-key': 'pub',
+            'preshared-key': 'psk-value',
+            nested: [{ password: 'x' }],
+            '.query': ['?secret=abc', '?name=joe']
+        });
+        assert.deepEqual(redacted, {
+            name: 'peer1',
+            'public-key': 'pub',
+            'preshared-key': REDACTED,
+            nested: [{ password: REDACTED }],
+            '.query': [`?secret=${REDACTED}`, '?name=joe']
+        });
+    });
+
+    test('scrubs field pairs and echoed secrets from text', () => {
+        const text = redactor.redactText('login failed password="hunter22" for john, passthrough=yes', ['hunter22']);
+        assert.equal(text, `login failed password="${REDACTED}" for john, passthrough=yes`);
+    });
+
+    test('never scrubs short or generic values from errors', () => {
+        const error = new RosTrapError('failure: rule with passthrough=yes and disabled=no already exists, key yes', '/ip/firewall/mangle/add');
+        redactor.redactError(error, { secret: 'yes', password: 'no', 'auth-key': true as any });
+        assert.equal(error.detail, 'failure: rule with passthrough=yes and disabled=no already exists, key yes');
+    });
+
+    test('scrubs echoed secret values from errors', () => {
+        const error = new RosTrapError('failure: bad secret s3cr3t-value', '/ppp/secret/add');
+        redactor.redactError(error, { name: 'joe', password: 's3cr3t-value' });
+        assert.equal(error.detail, `failure: bad secret ${REDACTED}`);
+        assert.ok(!error.message.includes('s3cr3t-value'));
+    });
+
+    test("toJSON() uses the redactor of the client that raised the error", () => {
+        const error = new RosTrapError('failure: api-token-v2=abc123456 rejected', '/ip/cloud/set');
+        assert.match(JSON.stringify(error), /abc123456/);
+        assert.doesNotMatch(JSON.stringify(error.redactWith(redactor)), /abc123456/);
+        assert.equal(Object.keys(error).includes('redactor'), false);
+    });
+
+    test('copies for log output leave the original error untouched', () => {
+        const error = new RosTrapError('failure: password=hunter2 rejected', '/user/add');
+        const copy = Redactor.default.redactedCopy(error);
+
+        assert.ok(copy instanceof RosTrapError);
+        assert.doesNotMatch(copy.message, /hunter2/);
+        assert.match(error.message, /hunter2/);
+    });
+});
+
+describe('Cassettes and redaction', () => {
+    test('public values are recorded and checked on replay', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cassette-'));
+        const file = path.join(dir, 'wireguard.ndjson');
+        const mock = new MockRouterServer();
+        await mock.start();
+        const options = mock.clientOptions({ protocol: 'socket' });
+
+        try {
+            const recorder = new MikrotikClient({ ...options, cassette: { mode: 'record', path: file } });
+            await recorder.connect();
+            await recorder.write('/interface/wireguard/peers/add', { interface: 'wg0', 'public-key': 'PUBKEY1', 'preshared-key': 'PSK-SECRET' });
+            recorder.close();
+            await new Promise(resolve => setTimeout(resolve, 50)); // the cassette is flushed asynchronously
+
+            const cassette = fs.readFileSync(file, 'utf8');
+            assert.ok(cassette.includes('PUBKEY1'));
+            assert.ok(!cassette.includes('PSK-SECRET'));
+
+            // Another preshared key replays (redacted values match anything), another public key does not
+            const replay = async (publicKey: string) => {
+                const client = new MikrotikClient({ ...options, cassette: { mode: 'replay', path: file } });
+                await client.connect();
+                try {
+                    return await client.write('/interface/wireguard/peers/add', { interface: 'wg0', 'public-key': publicKey, 'preshared-key': 'OTHER' });
+                } finally {
+                    client.close();
+                }
+            };
+            await replay('PUBKEY1');
+            await assert.rejects(replay('PUBKEY2'), { name: 'CassetteMismatchError' });
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+            await mock.stop();
+        }
+    });
+});
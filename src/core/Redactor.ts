@@ -0,0 +1,193 @@
+/** Placeholder written instead of sensitive values. Treated as a wildcard on replay. */
+export const REDACTED = '***REDACTED***';
+
+/**
+ * Redactor
+ * * Single source of truth for "which values must never leave the process":
+ * error messages and `RosError.rawResponse`, `RosError.toJSON()`, logger output and cassettes.
+ * * Sensitive fields are the built-in RouterOS names (`SENSITIVE_FIELDS`), names ending in
+ * one of `SENSITIVE_SUFFIXES`, plus the names configured with the `redact` option.
+ * Parsed names (`privateKey`) match like their wire form (`private-key`).
+ * * Values of sensitive params sent with a command are also scrubbed from the text of
+ * its error, since the router sometimes echoes them back.
+ *
+ * @example
+ * const redactor = new Redactor(['api-token-v2']);
+ * redactor.redactParams({ name: 'john', password: 'x' }); // { name: 'john', password: '***REDACTED***' }
+ */
+export class Redactor {
+    /**
+     * RouterOS fields that carry credentials
+     * (users, PPP, wireless, WireGuard, IPsec, SNMP, routing auth, hotspot, certificates).
+     */
+    public static readonly SENSITIVE_FIELDS = [
+        'password', 'passphrase', 'secret', 'private-key', 'preshared-key', 'psk',
+        'wpa-pre-shared-key', 'wpa2-pre-shared-key', 'eap-password', 'ipsec-secret',
+        'authentication-password', 'encryption-password', 'auth-key', 'tcp-md5-key',
+        'radius-secret', 'token',
+        // `=response=` is the MD5 challenge answer of the legacy login
+        'response'
+    ];
+
+    /**
+     * Field names ending in any of these are sensitive too (e.g. `old-password`, `api-token`).
+     * Whole words only: `passthrough` and `public-key` are not secrets.
+     */
+    public static readonly SENSITIVE_SUFFIXES = ['-password', '-passphrase', '-secret', '-psk', '-token'];
+
+    /** Process-wide instance with the built-in list, used where no client is at hand */
+    public static readonly default = new Redactor();
+
+    /** Scrubbed values shorter than this are left alone (they would mangle unrelated text) */
+    private static readonly MIN_SECRET_LENGTH = 4;
+
+    /** Values too common to scrub from text, whatever field they come from */
+    private static readonly GENERIC_VALUES = ['true', 'false', 'yes', 'no', 'none', 'auto', 'default', 'enabled', 'disabled'];
+
+    private readonly extra: Set<string>;
+
+    constructor(fields: string[] = []) {
+        this.extra = new Set(fields.map(field => field.toLowerCase()));
+    }
+
+    /**
+     * True if the value of this field must be hidden.
+     * Accepts API words prefixes (`=password`, `?secret`).
+     */
+    public isSensitive(key: string): boolean {
+        const cleanKey = key.replace(/^[=?.<>-]+/, '')
+            .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+            .replace(/_/g, '-')
+            .toLowerCase();
+        if (!cleanKey) return false;
+        return Redactor.SENSITIVE_FIELDS.includes(cleanKey) ||
+            this.extra.has(cleanKey) ||
+            Redactor.SENSITIVE_SUFFIXES.some(suffix => cleanKey.endsWith(suffix));
+    }
+
+    /**
+     * Redacts the value of an attribute (`=password=x`) or query (`?secret=x`) word.
+     */
+    public redactWord(word: string): string {
+        const match = /^([=?][<>]?)([^=]+)=(.*)$/s.exec(word);
+        if (!match) return word;
+
+        const [, prefix, key] = match;
+        return this.isSensitive(key) ? `${prefix}${key}=${REDACTED}` : word;
+    }
+
+    /**
+     * Deep copy of params / responses with sensitive values replaced.
+     * @param secrets When given, also scrubbed from every string (e.g. an error `detail` echoing a password).
+     */
+    public redactParams<T>(value: T, secrets?: string[]): T {
+        if (typeof value === 'string' && secrets) return this.redactText(value, secrets) as unknown as T;
+        if (Array.isArray(value)) return value.map(item => this.redactParams(item, secrets)) as unknown as T;
+        if (value === null || typeof value !== 'object' || value instanceof Error) return value;
+
+        const result: Record<string, any> = {};
+        for (const [key, inner] of Object.entries(value)) {
+            if (this.isSensitive(key) && (typeof inner === 'string' || typeof inner === 'number' || typeof inner === 'boolean')) {
+                result[key] = REDACTED;
+            } else if (key === '.query' && Array.isArray(inner)) {
+                result[key] = inner.map(word => this.redactWord(String(word)));
+            } else {
+                result[key] = this.redactParams(inner, secrets);
+            }
+        }
+        return result as T;
+    }
+
+    /**
+     * Scrubs free text: `field=value` / `field: value` pairs of sensitive fields,
+     * and any of the given secret values.
+     */
+    public redactText(text: string, secrets: string[] = []): string {
+        const pair = /(["']?)([\w.?=-]+)\1(\s*[=:]\s*)("[^"]*"|'[^']*'|[^\s,;})\]]+)/g;
+        let result = '';
+        let copied = 0;
+        let match: RegExpExecArray | null;
+        while ((match = pair.exec(text)) !== null) {
+            const [whole, quote, key, separator, value] = match;
+            if (!this.isSensitive(key)) {
+                // Resume at the value: it may hold a pair itself (`failure: password=x`)
+                pair.lastIndex = match.index + whole.length - value.length;
+                continue;
+            }
+            const wrapped = /^["']/.test(value) ? `${value[0]}${REDACTED}${value[0]}` : REDACTED;
+            result += `${text.slice(copied, match.index)}${quote}${key}${quote}${separator}${wrapped}`;
+            copied = match.index + whole.length;
+        }
+        result += text.slice(copied);
+
+        for (const secret of secrets) {
+            if (!Redactor.isScrubbable(secret)) continue;
+            result = result.split(secret).join(REDACTED);
+        }
+        return result;
+    }
+
+    /**
+     * Values of the sensitive fields in a params object (used to scrub echoes of them).
+     */
+    public secretsOf(params?: Record<string, any>): string[] {
+        if (!params) return [];
+        return Object.entries(params)
+            .filter(([key, value]) => this.isSensitive(key) && (typeof value === 'string' || typeof value === 'number'))
+            .map(([, value]) => String(value))
+            .filter(value => Redactor.isScrubbable(value));
+    }
+
+    /**
+     * Long enough and specific enough to be searched for in free text.
+     */
+    private static isScrubbable(secret: string): boolean {
+        return secret.length >= Redactor.MIN_SECRET_LENGTH && !Redactor.GENERIC_VALUES.includes(secret.toLowerCase());
+    }
+
+    /**
+     * Scrubs an error in place (`message`, `detail`, `rawResponse`) and returns it,
+     * so its class (and `instanceof` checks) survive. Meant for errors the client raises itself.
+     * @param params The params of the failed command, whose secret values are removed from the text.
+     */
+    public redactError<E>(error: E, params?: Record<string, any>): E {
+        if (!error || typeof error !== 'object') return error;
+
+        const target = error as unknown as Record<string, unknown>;
+        const secrets = this.secretsOf(params);
+
+        for (const field of ['message', 'detail']) {
+            const text = target[field];
+            if (typeof text === 'string') {
+                const scrubbed = this.redactText(text, secrets);
+                if (scrubbed !== text) Redactor.overwrite(target, field, scrubbed);
+            }
+        }
+
+        if (target.rawResponse !== undefined && target.rawResponse !== null) {
+            Redactor.overwrite(target, 'rawResponse', this.redactParams(target.rawResponse, secrets));
+        }
+        return error;
+    }
+
+    /**
+     * Scrubbed copy of an error (same class and fields), leaving the caller's error untouched.
+     * Used for log output.
+     */
+    public redactedCopy<E>(error: E): E {
+        if (!error || typeof error !== 'object') return error;
+        const copy = Object.create(Object.getPrototypeOf(error), Object.getOwnPropertyDescriptors(error)) as E;
+        return this.redactError(copy);
+    }
+
+    /**
+     * Assigns a (possibly readonly) field of an error.
+     */
+    private static overwrite(target: Record<string, unknown>, field: string, value: unknown): void {
+        try {
+            target[field] = value;
+        } catch {
+            Object.defineProperty(target, field, { value, writable: true, configurable: true });
+        }
+    }
+}
@@ -0,0 +1,97 @@
+import { test, describe, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Cassette, CassetteMismatchError } from './ReplayTransport';
+import { REDACTED } from './Redactor';
+import { RosTrapError } from './RosError';
+import { MikrotikClient, MikrotikOptions } from '../client/MikrotikClient';
+import { MockRouterServer } from '../testing/MockRouterServer';
+
+describe('Cassette', () => {
+    test('redacted values match anything, others must be equal', () => {
+        assert.equal(Cassette.valueMatches(REDACTED, 'whatever'), true);
+        assert.equal(Cassette.valueMatches({ name: 'a', password: REDACTED }, { name: 'a', password: 'x' }), true);
+        assert.equal(Cassette.valueMatches({ name: 'a' }, { name: 'b' }), false);
+        assert.equal(Cassette.valueMatches({ name: 'a' }, { name: 'a', extra: '1' }), false);
+    });
+});
+
+describe('Record and replay', () => {
+    let dir: string;
+    let file: string;
+    const mock = new MockRouterServer();
+    let options: MikrotikOptions;
+
+    // The session under test: a read, a write and a refused command
+    const session = async (client: MikrotikClient) => {
+        const before = await client.write('/ip/address/print');
+        await client.write('/ip/address/add', { address: '10.1.1.1/24', interface: 'ether1' });
+        const error = await client.write('/system/reboot').catch(e => e);
+        const after = await client.write('/ip/address/print');
+        return { before, error, after };
+    };
+
+    before(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cassette-'));
+        file = path.join(dir, 'session.ndjson');
+        await mock.start();
+        mock.store.seed('/ip/address', [{ address: '10.0.0.1/24', interface: 'ether1' }]);
+        mock.injectTrap({ command: '/system/reboot', message: 'not enough permissions (9)' });
+        // Recorders and players are closed by the tests (a cassette is written on close)
+        options = mock.clientOptions({ protocol: 'socket' });
+    });
+
+    after(async () => {
+        fs.rmSync(dir, { recursive: true, force: true });
+        await mock.stop();
+    });
+
+    test('a replayed session returns what was recorded, without a router', async () => {
+        const recorder = new MikrotikClient({ ...options, cassette: { mode: 'record', path: file } });
+        await recorder.connect();
+        const recorded = await session(recorder);
+        recorder.close();
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        const player = new MikrotikClient({ ...options, port: 1, cassette: { mode: 'replay', path: file } });
+        await player.connect();
+        const replayed = await session(player);
+        player.close();
+
+        assert.deepEqual(replayed.before, recorded.before);
+        assert.deepEqual(replayed.after, recorded.after);
+        assert.ok(replayed.error instanceof RosTrapError);
+        assert.equal(replayed.error.message, recorded.error.message);
+    });
+
+    test('a different command fails with CassetteMismatchError', async () => {
+        const player = new MikrotikClient({ ...options, cassette: { mode: 'replay', path: file } });
+        await player.connect();
+        try {
+            await assert.rejects(player.write('/ip/route/print'), CassetteMismatchError);
+        } finally {
+            player.close();
+        }
+    });
+
+    test('an unrecorded stream reports the mismatch, even with reconnect enabled', async () => {
+        const player = new MikrotikClient({ ...options, reconnect: true, cassette: { mode: 'replay', path: file } });
+        await player.connect();
+        try {
+            const error = await new Promise<Error>(resolve => {
+                player.stream('/interface/listen', undefined, () => undefined, { onError: resolve });
+            });
+            assert.ok(error instanceof CassetteMismatchError);
+        } finally {
+            player.close();
+        }
+    });
+
+    test('unsupported cassette versions fail loudly', () => {
+        const old = path.join(dir, 'old.ndjson');
+        fs.writeFileSync(old, JSON.stringify({ type: 'header', version: 0, createdAt: new Date().toISOString() }) + '\n');
+        assert.throws(() => new MikrotikClient({ ...options, cassette: { mode: 'replay', path: old } }), /unsupported version/);
+    });
+});
@@ -0,0 +1,314 @@
+import * as fs from 'fs';
+import { SocketClient } from './SocketClient';
+import { RestProtocol, ICommandOptions } from './RestProtocol';
+import { RosProtocol } from './RosProtocol';
+import { RosError, RosTimeoutError, RosAbortError } from './RosError';
+import {
+    CASSETTE_VERSION,
+    REDACTED,
+    CassetteHeader,
+    CassetteEntry,
+    CassetteSentence,
+    CassetteWord,
+    CassetteRest
+} from './TrafficRecorder';
+
+/**
+ * Raised when the application diverges from the recorded session:
+ * a different command, different parameters, or more commands than the cassette holds.
+ */
+export class CassetteMismatchError extends Error {
+    constructor(
+        message: string,
+        /** What the cassette expected next (undefined when the cassette is exhausted) */
+        public readonly expected?: string[],
+        /** What the application actually sent */
+        public readonly actual?: string[]
+    ) {
+        super(message);
+        this.name = 'CassetteMismatchError';
+        Object.setPrototypeOf(this, CassetteMismatchError.prototype);
+    }
+}
+
+/**
+ * Cassette
+ * * Parsed NDJSON recording, split into the socket track and the REST track.
+ * * The tracks are replayed independently: in hybrid mode the REST calls and the
+ * socket streams interleave differently on every run.
+ */
+export class Cassette {
+    public readonly header: CassetteHeader;
+    public readonly socketTrack: (CassetteSentence | CassetteWord)[] = [];
+    public readonly restTrack: CassetteRest[] = [];
+
+    constructor(public readonly path: string) {
+        const lines = fs.readFileSync(path, 'utf8').split('\n').filter(line => line.trim().length > 0);
+        if (lines.length === 0) {
+            throw new Error(`Cassette: '${path}' is empty.`);
+        }
+
+        const header = JSON.parse(lines[0]);
+        if (header.type !== 'header' || header.version !== CASSETTE_VERSION) {
+            throw new Error(`Cassette: '${path}' has unsupported version ${header.version} (expected ${CASSETTE_VERSION}).`);
+        }
+        this.header = header;
+
+        for (const line of lines.slice(1)) {
+            const entry = JSON.parse(line) as CassetteEntry;
+            if (entry.type === 'rest') this.restTrack.push(entry);
+            else this.socketTrack.push(entry);
+        }
+    }
+
+    /**
+     * True if a recorded value accepts the live one (redacted values match anything).
+     */
+    public static valueMatches(recorded: any, live: any): boolean {
+        if (recorded === REDACTED) return true;
+        if (recorded === null || typeof recorded !== 'object') {
+            return String(recorded) === String(live);
+        }
+        if (live === null || typeof live !== 'object') return false;
+
+        const recordedKeys = Object.keys(recorded);
+        if (recordedKeys.length !== Object.keys(live).length) return false;
+        return recordedKeys.every(key => Cassette.valueMatches(recorded[key], live[key]));
+    }
+}
+
+/**
+ * ReplaySocket
+ * * Drop-in replacement for SocketClient that never touches the network.
+ * * Every sentence written by the client is compared with the next recorded one;
+ * the router replies recorded after it are then emitted as 'data' words.
+ * * Tags are random per run, so recorded tags are remapped to the live ones.
+ */
+export class ReplaySocket extends SocketClient {
+    private cursor = 0;
+    private outgoing: string[] = [];
+    private partial: Buffer = Buffer.alloc(0);
+    private timers = new Set<NodeJS.Timeout>();
+
+    /** Recorded tag -> live tag */
+    private tagMap = new Map<string, string>();
+
+    constructor(private readonly cassette: Cassette, private readonly realtime: boolean = false) {
+        super({ host: cassette.header.host || 'replay', port: 0 });
+    }
+
+    public connect(): Promise<void> {
+        this.connected = true;
+        this.emit('connect');
+        return Promise.resolve();
+    }
+
+    /**
+     * Receives encoded words and checks every complete sentence against the cassette.
+     * @throws CassetteMismatchError when the application sends something that was not recorded.
+     */
+    public write(data: Buffer): void {
+        if (!this.connected) {
+            throw new Error('Socket is not connected. Call connect() first.');
+        }
+
+        this.partial = Buffer.concat([this.partial, data]);
+
+        while (this.partial.length > 0) {
+            const lengthInfo = RosProtocol.decodeLength(this.partial);
+            if (!lengthInfo) break;
+
+            const total = lengthInfo.byteLength + lengthInfo.length;
+            if (this.partial.length < total) break;
+
+            const word = this.partial.slice(lengthInfo.byteLength, total).toString('utf8');
+            this.partial = this.partial.slice(total);
+
+            if (word.length > 0) {
+                this.outgoing.push(word);
+                continue;
+            }
+
+            const sentence = this.outgoing;
+            this.outgoing = [];
+            this.playSentence(sentence);
+        }
+    }
+
+    public close(): void {
+        this.stopReplay();
+        if (this.connected) {
+            this.connected = false;
+            this.emit('close', false);
+        }
+    }
+
+    public destroy(): void {
+        this.close();
+    }
+
+    /**
+     * True once every recorded entry has been consumed.
+     */
+    public get finished(): boolean {
+        return this.cursor >= this.cassette.socketTrack.length;
+    }
+
+    private playSentence(live: string[]): void {
+        const expected = this.cassette.socketTrack[this.cursor] as CassetteSentence | undefined;
+        if (!expected) {
+            throw new CassetteMismatchError(
+                `Cassette exhausted: unexpected command ${live[0]} (${this.cassette.path})`,
+                undefined,
+                live
+            );
+        }
+
+        if (!this.sentenceMatches(expected.words, live)) {
+            throw new CassetteMismatchError(
+                `Cassette mismatch at entry ${this.cursor + 1}: expected [${expected.words.join(' ')}], got [${live.join(' ')}]`,
+                expected.words,
+                live
+            );
+        }
+
+        this.cursor++;
+        this.flushIncoming(expected.t);
+    }
+
+    /**
+     * Compares words ignoring tags (they are remapped) and redacted values.
+     * Records the tag mapping on success.
+     */
+    private sentenceMatches(recorded: string[], live: string[]): boolean {
+        const recordedTag = this.extractTag(recorded);
+        const liveTag = this.extractTag(live);
+        const strip = (words: string[]) => words.filter(w => !w.startsWith('.tag='));
+
+        const a = strip(recorded);
+        const b = strip(live);
+        if (a.length !== b.length) return false;
+
+        const matches = a.every((word, i) => {
+            const liveWord = b[i];
+            // `/cancel =tag=` refers to a previous command
+            if (word.startsWith('=tag=') && liveWord.startsWith('=tag=')) {
+                return this.tagMap.get(word.substring(5)) === liveWord.substring(5);
+            }
+            const separator = word.indexOf('=', 1);
+            if (separator !== -1 && word.substring(separator + 1) === REDACTED) {
+                return liveWord.startsWith(word.substring(0, separator + 1));
+            }
+            return word === liveWord;
+        });
+
+        if (matches && recordedTag && liveTag) this.tagMap.set(recordedTag, liveTag);
+        return matches;
+    }
+
+    /**
+     * Schedules the recorded router words up to the next outgoing sentence.
+     * Delivery is asynchronous, like a real socket; `realtime` keeps the recorded gaps.
+     */
+    private flushIncoming(anchor: number): void {
+        const track = this.cassette.socketTrack;
+
+        while (this.cursor < track.length && track[this.cursor].type === 'word') {
+            const entry = track[this.cursor++] as CassetteWord;
+            const word = this.remapIncoming(entry.word);
+            const delay = this.realtime ? Math.max(0, entry.t - anchor) : 0;
+
+            const timer = setTimeout(() => {
+                this.timers.delete(timer);
+                if (this.connected) this.emit('data', word);
+            }, delay);
+            this.timers.add(timer);
+        }
+    }
+
+    private remapIncoming(word: string): string {
+        if (!word.startsWith('.tag=')) return word;
+        const live = this.tagMap.get(word.substring(5));
+        return live ? `.tag=${live}` : word;
+    }
+
+    private extractTag(words: string[]): string | undefined {
+        const tagWord = words.find(w => w.startsWith('.tag='));
+        return tagWord ? tagWord.substring(5) : undefined;
+    }
+
+    private stopReplay(): void {
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+    }
+}
+
+/**
+ * ReplayRest
+ * * Drop-in replacement for RestProtocol that answers from the cassette.
+ * * Recorded failures are re-thrown with their original type (RosError, RosTimeoutError, ...).
+ */
+export class ReplayRest extends RestProtocol {
+    private cursor = 0;
+
+    constructor(private readonly cassette: Cassette, private readonly realtime: boolean = false) {
+        super({ host: cassette.header.host || 'replay', user: '', pass: '' });
+    }
+
+    /**
+     * @throws CassetteMismatchError when the request differs from the recorded one.
+     */
+    public async command(cmd: string, params: Record<string, any> = {}, options?: ICommandOptions): Promise<any> {
+        const entry = this.cassette.restTrack[this.cursor];
+
+        if (!entry) {
+            throw new CassetteMismatchError(
+                `Cassette exhausted: unexpected REST command ${cmd} (${this.cassette.path})`,
+                undefined,
+                [cmd, JSON.stringify(params)]
+            );
+        }
+
+        if (entry.command !== cmd || !Cassette.valueMatches(entry.params, params)) {
+            throw new CassetteMismatchError(
+                `Cassette mismatch at REST entry ${this.cursor + 1}: expected ${entry.command} ${JSON.stringify(entry.params)}, got ${cmd} ${JSON.stringify(params)}`,
+                [entry.command, JSON.stringify(entry.params)],
+                [cmd, JSON.stringify(params)]
+            );
+        }
+
+        this.cursor++;
+
+        if (this.realtime && entry.duration > 0) {
+            await new Promise(resolve => setTimeout(resolve, entry.duration));
+        }
+        if (options?.signal?.aborted) {
+            throw new RosAbortError(cmd, options.signal.reason);
+        }
+
+        if (entry.error) throw this.reviveError(cmd, entry.error);
+        return entry.response ?? null;
+    }
+
+    /**
+     * True once every recorded REST exchange has been consumed.
+     */
+    public get finished(): boolean {
+        return this.cursor >= this.cassette.restTrack.length;
+    }
+
+    private reviveError(cmd: string, error: NonNullable<CassetteRest['error']>): Error {
+        if (error.name === 'RosTimeoutError') {
+            const ms = Number(/(\d+)ms/.exec(error.detail || '')?.[1] || 0);
+            return new RosTimeoutError(cmd, ms);
+        }
+        if (error.name === 'RosAbortError') return new RosAbortError(cmd);
+        if (error.status !== undefined) {
+            return new RosError(error.status, error.detail || error.message, cmd, error.rawResponse);
+        }
+
+        const revived = new Error(error.message);
+        revived.name = error.name;
+        return revived;
+    }
+}
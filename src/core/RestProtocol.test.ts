@@ -0,0 +1,50 @@
+import { test, describe, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as net from 'net';
+import { RestProtocol } from './RestProtocol';
+import { RosAbortError, RosTimeoutError } from './RosError';
+
+describe('REST deadlines and cancellation', () => {
+    // Accepts connections and never answers: every request hangs until its deadline
+    const sockets = new Set<net.Socket>();
+    const server = net.createServer(socket => {
+        sockets.add(socket);
+        socket.on('close', () => sockets.delete(socket));
+    });
+    let rest: RestProtocol;
+
+    before(async () => {
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        rest = new RestProtocol({ host: '127.0.0.1', port: (server.address() as net.AddressInfo).port, user: 'admin', pass: '', timeout: 5000 });
+    });
+
+    after(async () => {
+        rest.close();
+        sockets.forEach(socket => socket.destroy());
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    test('timeoutMs overrides the default timeout', async () => {
+        await assert.rejects(rest.command('/ip/address/print', {}, { timeoutMs: 50 }), (error: RosTimeoutError) => {
+            assert.ok(error instanceof RosTimeoutError);
+            assert.equal(error.timeoutMs, 50);
+            assert.equal(error.isRetryable, true);
+            return true;
+        });
+    });
+
+    test('aborting rejects with RosAbortError and its reason', async () => {
+        const controller = new AbortController();
+        setTimeout(() => controller.abort('user left'), 20);
+
+        await assert.rejects(rest.command('/ip/address/print', {}, { signal: controller.signal }), (error: RosAbortError) => {
+            assert.ok(error instanceof RosAbortError);
+            assert.equal(error.reason, 'user left');
+            return true;
+        });
+    });
+
+    test('an already aborted signal fails right away', async () => {
+        await assert.rejects(rest.command('/ip/address/print', {}, { signal: AbortSignal.abort() }), RosAbortError);
+    });
+});
@@ -1,5 +1,6 @@
-import {RosError} from './RosError';
+import {RosError, RosTimeoutError, RosAbortError} from './RosError';
 import { Agent, Dispatcher } from 'undici';
+import {TrafficRecorder} from './TrafficRecorder';
 
 export interface IRestOptions {
     host: string;
@@ -8,11 +9,17 @@ export interface IRestOptions {
     port?: number;
     timeout?: number;
     insecure?: boolean;
+    /** Captures every request/response into a cassette (see MikrotikOptions.cassette) */
+    recorder?: TrafficRecorder;
 }
 
 export interface ICommandOptions {
     idempotent?: boolean;
     idempotencyKey?: string;
+    /** Overrides the default request timeout (ms) for this call */
+    timeoutMs?: number;
+    /** Caller-controlled cancellation */
+    signal?: AbortSignal;
 }
 
 export class RestProtocol {
@@ -20,11 +27,13 @@ export class RestProtocol {
     private readonly authHeader: string;
     private readonly dispatcher: Dispatcher;
     private readonly timeout: number;
+    private readonly recorder?: TrafficRecorder;
 
     constructor(options: IRestOptions) {
         const port = options.port || 443;
         this.baseUrl = `https://${options.host}:${port}/rest`;
         this.timeout = options.timeout || 10000;
+        this.recorder = options.recorder;
         this.authHeader = 'Basic ' + Buffer.from(`${options.user}:${options.pass}`).toString('base64');
 
         this.dispatcher = new Agent({
@@ -51,6 +60,20 @@ export class RestProtocol {
     }
 
     public async command(cmd: string, params: Record<string, any> = {}, options?: ICommandOptions): Promise<any> {
+        if (!this.recorder) return this.execute(cmd, params, options);
+
+        const startTime = Date.now();
+        try {
+            const response = await this.execute(cmd, params, options);
+            this.recorder.recordRest(cmd, params, startTime, {response});
+            return response;
+        } catch (error) {
+            this.recorder.recordRest(cmd, params, startTime, {error});
+            throw error;
+        }
+    }
+
+    private async execute(cmd: string, params: Record<string, any>, options?: ICommandOptions): Promise<any> {
         const {method, url, body} = this.translateToRest(cmd, params);
 
         const fetchOptions: any = {
@@ -60,7 +83,7 @@ export class RestProtocol {
                 'Content-Type': 'application/json'
             },
             dispatcher: this.dispatcher,
-            signal: AbortSignal.timeout(this.timeout)
+            signal: this.buildSignal(options)
         };
 
         if (method !== 'GET' && method !== 'HEAD') {
@@ -77,7 +100,7 @@ export class RestProtocol {
                 if (options?.idempotent && rosError.isDuplicate) {
                     const keyField = options.idempotencyKey || 'name';
                     if (body && body[keyField]) {
-                        return await this.recoverExistingItem(url, keyField, body[keyField]);
+                        return await this.recoverExistingItem(url, keyField, body[keyField], options);
                     }
                 }
 
@@ -93,6 +116,13 @@ export class RestProtocol {
 
         } catch (error: any) {
             if (error instanceof RosError) throw error;
+            // Caller cancellation wins over the timeout (the signal may carry a custom reason)
+            if (options?.signal?.aborted) {
+                throw new RosAbortError(cmd, options.signal.reason);
+            }
+            if (error.name === 'TimeoutError') {
+                throw new RosTimeoutError(cmd, options?.timeoutMs ?? this.timeout);
+            }
             if (error.cause?.code === 'ECONNREFUSED') {
                 throw new Error(`RestProtocol: Connection refused at ${this.baseUrl}. Is the /rest service enabled?`);
             }
@@ -100,14 +130,19 @@ export class RestProtocol {
         }
     }
 
-    private async recoverExistingItem(resourceBaseUrl: string, keyField: string, value: string): Promise<any> {
+    private async recoverExistingItem(
+        resourceBaseUrl: string,
+        keyField: string,
+        value: string,
+        options?: ICommandOptions
+    ): Promise<any> {
         const searchUrl = `${resourceBaseUrl}?${keyField}=${encodeURIComponent(value)}`;
 
         const fetchOptions: any = {
             method: 'GET',
             headers: {'Authorization': this.authHeader},
             dispatcher: this.dispatcher,
-            signal: AbortSignal.timeout(this.timeout)
+            signal: this.buildSignal(options)
         };
 
         const response = await fetch(searchUrl, fetchOptions);
@@ -122,6 +157,25 @@ export class RestProtocol {
         throw new Error(`Idempotency Failed: Item with ${keyField}='${value}' exists but could not be retrieved.`);
     }
 
+    /**
+     * Combines the per-call timeout with the caller's AbortSignal (if any).
+     * Whichever fires first aborts the underlying fetch.
+     */
+    private buildSignal(options?: ICommandOptions): AbortSignal {
+        const timeoutSignal = AbortSignal.timeout(options?.timeoutMs ?? this.timeout);
+        if (!options?.signal) return timeoutSignal;
+
+        const controller = new AbortController();
+        for (const source of [options.signal, timeoutSignal]) {
+            if (source.aborted) {
+                controller.abort(source.reason);
+                break;
+            }
+            source.addEventListener('abort', () => controller.abort(source.reason), {once: true});
+        }
+        return controller.signal;
+    }
+
     /**
      * Translates CLI commands to REST API logic according to Mikrotik v7 Docs.
      * Mappings:
@@ -146,8 +200,11 @@ export class RestProtocol {
                 for (const [key, value] of Object.entries(params)) {
                     if (key === '.proplist') {
                         newBody['.proplist'] = Array.isArray(value) ? value : String(value).split(',');
+                    } else if (key === '.query' && Array.isArray(value)) {
+                        // Compiled query stack (QueryBuilder): REST words carry no '?' prefix
+                        queryStack.push(...value.map((word: string) => word.replace(/^\?/, '')));
                     } else {
-                        queryStack.push(`${key}=${value}`);
+                        queryStack.push(`${key.replace(/^\?/, '')}=${value}`);
                     }
                 }
 
@@ -0,0 +1,69 @@
+import { test, describe, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { RosError, RosTrapError, RosFatalError, RosTimeoutError, RosTrapCategory } from './RosError';
+import { MikrotikClient } from '../client/MikrotikClient';
+import { MockRouterServer } from '../testing/MockRouterServer';
+
+describe('RosError taxonomy', () => {
+    test('trap categories map onto the REST statuses', () => {
+        assert.equal(new RosTrapError('no such item', '/ip/address/remove', RosTrapCategory.MISSING_ITEM).isNotFound, true);
+        assert.equal(new RosTrapError('failure: already have such address', '/ip/address/add', RosTrapCategory.ARGUMENT_FAILURE).isDuplicate, true);
+        assert.equal(new RosTrapError('busy', '/tool/fetch', RosTrapCategory.INTERRUPTED).isRetryable, true);
+        assert.equal(new RosTrapError('failure', '/system/script/run').status, 400);
+    });
+
+    test('interruptions are detected by category or message', () => {
+        assert.equal(new RosTrapError('busy', '/tool/ping', RosTrapCategory.INTERRUPTED).isInterrupted, true);
+        assert.equal(new RosTrapError('interrupted', '/tool/ping').isInterrupted, true);
+        assert.equal(new RosTrapError('failure', '/tool/ping', RosTrapCategory.GENERAL_FAILURE).isInterrupted, false);
+    });
+
+    test('subclasses stay RosErrors with their own flags', () => {
+        const fatal = new RosFatalError('session terminated on request');
+        const timeout = new RosTimeoutError('/ip/address/print', 100);
+
+        assert.ok(fatal instanceof RosError);
+        assert.equal(fatal.isFatal, true);
+        assert.equal(new RosTrapError('x', '/a').isFatal, false);
+        assert.ok(timeout instanceof RosError);
+        assert.equal(timeout.isRetryable, true);
+        assert.match(new RosTrapError('bad value', '/ip/address/add', RosTrapCategory.ARGUMENT_FAILURE).message, /!trap \[argument_failure\]/);
+    });
+});
+
+describe('Errors raised by the socket API', () => {
+    const mock = new MockRouterServer();
+    let client: MikrotikClient;
+
+    before(async () => {
+        await mock.start();
+        client = mock.client();
+        await client.connect();
+    });
+
+    after(async () => {
+        await mock.stop();
+    });
+
+    test('a !trap carries its category', async () => {
+        mock.injectTrap({ command: '/ip/address/add', message: 'failure: already have such address', category: RosTrapCategory.ARGUMENT_FAILURE });
+
+        await assert.rejects(client.write('/ip/address/add', { address: '10.0.0.1/24', interface: 'ether1' }), (error: RosTrapError) => {
+            assert.ok(error instanceof RosTrapError);
+            assert.equal(error.category, RosTrapCategory.ARGUMENT_FAILURE);
+            assert.equal(error.isDuplicate, true);
+            assert.equal(error.command, '/ip/address/add');
+            return true;
+        });
+    });
+
+    test('a !fatal fails the pending command and drops the session', async () => {
+        await assert.rejects(client.write('/quit'), (error: RosFatalError) => {
+            assert.ok(error instanceof RosFatalError);
+            assert.equal(error.isFatal, true);
+            assert.match(error.detail, /session terminated/);
+            return true;
+        });
+        assert.equal(client.isConnected, false);
+    });
+});
@@ -8,10 +8,41 @@
  * - JSON serialization support.
  */
 import { RosHttpStatus, RosHttpMessages } from './HttpConstants';
+import { Redactor } from './Redactor';
+
+/**
+ * `category` attribute of a socket API `!trap` reply.
+ */
+export enum RosTrapCategory {
+    MISSING_ITEM = 0,       // Missing item or command
+    ARGUMENT_FAILURE = 1,   // Argument value failure
+    INTERRUPTED = 2,        // Execution of command interrupted
+    SCRIPT_FAILURE = 3,     // Scripting related failure
+    GENERAL_FAILURE = 4,    // General failure
+    API_FAILURE = 5,        // API related failure
+    TTY_FAILURE = 6,        // TTY related failure
+    RETURN_VALUE = 7        // Value generated with :return command
+}
+
+/**
+ * Maps trap categories onto the HTTP statuses the REST API uses for the same failures,
+ * so `isNotFound`, `isDuplicate` and `isRetryable` mean the same thing on both protocols.
+ */
+const TRAP_CATEGORY_STATUS: Record<number, number> = {
+    [RosTrapCategory.MISSING_ITEM]: RosHttpStatus.NOT_FOUND,
+    [RosTrapCategory.ARGUMENT_FAILURE]: RosHttpStatus.BAD_REQUEST,
+    [RosTrapCategory.INTERRUPTED]: RosHttpStatus.SERVICE_UNAVAILABLE,
+    [RosTrapCategory.SCRIPT_FAILURE]: RosHttpStatus.INTERNAL_SERVER_ERROR,
+    [RosTrapCategory.GENERAL_FAILURE]: RosHttpStatus.BAD_REQUEST,
+    [RosTrapCategory.API_FAILURE]: RosHttpStatus.INTERNAL_SERVER_ERROR,
+    [RosTrapCategory.TTY_FAILURE]: RosHttpStatus.INTERNAL_SERVER_ERROR,
+    [RosTrapCategory.RETURN_VALUE]: RosHttpStatus.BAD_REQUEST
+};
 
 export class RosError extends Error {
     public readonly isRosError = true;
     public readonly timestamp: Date;
+    private readonly redactor?: Redactor;
 
     constructor(
         public readonly status: number,
@@ -62,6 +93,16 @@ export class RosError extends Error {
         return this.status === RosHttpStatus.TOO_MANY_REQUESTS;
     }
 
+    /** The command was interrupted on the router (socket trap category 2) */
+    get isInterrupted(): boolean {
+        return false;
+    }
+
+    /** The router terminated the whole session (`!fatal`) */
+    get isFatal(): boolean {
+        return false;
+    }
+
     /** True if the error is likely temporary (503, 429, etc) */
     get isRetryable(): boolean {
         // We import the logic from HttpConstants to keep it DRY
@@ -99,18 +140,101 @@ export class RosError extends Error {
         return new RosError(status, detail, command, rawBody);
     }
 
+    /**
+     * Redactor of the client that raised the error (built-ins plus its `redact` option), used by `toJSON()`.
+     * @internal
+     */
+    public redactWith(redactor: Redactor): this {
+        // Not enumerable: stays out of util.inspect() and spreads of the error
+        Object.defineProperty(this, 'redactor', { value: redactor, writable: true, configurable: true });
+        return this;
+    }
+
     /**
      * Custom generic JSON representation for logging systems (DataDog, Sentry, etc.)
+     * Sensitive values (passwords, secrets, keys) are redacted.
      */
     public toJSON() {
+        const redactor = this.redactor ?? Redactor.default;
         return {
             errorType: 'RosError',
             status: this.status,
-            message: this.message,
-            detail: this.detail,
+            message: redactor.redactText(this.message),
+            detail: redactor.redactText(this.detail),
             command: this.command,
             isRetryable: this.isRetryable,
-            timestamp: this.timestamp
+            timestamp: this.timestamp,
+            rawResponse: this.rawResponse !== undefined && this.rawResponse !== null
+                ? redactor.redactParams(this.rawResponse, [])
+                : undefined
         };
     }
-}
\ No newline at end of file
+}
+/**
+ * Raised when a command does not complete within its `timeoutMs` deadline.
+ * Mapped to 504 (Gateway Timeout) so `isRetryable` stays consistent with the REST semantics.
+ */
+export class RosTimeoutError extends RosError {
+    public readonly isTimeout = true;
+
+    constructor(command: string, public readonly timeoutMs: number) {
+        super(RosHttpStatus.GATEWAY_TIMEOUT, `Command did not complete within ${timeoutMs}ms`, command);
+        this.name = 'RosTimeoutError';
+        Object.setPrototypeOf(this, RosTimeoutError.prototype);
+    }
+}
+
+/**
+ * Raised when the caller cancels a command through its `AbortSignal`.
+ * Carries the signal's `reason` for diagnostics.
+ */
+export class RosAbortError extends RosError {
+    public readonly isAborted = true;
+
+    constructor(command: string, public readonly reason?: any) {
+        super(0, 'Command aborted by caller', command);
+        this.name = 'RosAbortError';
+        this.message = `Command aborted by caller (${command})`;
+        Object.setPrototypeOf(this, RosAbortError.prototype);
+    }
+}
+
+/**
+ * Raised when the socket API answers a command with `!trap`.
+ * The trap `category` is mapped onto the REST status of the same failure,
+ * so the `RosError` predicates work regardless of the protocol.
+ */
+export class RosTrapError extends RosError {
+    constructor(detail: string, command: string, public readonly category?: RosTrapCategory) {
+        super(
+            category !== undefined ? (TRAP_CATEGORY_STATUS[category] ?? RosHttpStatus.BAD_REQUEST) : RosHttpStatus.BAD_REQUEST,
+            detail,
+            command
+        );
+        this.name = 'RosTrapError';
+        const label = category !== undefined ? (RosTrapCategory[category] || String(category)).toLowerCase() : 'trap';
+        this.message = `RouterOS !trap [${label}] (${command}) -> ${detail}`;
+        Object.setPrototypeOf(this, RosTrapError.prototype);
+    }
+
+    get isInterrupted(): boolean {
+        return this.category === RosTrapCategory.INTERRUPTED || this.detail.toLowerCase().includes('interrupted');
+    }
+}
+
+/**
+ * Raised when the router sends `!fatal` (session killed, too many sessions, not logged in...).
+ * The session is torn down: every pending command fails with this error.
+ */
+export class RosFatalError extends RosError {
+    constructor(detail: string) {
+        super(RosHttpStatus.SERVICE_UNAVAILABLE, detail, '!fatal');
+        this.name = 'RosFatalError';
+        this.message = `RouterOS !fatal -> ${detail}`;
+        Object.setPrototypeOf(this, RosFatalError.prototype);
+    }
+
+    get isFatal(): boolean {
+        return true;
+    }
+}
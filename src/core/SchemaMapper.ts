@@ -35,9 +35,8 @@ export class SchemaMapper {
     public async load(client: MikrotikClient): Promise<void> {
         try {
             // 1. Fetch vital system information
-            // We use the raw command to avoid circular dependency logic here
-            const resourceCollection = await client.command('/system/resource').print();
-            const resource = resourceCollection.first();
+            // probe() reads outside the user's policy and middlewares: discovery is the library's own business
+            const [resource] = await client.probe('/system/resource/print');
 
             if (resource) {
                 this.version = resource.version || '0.0.0';
@@ -50,21 +49,21 @@ export class SchemaMapper {
             // 2. Detect installed packages (to determine if WiFi/IoT/Container features exist)
             // Wrapped in try-catch because read-only users might not have permission to view packages.
             try {
-                const packages = await client.command('/system/package').print();
-                this.hasWireless = packages.filter(p =>
+                const packages = await client.probe('/system/package/print');
+                this.hasWireless = packages.some(p =>
                     p.name === 'wireless' || p.name === 'wifiwave2' || p.name === 'wifi'
-                ).count() > 0;
+                );
             } catch (e) {
-                console.warn('[SchemaMapper] Warning: Could not scan packages (Permission denied?). Defaulting features to false.');
+                client.logger.warn('SchemaMapper: Could not scan packages (Permission denied?). Defaulting features to false.', { path: '/system/package', error: e });
             }
 
             // 3. Build the Smart Path Map based on the detected version
             this.buildPathMap();
 
-            console.log(`Schema Loaded: RouterOS v${this.version} (${this.architecture}) on ${this.boardName}`);
+            client.logger.info(`Schema Loaded: RouterOS v${this.version} (${this.architecture}) on ${this.boardName}`);
 
         } catch (error) {
-            console.error('Schema Discovery Failed:', error);
+            client.logger.error('SchemaMapper: Schema discovery failed. Assuming RouterOS v6.', { error });
             // Fallback: Assume v6 if detection fails to prevent crashes
             this.majorVersion = 6;
             this.buildPathMap();
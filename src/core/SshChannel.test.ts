@@ -0,0 +1,90 @@
+import { test, describe, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { Server, utils } from 'ssh2';
+import { SshChannel } from './SshChannel';
+import { RosTimeoutError } from './RosError';
+import { PolicyViolationError } from './PolicyGuard';
+import { MikrotikClient, MikrotikOptions } from '../client/MikrotikClient';
+import { noopLogger } from './Logger';
+
+describe('SSH transport', () => {
+    const { privateKey } = crypto.generateKeyPairSync('rsa', {
+        modulusLength: 2048,
+        privateKeyEncoding: { type: 'pkcs1', format: 'pem' },
+        publicKeyEncoding: { type: 'spki', format: 'pem' }
+    });
+    const parsed = utils.parseKey(privateKey);
+    const hostKey = SshChannel.fingerprint((Array.isArray(parsed) ? parsed[0] : parsed as any).getPublicSSH());
+
+    let server: Server;
+    let port: number;
+    const clients: MikrotikClient[] = [];
+
+    const client = (extra: Partial<MikrotikOptions> = {}) => {
+        const instance = new MikrotikClient({
+            host: '127.0.0.1', port: 1, user: 'admin', password: 'pw', allowInsecureConfig: true, logger: noopLogger,
+            ...extra,
+            ssh: { port, ...extra.ssh }
+        });
+        clients.push(instance);
+        return instance;
+    };
+
+    before(async () => {
+        server = new Server({ hostKeys: [privateKey] }, connection => {
+            connection.on('error', () => {}); // clients refusing the host key hang up mid-handshake
+            connection.on('authentication', ctx => {
+                if (ctx.method === 'password' && ctx.username === 'admin' && ctx.password === 'pw') ctx.accept();
+                else ctx.reject(['password']);
+            });
+            connection.on('ready', () => {
+                connection.on('session', accept => {
+                    accept().on('exec', (acceptExec, _reject, info) => {
+                        const stream = acceptExec();
+                        if (info.command === '/tool/sniffer/quick') return; // never finishes
+                        stream.write(`# ${info.command}\n/ip address add address=10.0.0.1/24\n`);
+                        stream.stderr.write('warning\n');
+                        stream.exit(0);
+                        stream.end();
+                    });
+                });
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+        port = (server.address() as AddressInfo).port;
+    });
+
+    after(() => {
+        clients.forEach(instance => instance.close());
+        server.close();
+    });
+
+    test('runs CLI commands with the API credentials', async () => {
+        const result = await client().ssh.exec('/export terse');
+        assert.equal(result.code, 0);
+        assert.match(result.stdout, /^# \/export terse\n/);
+        assert.equal(result.stderr, 'warning\n');
+    });
+
+    test('accepts a pinned host key and refuses another one', async () => {
+        const pinned = await client({ ssh: { hostKey } }).ssh.exec('/export');
+        assert.equal(pinned.code, 0);
+
+        await assert.rejects(
+            client({ ssh: { hostKey: 'SHA256:AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA' } }).ssh.exec('/export'),
+            /Host key mismatch/
+        );
+    });
+
+    test('a command past its deadline rejects with RosTimeoutError', async () => {
+        await assert.rejects(client().ssh.exec('/tool/sniffer/quick', { timeoutMs: 50 }), RosTimeoutError);
+    });
+
+    test('restrictive policies refuse SSH before connecting', async () => {
+        const restricted = client({ policy: 'read-only' });
+        await assert.rejects(restricted.ssh.exec('/export'), PolicyViolationError);
+        assert.equal(restricted.ssh.isConnected, false);
+    });
+});
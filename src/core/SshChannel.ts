@@ -0,0 +1,222 @@
+import * as crypto from 'crypto';
+import { Client, ConnectConfig } from 'ssh2';
+import { RateLimiter } from './RateLimiter';
+import { CircuitBreaker } from './CircuitBreaker';
+import { RosTimeoutError, RosAbortError } from './RosError';
+import { PolicyGuard } from './PolicyGuard';
+
+/**
+ * SSH transport configuration.
+ * Host and credentials are inherited from the MikrotikClient unless overridden here.
+ */
+export interface SshOptions {
+    /** SSH port (Default: 22) */
+    port?: number;
+    /** Overrides the API user (Default: the client's `user`) */
+    username?: string;
+    /** Private key (PEM/OpenSSH) for key-based auth. When set, the password is only used as a fallback. */
+    privateKey?: string | Buffer;
+    /** Passphrase of an encrypted private key */
+    passphrase?: string;
+    /**
+     * Host-key pinning. The SHA256 fingerprint as printed by `ssh-keygen -lf`
+     * (e.g. `SHA256:nThbg6kXUpJWGl7E1IGOCspRomTxdCARLviKw6E5SY8`).
+     * The connection is refused when the router presents a different key.
+     * Default: undefined (any host key is accepted)
+     */
+    hostKey?: string;
+    /** Handshake timeout in ms (Default: 10000ms) */
+    readyTimeout?: number;
+}
+
+/**
+ * Structured output of a CLI command.
+ */
+export interface SshExecResult {
+    stdout: string;
+    stderr: string;
+    /** Exit code reported by the router (null if the channel closed without one) */
+    code: number | null;
+    /** Signal that terminated the command, if any */
+    signal: string | null;
+}
+
+export interface SshExecOptions {
+    /** Maximum time (ms) to wait for the command to finish. Rejects with `RosTimeoutError`. */
+    timeoutMs?: number;
+    /** Caller-controlled cancellation. Rejects with `RosAbortError`. */
+    signal?: AbortSignal;
+}
+
+/**
+ * SshChannel
+ * * CLI transport for operations that are awkward or impossible over the API
+ * (full `/export` to stdout, `/system/script run` output, interactive tools).
+ * * Connects lazily on the first `exec()` and keeps the session open for the next ones.
+ * * Every command goes through the same RateLimiter and CircuitBreaker as the API paths.
+ */
+export class SshChannel {
+    private connection: Client | null = null;
+    private connecting: Promise<Client> | null = null;
+
+    constructor(
+        private readonly host: string,
+        private readonly credentials: { username: string; password?: string },
+        private readonly options: SshOptions,
+        private readonly rateLimiter: RateLimiter,
+        private readonly breaker: CircuitBreaker,
+        private readonly policy?: PolicyGuard
+    ) {}
+
+    /**
+     * Runs a CLI command and collects its output.
+     *
+     * @example
+     * const { stdout } = await client.ssh.exec('/export terse');
+     * fs.writeFileSync('backup.rsc', stdout);
+     */
+    public async exec(command: string, options: SshExecOptions = {}): Promise<SshExecResult> {
+        // CLI text cannot be matched against path rules: restrictive policies refuse SSH altogether
+        this.policy?.checkCli(command);
+
+        return this.breaker.execute(async () => {
+            await this.rateLimiter.acquire();
+
+            if (options.signal?.aborted) {
+                throw new RosAbortError(command, options.signal.reason);
+            }
+
+            const connection = await this.ensureConnected();
+            const startTime = Date.now();
+
+            const result = await new Promise<SshExecResult>((resolve, reject) => {
+                connection.exec(command, (err, stream) => {
+                    if (err) return reject(err);
+
+                    const stdout: Buffer[] = [];
+                    const stderr: Buffer[] = [];
+                    let code: number | null = null;
+                    let signal: string | null = null;
+                    let timer: NodeJS.Timeout | null = null;
+
+                    const cleanup = () => {
+                        if (timer) clearTimeout(timer);
+                        options.signal?.removeEventListener('abort', onAbort);
+                    };
+
+                    const fail = (error: Error) => {
+                        cleanup();
+                        stream.close();
+                        reject(error);
+                    };
+
+                    const onAbort = () => fail(new RosAbortError(command, options.signal?.reason));
+
+                    if (options.timeoutMs !== undefined) {
+                        timer = setTimeout(() => fail(new RosTimeoutError(command, options.timeoutMs!)), options.timeoutMs);
+                    }
+                    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+                    stream.on('data', (chunk: Buffer) => stdout.push(chunk));
+                    stream.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+                    stream.on('exit', (exitCode: number | null, exitSignal?: string) => {
+                        code = exitCode ?? null;
+                        signal = exitSignal ?? null;
+                    });
+                    stream.on('close', () => {
+                        cleanup();
+                        resolve({
+                            stdout: Buffer.concat(stdout).toString('utf8'),
+                            stderr: Buffer.concat(stderr).toString('utf8'),
+                            code,
+                            signal
+                        });
+                    });
+                });
+            });
+
+            this.rateLimiter.submitFeedback(Date.now() - startTime);
+            return result;
+        });
+    }
+
+    /**
+     * True while an SSH session is open.
+     */
+    public get isConnected(): boolean {
+        return this.connection !== null;
+    }
+
+    /**
+     * Closes the SSH session (a later `exec()` opens a new one).
+     */
+    public close(): void {
+        if (this.connection) {
+            this.connection.end();
+            this.connection = null;
+        }
+        this.connecting = null;
+    }
+
+    /**
+     * Computes the OpenSSH-style SHA256 fingerprint of a raw host key.
+     */
+    public static fingerprint(key: Buffer): string {
+        const digest = crypto.createHash('sha256').update(key).digest('base64');
+        return 'SHA256:' + digest.replace(/=+$/, '');
+    }
+
+    private ensureConnected(): Promise<Client> {
+        if (this.connection) return Promise.resolve(this.connection);
+        if (this.connecting) return this.connecting;
+
+        this.connecting = new Promise<Client>((resolve, reject) => {
+            const client = new Client();
+            let presentedKey: string | null = null;
+
+            const config: ConnectConfig = {
+                host: this.host,
+                port: this.options.port || 22,
+                username: this.options.username || this.credentials.username,
+                password: this.credentials.password,
+                privateKey: this.options.privateKey,
+                passphrase: this.options.passphrase,
+                readyTimeout: this.options.readyTimeout || 10000
+            };
+
+            if (this.options.hostKey) {
+                const expected = this.options.hostKey.replace(/^SHA256:/, '').replace(/=+$/, '');
+                config.hostVerifier = (key: Buffer) => {
+                    presentedKey = SshChannel.fingerprint(key);
+                    return presentedKey === `SHA256:${expected}`;
+                };
+            }
+
+            client.once('ready', () => {
+                this.connection = client;
+                this.connecting = null;
+                resolve(client);
+            });
+
+            client.on('error', (err: Error) => {
+                this.connection = null;
+                this.connecting = null;
+
+                if (presentedKey && this.options.hostKey && err.message.includes('verification failed')) {
+                    return reject(new Error(
+                        `SshChannel: Host key mismatch for ${this.host}. Expected ${this.options.hostKey}, got ${presentedKey}.`
+                    ));
+                }
+                reject(err);
+            });
+
+            client.on('close', () => {
+                if (this.connection === client) this.connection = null;
+            });
+
+            client.connect(config);
+        });
+
+        return this.connecting;
+    }
+}
@@ -0,0 +1,123 @@
+import { test, describe, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { StreamIterator, StreamOverflowError } from './StreamIterator';
+import { MikrotikClient } from '../client/MikrotikClient';
+import { MockRouterServer } from '../testing/MockRouterServer';
+
+describe('StreamIterator', () => {
+    test('drains the buffer before ending', async () => {
+        const iterator = new StreamIterator<number>((push, _fail, end) => {
+            [1, 2, 3].forEach(push);
+            end();
+            return { stop: async () => {} };
+        });
+
+        const seen: number[] = [];
+        for await (const value of iterator) seen.push(value);
+        assert.deepEqual(seen, [1, 2, 3]);
+    });
+
+    test('throws a failure after the buffered packets', async () => {
+        const iterator = new StreamIterator<number>((push, fail) => {
+            push(1);
+            fail(new Error('trap'));
+            return { stop: async () => {} };
+        });
+
+        const seen: number[] = [];
+        await assert.rejects(async () => {
+            for await (const value of iterator) seen.push(value);
+        }, /trap/);
+        assert.deepEqual(seen, [1]);
+    });
+
+    test("overflow 'error' stops the stream", async () => {
+        let stopped = false;
+        const iterator = new StreamIterator<number>(push => {
+            setImmediate(() => [1, 2, 3, 4].forEach(push));
+            return { stop: async () => { stopped = true; } };
+        }, { bufferSize: 2, overflow: 'error' });
+
+        await assert.rejects(async () => {
+            for await (const _value of iterator) { /* drain */ }
+        }, StreamOverflowError);
+        assert.equal(stopped, true);
+    });
+
+    test("overflow 'drop-oldest' keeps the latest packets", async () => {
+        const iterator = new StreamIterator<number>((push, _fail, end) => {
+            [1, 2, 3, 4].forEach(push);
+            end();
+            return { stop: async () => {} };
+        }, { bufferSize: 2 });
+
+        const seen: number[] = [];
+        for await (const value of iterator) seen.push(value);
+        assert.deepEqual(seen, [3, 4]);
+        assert.equal(iterator.dropped, 2);
+    });
+});
+
+describe('Iterating router streams', () => {
+    const mock = new MockRouterServer();
+    let client: MikrotikClient;
+
+    before(async () => {
+        await mock.start();
+        mock.store.seed('/ip/address', [
+            { address: '10.0.0.1/24', interface: 'ether1' },
+            { address: '10.0.1.1/24', interface: 'ether2' }
+        ]);
+        client = mock.client();
+        await client.connect();
+    });
+
+    after(async () => {
+        await mock.stop();
+    });
+
+    test('a finite stream ends the loop', async () => {
+        const rows: any[] = [];
+        for await (const row of client.iterate('/ip/address/print')) rows.push(row);
+        assert.deepEqual(rows.map(row => row.address), ['10.0.0.1/24', '10.0.1.1/24']);
+    });
+
+    test('a monitor run once ends the loop', async () => {
+        mock.handle('/interface/monitor-traffic', params => [{ name: params['interface'], 'rx-bits-per-second': '1000' }]);
+        const rows: any[] = [];
+        for await (const row of client.command('/interface').where('interface', 'ether1').iterateMonitor()) rows.push(row);
+        assert.equal(rows.length, 1);
+        assert.equal(rows[0].name, 'ether1');
+    });
+
+    test('leaving the loop cancels a follow stream', async () => {
+        const cancels: string[] = [];
+        const onCommand = (record: { command: string }) => {
+            if (record.command === '/cancel') cancels.push(record.command);
+        };
+        mock.on('command', onCommand);
+
+        for await (const row of client.command('/ip/address').iterate()) {
+            assert.ok(row.address);
+            break;
+        }
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        mock.off('command', onCommand);
+        assert.equal(cancels.length, 1);
+    });
+
+    test('a collection is its own Observable', async () => {
+        const sub = client.collection('/ip/address').onSnapshot();
+        assert.equal(sub['@@observable'](), sub);
+
+        let completed = false;
+        const first = new Promise<any[]>(resolve => {
+            sub.subscribe({ next: rows => resolve(rows as any[]), complete: () => { completed = true; } });
+        });
+        assert.equal((await first).length, 2);
+
+        sub.stop();
+        assert.equal(completed, true);
+    });
+});
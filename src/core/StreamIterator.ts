@@ -0,0 +1,154 @@
+/**
+ * What happens when packets arrive faster than the loop consumes them.
+ * * 'drop-oldest': the oldest buffered packet is discarded (the loop sees the latest data).
+ * * 'drop-newest': the incoming packet is discarded (the loop sees a gap-free prefix).
+ * * 'error': the stream is stopped and the loop throws `StreamOverflowError` once the buffer is drained.
+ */
+export type OverflowPolicy = 'drop-oldest' | 'drop-newest' | 'error';
+
+export interface IteratorOptions {
+    /** Packets kept while the loop is busy (Default: 1000) */
+    bufferSize?: number;
+    /** Default: 'drop-oldest' */
+    overflow?: OverflowPolicy;
+}
+
+/**
+ * Raised by an iterator with `overflow: 'error'` whose buffer filled up.
+ */
+export class StreamOverflowError extends Error {
+    constructor(public readonly bufferSize: number) {
+        super(`StreamIterator: Buffer of ${bufferSize} packets overflowed, the consumer is too slow.`);
+        this.name = 'StreamOverflowError';
+        Object.setPrototypeOf(this, StreamOverflowError.prototype);
+    }
+}
+
+/**
+ * StreamIterator
+ * * Async iterator over a live stream (`client.iterate()`, `CommandBuilder.iterate()`),
+ * with a bounded buffer between the socket and the loop.
+ * * Leaving the loop (`break`, `return`, an exception) stops the stream, which sends `/cancel` for its tag.
+ * * Stream failures (traps, deadlines, aborts) are thrown by the loop after the buffered packets.
+ * * A stream the router finishes by itself (a `print` without `follow`) ends the loop once the buffer is drained.
+ *
+ * @example
+ * for await (const entry of client.command('/log').iterate({ bufferSize: 100 })) {
+ * if (entry.topics.includes('critical')) break; // cancels the stream
+ * }
+ */
+export class StreamIterator<T> implements AsyncIterableIterator<T> {
+    private readonly buffer: T[] = [];
+    private readonly waiters: Array<{ resolve: (result: IteratorResult<T>) => void; reject: (error: Error) => void }> = [];
+    private readonly bufferSize: number;
+    private readonly overflow: OverflowPolicy;
+    private readonly subscription: { stop: () => Promise<void> };
+
+    private failure: Error | null = null;
+    private finished = false;
+    /** The producer completed: the loop ends once the buffer is drained */
+    private ended = false;
+    private droppedCount = 0;
+
+    /**
+     * @param subscribe Starts the stream with the iterator's push/fail/end functions and returns its handle.
+     * @param options Buffer size and overflow policy.
+     */
+    constructor(
+        subscribe: (push: (item: T) => void, fail: (error: Error) => void, end: () => void) => { stop: () => Promise<void> },
+        options: IteratorOptions = {}
+    ) {
+        this.bufferSize = Math.max(1, options.bufferSize ?? 1000);
+        this.overflow = options.overflow || 'drop-oldest';
+        this.subscription = subscribe(item => this.push(item), error => this.fail(error), () => this.end());
+    }
+
+    /** Packets discarded by the overflow policy so far */
+    public get dropped(): number {
+        return this.droppedCount;
+    }
+
+    public [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+        return this;
+    }
+
+    public next(): Promise<IteratorResult<T>> {
+        if (this.buffer.length > 0) {
+            return Promise.resolve({ done: false, value: this.buffer.shift()! });
+        }
+        if (this.failure) {
+            const failure = this.failure;
+            this.failure = null;
+            this.finished = true;
+            return Promise.reject(failure);
+        }
+        if (this.finished || this.ended) {
+            return Promise.resolve({ done: true, value: undefined });
+        }
+        return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }));
+    }
+
+    /**
+     * Called when the loop exits early: stops the stream (`/cancel`).
+     */
+    public async return(): Promise<IteratorResult<T>> {
+        this.close();
+        await this.subscription.stop().catch(() => {});
+        return { done: true, value: undefined };
+    }
+
+    private push(item: T): void {
+        if (this.finished || this.ended || this.failure) return;
+
+        const waiter = this.waiters.shift();
+        if (waiter) {
+            waiter.resolve({ done: false, value: item });
+            return;
+        }
+
+        if (this.buffer.length < this.bufferSize) {
+            this.buffer.push(item);
+            return;
+        }
+
+        switch (this.overflow) {
+            case 'drop-oldest':
+                this.buffer.shift();
+                this.buffer.push(item);
+                this.droppedCount++;
+                break;
+            case 'drop-newest':
+                this.droppedCount++;
+                break;
+            case 'error':
+                this.fail(new StreamOverflowError(this.bufferSize));
+                break;
+        }
+    }
+
+    private end(): void {
+        this.ended = true;
+        // Waiting consumers mean an empty buffer: the loop ends now
+        this.waiters.splice(0).forEach(waiter => waiter.resolve({ done: true, value: undefined }));
+    }
+
+    private fail(error: Error): void {
+        if (this.finished || this.ended || this.failure) return;
+        this.subscription?.stop().catch(() => {});
+
+        // Waiting consumers mean an empty buffer: they get the error now
+        const waiter = this.waiters.shift();
+        if (waiter) {
+            this.close();
+            waiter.reject(error);
+            return;
+        }
+        this.failure = error;
+    }
+
+    private close(): void {
+        this.finished = true;
+        this.buffer.length = 0;
+        this.waiters.splice(0).forEach(waiter => waiter.resolve({ done: true, value: undefined }));
+    }
+}
@@ -0,0 +1,215 @@
+import * as fs from 'fs';
+import { Redactor, REDACTED } from './Redactor';
+
+export { REDACTED };
+
+/**
+ * Cassette format version written in the header line.
+ * Bump it whenever the entry layout changes so old cassettes fail loudly instead of replaying wrong.
+ */
+export const CASSETTE_VERSION = 1;
+
+/**
+ * Configuration for recording or replaying router traffic.
+ */
+export interface CassetteOptions {
+    /**
+     * - 'record': Captures every sentence/word/REST exchange into `path`.
+     * - 'replay': Serves the traffic stored in `path` instead of talking to a router.
+     */
+    mode: 'record' | 'replay';
+    /** NDJSON cassette file */
+    path: string;
+    /**
+     * Extra attribute names whose values must never reach the cassette
+     * (added to the client's `redact` list and the built-in `Redactor.SENSITIVE_FIELDS`).
+     */
+    redact?: string[];
+    /**
+     * Replay only: honour the recorded delays between a command and its replies.
+     * Default: false (replies are delivered immediately)
+     */
+    realtime?: boolean;
+}
+
+/**
+ * First line of every cassette.
+ */
+export interface CassetteHeader {
+    type: 'header';
+    version: number;
+    createdAt: string;
+    host?: string;
+    protocol?: string;
+}
+
+/**
+ * A complete sentence sent by the client over the socket API.
+ */
+export interface CassetteSentence {
+    type: 'sentence';
+    /** Milliseconds since the recording started */
+    t: number;
+    dir: 'out';
+    words: string[];
+}
+
+/**
+ * A single word received from the router over the socket API (empty word = end of sentence).
+ */
+export interface CassetteWord {
+    type: 'word';
+    t: number;
+    dir: 'in';
+    word: string;
+}
+
+/**
+ * A REST request and its outcome.
+ */
+export interface CassetteRest {
+    type: 'rest';
+    t: number;
+    /** Round trip time in ms */
+    duration: number;
+    command: string;
+    params: Record<string, any>;
+    /** Parsed response body (absent when the request failed) */
+    response?: any;
+    /** Serialized failure (absent when the request succeeded) */
+    error?: {
+        name: string;
+        message: string;
+        status?: number;
+        detail?: string;
+        rawResponse?: any;
+    };
+}
+
+export type CassetteEntry = CassetteSentence | CassetteWord | CassetteRest;
+
+/**
+ * TrafficRecorder
+ * * Writes router traffic into a versioned NDJSON "cassette" (one JSON object per line).
+ * * Captures outgoing sentences and incoming words from the socket API, and REST exchanges.
+ * * Redacts sensitive values (passwords, secrets, login challenge responses) before they touch the disk.
+ * * The cassette can be fed back with `ReplaySocket` / `ReplayRest` to reproduce a session offline.
+ */
+export class TrafficRecorder {
+    private readonly stream: fs.WriteStream;
+    private readonly startTime = Date.now();
+    private readonly redactor: Redactor;
+
+    /** Sensitive values sent so far, scrubbed from whatever the router echoes back */
+    private readonly secrets = new Set<string>();
+
+    constructor(path: string, redact: string[] | Redactor = [], meta: { host?: string; protocol?: string } = {}) {
+        this.redactor = redact instanceof Redactor ? redact : new Redactor(redact);
+        this.stream = fs.createWriteStream(path, { flags: 'w', encoding: 'utf8' });
+
+        const header: CassetteHeader = {
+            type: 'header',
+            version: CASSETTE_VERSION,
+            createdAt: new Date().toISOString(),
+            ...meta
+        };
+        this.append(header);
+    }
+
+    // ==========================================
+    // SOCKET API
+    // ==========================================
+
+    /**
+     * Records a full outgoing sentence (command, attributes, queries and tag).
+     */
+    public recordSentence(words: string[]): void {
+        for (const word of words) {
+            const match = /^[=?][<>]?([^=]+)=(.+)$/s.exec(word);
+            if (match && this.isSensitive(match[1])) this.secrets.add(match[2]);
+        }
+        this.append({ type: 'sentence', t: this.elapsed(), dir: 'out', words: words.map(w => this.redactWord(w)) });
+    }
+
+    /**
+     * Records one incoming word exactly as SocketClient emitted it.
+     */
+    public recordWord(word: string): void {
+        this.append({ type: 'word', t: this.elapsed(), dir: 'in', word: this.redactor.redactText(this.redactWord(word), [...this.secrets]) });
+    }
+
+    // ==========================================
+    // REST API
+    // ==========================================
+
+    /**
+     * Records a REST call. Pass either the response body or the error it failed with.
+     */
+    public recordRest(
+        command: string,
+        params: Record<string, any>,
+        startTime: number,
+        outcome: { response?: any; error?: any }
+    ): void {
+        this.redactor.secretsOf(params).forEach(secret => this.secrets.add(secret));
+
+        const entry: CassetteRest = {
+            type: 'rest',
+            t: startTime - this.startTime,
+            duration: Date.now() - startTime,
+            command,
+            params: this.redactObject(params)
+        };
+
+        if (outcome.error) {
+            const err = outcome.error;
+            entry.error = {
+                name: err.name || 'Error',
+                message: this.redactor.redactText(err.message || String(err), [...this.secrets]),
+                status: err.status,
+                detail: typeof err.detail === 'string' ? this.redactor.redactText(err.detail, [...this.secrets]) : err.detail,
+                rawResponse: err.rawResponse !== undefined ? this.redactObject(err.rawResponse) : undefined
+            };
+        } else {
+            entry.response = this.redactObject(outcome.response);
+        }
+
+        this.append(entry);
+    }
+
+    /**
+     * Flushes pending lines and closes the file.
+     */
+    public close(): Promise<void> {
+        return new Promise(resolve => {
+            if (this.stream.closed || this.stream.writableEnded) return resolve();
+            this.stream.end(() => resolve());
+        });
+    }
+
+    // ==========================================
+    // REDACTION
+    // ==========================================
+
+    public isSensitive(key: string): boolean {
+        return this.redactor.isSensitive(key);
+    }
+
+    private redactWord(word: string): string {
+        return this.redactor.redactWord(word);
+    }
+
+    private redactObject(value: any): any {
+        return this.redactor.redactParams(value, [...this.secrets]);
+    }
+
+    private elapsed(): number {
+        return Date.now() - this.startTime;
+    }
+
+    private append(entry: CassetteHeader | CassetteEntry): void {
+        // Late words (e.g. the router's goodbye after close()) are dropped
+        if (this.stream.writableEnded) return;
+        this.stream.write(JSON.stringify(entry) + '\n');
+    }
+}
@@ -0,0 +1,88 @@
+import { test, describe, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Codecs, DecodingProfile, MacAddress } from './ValueCodec';
+import { ResultParser } from '../client/ResultParser';
+import { MikrotikClient } from '../client/MikrotikClient';
+import { MockRouterServer } from '../testing/MockRouterServer';
+import { TransactionError } from '../client/MikrotikTransaction';
+
+describe('Codecs', () => {
+    test('durations round-trip through milliseconds', () => {
+        assert.equal(Codecs.duration.decode('1w2d3h4m5s'), ((7 + 2) * 86400 + 3 * 3600 + 4 * 60 + 5) * 1000);
+        assert.equal(Codecs.duration.encode(3600000), '1h');
+        assert.equal(Codecs.duration.decode('30'), 30000);
+    });
+
+    test('rates and pairs', () => {
+        assert.deepEqual(Codecs['rate-pair'].decode('10M/20M'), { tx: 10000000, rx: 20000000 });
+        assert.equal(Codecs.size.decode('1KiB'), 1024);
+    });
+
+    test('mac addresses', () => {
+        const mac = Codecs.mac.decode('aa:bb:cc:dd:ee:ff') as MacAddress;
+        assert.ok(mac.equals(MacAddress.parse('AA-BB-CC-DD-EE-FF')!));
+    });
+});
+
+describe('DecodingProfile', () => {
+    const standard = new DecodingProfile('standard');
+
+    test('path codecs apply to their menu only', () => {
+        assert.equal(standard.decodeField('/ip/firewall/address-list', 'timeout', '1h'), 3600000);
+        assert.equal(standard.decodeField('/ip/hotspot/user', 'timeout', '1h'), undefined);
+    });
+
+    test('lossless mode keeps the wire text', () => {
+        const rows = ResultParser.parse([{ name: '0012' }], new DecodingProfile('lossless'));
+        assert.equal(rows[0].name, '0012');
+    });
+
+    test('toRouterFormat encodes decoded fields with their codec', () => {
+        const [row] = ResultParser.parse([{ '.id': '*2', list: 'x', timeout: '1h', disabled: 'false' }], standard, '/ip/firewall/address-list');
+        assert.equal(row.timeout, 3600000);
+        assert.deepEqual(ResultParser.toRouterFormat(row, standard, '/ip/firewall/address-list'), {
+            '.id': '*2', list: 'x', timeout: '1h', disabled: 'false'
+        });
+    });
+});
+
+describe('Decoded rows written back to the router', () => {
+    let mock: MockRouterServer;
+    let client: MikrotikClient;
+    const menu = '/ip/firewall/address-list';
+
+    before(async () => {
+        mock = new MockRouterServer({ seed: { [menu]: [{ list: 'blocked', address: '192.0.2.1', timeout: '1h' }] } });
+        await mock.start();
+        client = mock.client({ decoding: 'standard' });
+        await client.connect();
+    });
+
+    after(async () => {
+        await mock.stop();
+    });
+
+    test('a transaction rollback restores the original duration', async () => {
+        const [item] = mock.store.list(menu);
+        mock.injectTrap({ command: '/ip/firewall/address-list/add', message: 'failure: boom' });
+
+        const tx = client.transaction()
+            .add(`${menu}/set`, { '.id': item['.id'], timeout: '2h' })
+            .add(`${menu}/add`, { list: 'blocked', address: '192.0.2.2' });
+        await assert.rejects(tx.commit(), TransactionError);
+
+        assert.equal(mock.store.get(menu, item['.id'])!.timeout, '1h');
+    });
+
+    test('query values are encoded through the same codecs', async () => {
+        const rows = await client.command(menu).where('timeout', 3600000).print(undefined, { cache: false });
+        assert.deepEqual(rows.toArray().map((row: any) => row.address), ['192.0.2.1']);
+    });
+
+    test('a reconciler plan is empty when the router already matches', async () => {
+        const plan = await client.reconcile(menu, { key: 'address' }).plan([
+            { list: 'blocked', address: '192.0.2.1', timeout: '1h' }
+        ]);
+        assert.deepEqual(plan.operations, []);
+    });
+});
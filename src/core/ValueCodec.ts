@@ -0,0 +1,461 @@
+import { isIP } from 'net';
+import { camelToKebab } from '../utils/Helpers';
+import { PolicyGuard } from './PolicyGuard';
+
+/**
+ * Converts one RouterOS field between its wire text and a JavaScript value.
+ */
+export interface ValueCodec<T = any> {
+    /** Returns `undefined` when the text is not in this format (e.g. 'never', 'unlimited'): the raw value is kept. */
+    decode(raw: string): T | undefined;
+    encode(value: T): string;
+}
+
+/** Name of a built-in codec (see `Codecs`) */
+export type CodecName = 'duration' | 'rate' | 'size' | 'date' | 'mac' | 'ip' | 'number' | 'boolean' | 'string'
+    | 'rate-pair' | 'size-pair' | 'duration-pair' | 'number-pair';
+
+/** Field name (kebab-case or camelCase) -> codec */
+export type FieldCodecs = Record<string, CodecName | ValueCodec>;
+
+/**
+ * A RouterOS `tx/rx` value (e.g. queue `max-limit=10M/20M`): the first half is `tx`, the second `rx`.
+ */
+export interface TxRx<T> {
+    tx: T;
+    rx: T;
+}
+
+/**
+ * A MAC address, normalized to upper-case and colons (`AA:BB:CC:00:11:22`).
+ */
+export class MacAddress {
+    private static readonly PATTERN = /^[0-9a-f]{2}([:-])[0-9a-f]{2}(\1[0-9a-f]{2}){4}$/i;
+
+    public readonly value: string;
+
+    constructor(value: string) {
+        if (!MacAddress.PATTERN.test(value)) throw new TypeError(`Invalid MAC address '${value}'.`);
+        this.value = value.toUpperCase().replace(/-/g, ':');
+    }
+
+    /** Returns `null` instead of throwing */
+    public static parse(value: string): MacAddress | null {
+        return MacAddress.PATTERN.test(value) ? new MacAddress(value) : null;
+    }
+
+    public equals(other: MacAddress | string): boolean {
+        return this.value === (other instanceof MacAddress ? other.value : MacAddress.parse(other)?.value);
+    }
+
+    public toString(): string {
+        return this.value;
+    }
+
+    public toJSON(): string {
+        return this.value;
+    }
+}
+
+/**
+ * An IPv4/IPv6 address, with the prefix length when the field is in CIDR form (`192.168.88.1/24`).
+ */
+export class IpAddress {
+    public readonly address: string;
+    public readonly prefix?: number;
+    public readonly version: 4 | 6;
+
+    constructor(value: string) {
+        const [address, prefix, extra] = value.split('/');
+        const version = isIP(address);
+        const prefixLength = prefix === undefined ? undefined : Number(prefix);
+
+        if (version === 0 || extra !== undefined || (prefix !== undefined && !/^\d+$/.test(prefix)) ||
+            (prefixLength !== undefined && prefixLength > (version === 4 ? 32 : 128))) {
+            throw new TypeError(`Invalid IP address '${value}'.`);
+        }
+
+        this.address = address;
+        this.prefix = prefixLength;
+        this.version = version as 4 | 6;
+    }
+
+    /** Returns `null` instead of throwing */
+    public static parse(value: string): IpAddress | null {
+        try {
+            return new IpAddress(value);
+        } catch {
+            return null;
+        }
+    }
+
+    public toString(): string {
+        return this.prefix === undefined ? this.address : `${this.address}/${this.prefix}`;
+    }
+
+    public toJSON(): string {
+        return this.toString();
+    }
+}
+
+// ==========================================
+// BUILT-IN CODECS
+// ==========================================
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const DURATION_UNITS: Record<string, number> = {
+    w: 604_800_000, d: 86_400_000, h: 3_600_000, m: 60_000, s: 1000, ms: 1, us: 0.001
+};
+
+/**
+ * `1w2d03:04:05`, `1d2h3m4s`, `100ms`, `00:00:05.5` or bare seconds -> milliseconds.
+ * Encoded back in RouterOS unit form (`1w2d3h4m5s`).
+ */
+const duration: ValueCodec<number> = {
+    decode(raw) {
+        const match = /^((?:\d+(?:w|d|h|ms|us|m|s))*)(?:(\d+):(\d{2}):(\d{2})(?:\.(\d+))?)?$/.exec(raw);
+        if (!match || raw === '') {
+            return /^\d+$/.test(raw) ? Number(raw) * 1000 : undefined;
+        }
+
+        const [, units, hours, minutes, seconds, fraction] = match;
+        let total = 0;
+        for (const [, amount, unit] of units.matchAll(/(\d+)(w|d|h|ms|us|m|s)/g)) {
+            total += Number(amount) * DURATION_UNITS[unit];
+        }
+        if (hours !== undefined) {
+            total += Number(hours) * 3_600_000 + Number(minutes) * 60_000 + Number(seconds) * 1000;
+            if (fraction) total += Math.round(Number(`0.${fraction}`) * 1000);
+        }
+        return total;
+    },
+    encode(ms) {
+        if (typeof ms !== 'number') return String(ms);
+        if (ms === 0) return '0s';
+        let rest = Math.round(ms);
+        let text = '';
+        for (const unit of ['w', 'd', 'h', 'm', 's', 'ms']) {
+            const amount = Math.floor(rest / DURATION_UNITS[unit]);
+            if (amount > 0) text += `${amount}${unit}`;
+            rest -= amount * DURATION_UNITS[unit];
+        }
+        return text;
+    }
+};
+
+/**
+ * `10M`, `1.2Mbps`, `512k`, `0` -> bits per second (k = 1000).
+ * Encoded as plain bits per second, which every RouterOS version accepts.
+ */
+const rate: ValueCodec<number> = {
+    decode(raw) {
+        const match = /^(\d+(?:\.\d+)?)\s*([kKMGT]?)(?:bps)?$/.exec(raw);
+        if (!match) return undefined;
+        const factor = { '': 1, k: 1e3, K: 1e3, M: 1e6, G: 1e9, T: 1e12 }[match[2]]!;
+        return Math.round(Number(match[1]) * factor);
+    },
+    encode: bits => String(typeof bits === 'number' ? Math.round(bits) : bits)
+};
+
+/**
+ * `64.0KiB`, `1.5GiB`, `512k`, `4096` -> bytes (binary multiples).
+ * Encoded as plain bytes.
+ */
+const size: ValueCodec<number> = {
+    decode(raw) {
+        const match = /^(\d+(?:\.\d+)?)\s*(B|KiB|MiB|GiB|TiB|k|M|G|T)?$/.exec(raw);
+        if (!match) return undefined;
+        const power = { '': 0, B: 0, KiB: 1, k: 1, MiB: 2, M: 2, GiB: 3, G: 3, TiB: 4, T: 4 }[match[2] || '']!;
+        return Math.round(Number(match[1]) * 1024 ** power);
+    },
+    encode: bytes => String(typeof bytes === 'number' ? Math.round(bytes) : bytes)
+};
+
+/**
+ * `jan/02/2024 10:00:00` (v6), `2024-01-02 10:00:00` (v7) or ISO 8601 -> Date.
+ * RouterOS prints its local clock without an offset: such values are read as UTC.
+ * Encoded in the v7 form (`2024-01-02 10:00:00`, UTC).
+ */
+const date: ValueCodec<Date> = {
+    decode(raw) {
+        const legacy = /^([a-z]{3})\/(\d{2})\/(\d{4})(?: (\d{2}):(\d{2}):(\d{2}))?$/i.exec(raw);
+        if (legacy) {
+            const month = MONTHS.indexOf(legacy[1].toLowerCase());
+            if (month < 0) return undefined;
+            const [, , day, year, hours = '0', minutes = '0', seconds = '0'] = legacy;
+            return new Date(Date.UTC(Number(year), month, Number(day), Number(hours), Number(minutes), Number(seconds)));
+        }
+
+        const iso = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2})(\.\d+)?)?)?(Z|[+-]\d{2}:?\d{2})?$/.exec(raw);
+        if (!iso) return undefined;
+        const [, year, month, day, hours = '00', minutes = '00', seconds = '00', fraction = '', zone = 'Z'] = iso;
+        const parsed = new Date(`${year}-${month}-${day}T${hours}:${minutes}:${seconds}${fraction}${zone}`);
+        return isNaN(parsed.getTime()) ? undefined : parsed;
+    },
+    encode: value => (value instanceof Date ? value.toISOString().substring(0, 19).replace('T', ' ') : String(value))
+};
+
+const mac: ValueCodec<MacAddress> = {
+    decode: raw => MacAddress.parse(raw) ?? undefined,
+    encode: value => String(value)
+};
+
+const ip: ValueCodec<IpAddress> = {
+    decode: raw => IpAddress.parse(raw) ?? undefined,
+    encode: value => String(value)
+};
+
+const number: ValueCodec<number> = {
+    decode: raw => (raw.trim() !== '' && isFinite(Number(raw)) ? Number(raw) : undefined),
+    encode: value => String(value)
+};
+
+const boolean: ValueCodec<boolean> = {
+    decode: raw => ({ true: true, yes: true, false: false, no: false } as Record<string, boolean>)[raw],
+    encode: value => (value ? 'yes' : 'no')
+};
+
+const string: ValueCodec<string> = {
+    decode: raw => raw,
+    encode: value => value
+};
+
+/**
+ * `tx/rx` pair of another codec (`10M/20M` -> `{ tx: 10000000, rx: 20000000 }`).
+ */
+function pair<T>(inner: ValueCodec<T>): ValueCodec<TxRx<T>> {
+    return {
+        decode(raw) {
+            const halves = raw.split('/');
+            if (halves.length !== 2) return undefined;
+            const tx = inner.decode(halves[0]);
+            const rx = inner.decode(halves[1]);
+            return tx === undefined || rx === undefined ? undefined : { tx, rx };
+        },
+        encode: value => (value && typeof value === 'object' ? `${inner.encode(value.tx)}/${inner.encode(value.rx)}` : String(value))
+    };
+}
+
+/**
+ * Built-in codecs, usable by name in a decoding profile or directly.
+ * @example Codecs.duration.decode('1w2d03:04:05'); // 788645000
+ */
+export const Codecs = {
+    duration,
+    rate,
+    size,
+    date,
+    mac,
+    ip,
+    number,
+    boolean,
+    string,
+    pair,
+    'rate-pair': pair(rate),
+    'size-pair': pair(size),
+    'duration-pair': pair(duration),
+    'number-pair': pair(number)
+};
+
+// ==========================================
+// DECODING PROFILE
+// ==========================================
+
+export interface DecodingOptions {
+    /**
+     * What happens to fields without a codec.
+     * * 'infer': numbers and booleans are converted (socket results only; REST rows stay strings).
+     * * 'lossless': values stay exactly as the router sent them.
+     * Default: 'infer'
+     */
+    mode?: 'infer' | 'lossless';
+    /** Starts from the built-in field map (`DecodingProfile.STANDARD`) */
+    preset?: 'standard';
+    /** Codecs applied to these fields on every menu */
+    fields?: FieldCodecs;
+    /**
+     * Codecs per menu glob (`*` = one segment, `**` = any depth), taking precedence over `fields`.
+     * @example { '/queue/simple': { 'max-limit': 'rate-pair' } }
+     */
+    paths?: Record<string, FieldCodecs>;
+}
+
+/**
+ * DecodingProfile
+ * * Decides how the values of a result are typed (`decoding` option, `client.decoding`):
+ * per-menu and per-field codecs first, then inference or lossless passthrough.
+ * * The same codecs encode values for `CommandBuilder.add()` / `set()`, so a decoded row
+ * (durations in ms, Dates, `MacAddress`, `{ tx, rx }`) can be written back as is.
+ *
+ * @example
+ * const client = new MikrotikClient({ ...config, decoding: {
+ * preset: 'standard',
+ * paths: { '/ip/hotspot/user': { 'limit-uptime': 'duration' } }
+ * }});
+ * const [queue] = await client.command('/queue/simple').print();
+ * queue.maxLimit.rx; // 20000000
+ *
+ * @example
+ * // Keep every value as the router sent it ('0012' stays '0012')
+ * new MikrotikClient({ ...config, decoding: 'lossless' });
+ */
+export class DecodingProfile {
+    /**
+     * Common RouterOS fields with a well-known format.
+     */
+    public static readonly STANDARD: { fields: FieldCodecs, paths: Record<string, FieldCodecs> } = {
+        fields: {
+            'uptime': 'duration',
+            'mac-address': 'mac',
+            'active-mac-address': 'mac',
+            'orig-mac-address': 'mac',
+            'max-limit': 'rate-pair',
+            'limit-at': 'rate-pair',
+            'burst-limit': 'rate-pair',
+            'burst-threshold': 'rate-pair',
+            'burst-time': 'duration-pair',
+            'last-link-up-time': 'date',
+            'last-link-down-time': 'date',
+            'free-memory': 'size',
+            'total-memory': 'size',
+            'free-hdd-space': 'size',
+            'total-hdd-space': 'size'
+        },
+        paths: {
+            '/queue/simple': { 'rate': 'rate-pair', 'bytes': 'number-pair', 'packets': 'number-pair' },
+            '/ip/address': { 'address': 'ip', 'network': 'ip' },
+            '/ipv6/address': { 'address': 'ip' },
+            '/ip/dhcp-server/lease': { 'address': 'ip', 'last-seen': 'duration', 'expires-after': 'duration' },
+            '/ip/firewall/address-list': { 'timeout': 'duration', 'creation-time': 'date' },
+            '/ip/route': { 'dst-address': 'ip' }
+        }
+    };
+
+    /** Instance numbers of custom codecs, for `id` (initialized before `default`) */
+    private static readonly customCodecs = new WeakMap<ValueCodec, number>();
+    private static customCodecCount = 0;
+
+    /** Process-wide instance for callers without a client: plain inference, no codecs */
+    public static readonly default = new DecodingProfile();
+
+    public readonly mode: 'infer' | 'lossless';
+    /** Identity of the configuration: equal for profiles built from the same codecs (read cache keys) */
+    public readonly id: string;
+    private readonly fields: Map<string, ValueCodec>;
+    private readonly paths: Array<[string, Map<string, ValueCodec>]>;
+
+    constructor(options: DecodingOptions | 'standard' | 'lossless' = {}) {
+        const resolved: DecodingOptions = options === 'standard' ? { preset: 'standard' }
+            : options === 'lossless' ? { mode: 'lossless' }
+            : options;
+        const preset = resolved.preset === 'standard' ? DecodingProfile.STANDARD : { fields: {}, paths: {} };
+
+        this.mode = resolved.mode || 'infer';
+        this.fields = DecodingProfile.compile({ ...preset.fields, ...resolved.fields });
+
+        // User paths first: the first matching glob that knows the field wins
+        const paths: Record<string, FieldCodecs> = {};
+        for (const [glob, codecs] of Object.entries(resolved.paths || {})) paths[glob] = codecs;
+        for (const [glob, codecs] of Object.entries(preset.paths)) paths[glob] = { ...codecs, ...paths[glob] };
+        this.paths = Object.entries(paths).map(([glob, codecs]) => [glob, DecodingProfile.compile(codecs)]);
+        this.id = this.isEmpty ? this.mode : `${this.mode}:${JSON.stringify([
+            DecodingProfile.describe(this.fields),
+            this.paths.map(([glob, codecs]) => [glob, DecodingProfile.describe(codecs)])
+        ])}`;
+    }
+
+    /** True when no field has a codec */
+    public get isEmpty(): boolean {
+        return this.fields.size === 0 && this.paths.length === 0;
+    }
+
+    /**
+     * Codec configured for a field of a menu, if any.
+     * @param menu Menu path without the verb (e.g. `/queue/simple`).
+     * @param field Wire (`max-limit`, `.id`) or camelCase (`maxLimit`) name.
+     */
+    public codecFor(menu: string, field: string): ValueCodec | undefined {
+        const key = DecodingProfile.normalize(field);
+        for (const [glob, codecs] of this.paths) {
+            if (codecs.has(key) && PolicyGuard.matchPath(glob, menu)) return codecs.get(key);
+        }
+        return this.fields.get(key);
+    }
+
+    /**
+     * Decodes a field with its codec. `undefined` when it has none or the text does not fit it.
+     */
+    public decodeField(menu: string, field: string, raw: string): any {
+        if (typeof raw !== 'string') return undefined;
+        return this.codecFor(menu, field)?.decode(raw);
+    }
+
+    /**
+     * Applies the field codecs to raw rows (REST), keeping their keys.
+     */
+    public decodeRows(menu: string, rows: any[]): any[] {
+        if (this.isEmpty) return rows;
+        return rows.map(row => {
+            if (!row || typeof row !== 'object') return row;
+            const result: Record<string, any> = { ...row };
+            for (const [key, value] of Object.entries(row)) {
+                const decoded = this.decodeField(menu, key, value as string);
+                if (decoded !== undefined) result[key] = decoded;
+            }
+            return result;
+        });
+    }
+
+    /**
+     * Converts a value to wire text: with the field's codec if it has one,
+     * otherwise from its JS type (Date, `MacAddress`, `IpAddress`, `{ tx, rx }`, booleans as yes/no).
+     */
+    public encode(menu: string, field: string, value: any): string {
+        const codec = this.codecFor(menu, field);
+        if (codec && value !== null && value !== undefined && typeof value !== 'string') {
+            return codec.encode(value);
+        }
+        return DecodingProfile.encodeValue(value);
+    }
+
+    /**
+     * Wire text of a value from its JS type alone.
+     */
+    public static encodeValue(value: any): string {
+        if (typeof value === 'boolean') return value ? 'yes' : 'no';
+        if (value instanceof Date) return date.encode(value);
+        if (value && typeof value === 'object' && 'tx' in value && 'rx' in value) {
+            return `${DecodingProfile.encodeValue(value.tx)}/${DecodingProfile.encodeValue(value.rx)}`;
+        }
+        return String(value);
+    }
+
+    private static compile(codecs: FieldCodecs): Map<string, ValueCodec> {
+        const compiled = new Map<string, ValueCodec>();
+        for (const [field, codec] of Object.entries(codecs)) {
+            const resolved = typeof codec === 'string' ? Codecs[codec] : codec;
+            if (!resolved || typeof resolved === 'function') throw new TypeError(`Unknown codec '${String(codec)}' for field '${field}'.`);
+            compiled.set(DecodingProfile.normalize(field), resolved as ValueCodec);
+        }
+        return compiled;
+    }
+
+    /** Field -> codec name (built-ins) or instance number (custom codecs) */
+    private static describe(codecs: Map<string, ValueCodec>): Array<[string, string]> {
+        return Array.from(codecs.entries(), ([field, codec]) => {
+            const name = Object.keys(Codecs).find(key => (Codecs as Record<string, unknown>)[key] === codec);
+            if (name) return [field, name];
+            if (!DecodingProfile.customCodecs.has(codec)) {
+                DecodingProfile.customCodecs.set(codec, ++DecodingProfile.customCodecCount);
+            }
+            return [field, `#${DecodingProfile.customCodecs.get(codec)}`];
+        });
+    }
+
+
+    /** `maxLimit`, `max-limit` and `=max-limit` all map to `max-limit` */
+    private static normalize(field: string): string {
+        return camelToKebab(field.replace(/^[=.]+/, ''));
+    }
+}
@@ -72,7 +72,7 @@ export class FileManager {
             const file = await this.client.command('/file').where('name', name).first();
             if (file) {
                 await this.client.command('/file').remove(file['.id']);
-                console.log(`[FileManager] Deleted: ${name}`);
+                this.client.logger.info(`FileManager: Deleted ${name}.`, { path: '/file' });
             }
         }
     }
@@ -89,7 +89,7 @@ export class FileManager {
      */
     public async writeText(fileName: string, content: string): Promise<void> {
         if (content.length > 1024 * 1024) { // 1MB Guard
-            console.warn(`[FileManager] Warning: Uploading ${content.length} bytes via API is risky.`);
+            this.client.logger.warn(`FileManager: Uploading ${content.length} bytes via API is risky.`, { path: '/file' });
         }
 
         const exists = await this.exists(fileName);
@@ -111,7 +111,7 @@ export class FileManager {
             'contents': content
         });
 
-        console.log(`[FileManager] Saved: ${fileName}`);
+        this.client.logger.info(`FileManager: Saved ${fileName}.`, { path: '/file' });
     }
 
     /**
@@ -149,7 +149,7 @@ export class FileManager {
         const params: any = { name: name };
         if (password) params.password = password;
 
-        console.log(`[FileManager] Creating system backup: ${fullName}...`);
+        this.client.logger.info(`FileManager: Creating system backup ${fullName}.`, { path: '/system/backup/save' });
 
         await this.client.write('/system/backup/save', params);
         return fullName;
@@ -160,7 +160,7 @@ export class FileManager {
      * DANGER: This will reboot the router.
      */
     public async restoreSystemBackup(name: string, password?: string): Promise<void> {
-        console.warn(`[FileManager] RESTORING BACKUP ${name}. ROUTER WILL REBOOT.`);
+        this.client.logger.warn(`FileManager: RESTORING BACKUP ${name}. ROUTER WILL REBOOT.`, { path: '/system/backup/load' });
 
         const params: any = { name: name };
         if (password) params.password = password;
@@ -174,7 +174,7 @@ export class FileManager {
      */
     public async createExport(name: string): Promise<string> {
         const fullName = name.endsWith('.rsc') ? name : `${name}.rsc`;
-        console.log(`[FileManager] Exporting config to ${fullName}...`);
+        this.client.logger.info(`FileManager: Exporting config to ${fullName}.`, { path: '/export' });
 
         // /export file=name
         await this.client.write('/export', { file: name });
@@ -191,12 +191,12 @@ export class FileManager {
             await this.writeText(scriptName, content);
 
             // Execute (/import)
-            console.log(`[FileManager] Executing script: ${scriptName}...`);
+            this.client.logger.info(`FileManager: Executing script ${scriptName}.`, { path: '/import' });
             await this.client.write('/import', { 'file-name': scriptName });
 
-            console.log(`[FileManager] Script executed successfully.`);
+            this.client.logger.info('FileManager: Script executed successfully.', { path: '/import' });
         } catch (error) {
-            console.error(`[FileManager] Script execution failed:`, error);
+            this.client.logger.error(`FileManager: Script ${scriptName} failed.`, { path: '/import', error });
             throw error;
         } finally {
             // Cleanup (Optional: remove script after run)
@@ -0,0 +1,139 @@
+import { test, describe, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Inventory, InventoryError, TargetExpression } from './Inventory';
+import { MikrotikSwarm } from '../client/MikrotikSwarm';
+import { MockRouterServer } from '../testing/MockRouterServer';
+import { Logger } from '../core/Logger';
+
+describe('Inventory', () => {
+    let dir: string;
+
+    before(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'inventory-'));
+        fs.writeFileSync(path.join(dir, 'core.pass'), 's3cret\n');
+        fs.writeFileSync(path.join(dir, 'id_ed25519'), 'PRIVATE KEY');
+        process.env.INVENTORY_TEST_PASS = 'from-env';
+    });
+
+    after(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+        delete process.env.INVENTORY_TEST_PASS;
+    });
+
+    test('merges defaults, groups and node settings in order', () => {
+        const inventory = new Inventory(Inventory.parse(`
+defaults:
+  protocol: rest
+  timeout: 5
+  credentials: { user: noc, passwordFile: core.pass }
+  tags: [managed]
+groups:
+  core:
+    protocol: socket
+    tags: [v7]
+nodes:
+  core-1: { host: 10.0.0.1, groups: [core], timeout: 20 }
+  edge-1: { host: 10.0.1.1, credentials: { passwordEnv: INVENTORY_TEST_PASS } }
+`), dir);
+
+        const [core, edge] = inventory.resolve();
+        assert.equal(core.options.protocol, 'socket');
+        assert.equal(core.options.timeout, 20);
+        assert.equal(core.options.user, 'noc');
+        assert.equal(core.options.password, 's3cret');
+        assert.deepEqual(core.labels, { groups: ['core'], tags: ['managed', 'v7'] });
+
+        assert.equal(edge.options.protocol, 'rest');
+        assert.equal(edge.options.password, 'from-env');
+        assert.equal(edge.options.credentialsFromReference, true);
+        assert.equal(edge.options.allowInsecureConfig, undefined);
+        assert.equal('port' in edge.options, false);
+    });
+
+    test('ssh keys and passphrases are references too', () => {
+        const inventory = new Inventory({
+            defaults: { ssh: { port: 2222, privateKeyFile: 'id_ed25519' } },
+            nodes: { r1: { host: '10.0.0.1', ssh: { passphraseEnv: 'INVENTORY_TEST_PASS' } } }
+        }, dir);
+
+        const [node] = inventory.resolve();
+        assert.deepEqual(node.options.ssh, { port: 2222, privateKey: 'PRIVATE KEY', passphrase: 'from-env' });
+    });
+
+    test('rejects inline secrets', () => {
+        assert.throws(() => new Inventory({ nodes: { r1: { host: '10.0.0.1', password: 'x' } as any } }), InventoryError);
+        assert.throws(() => new Inventory({ nodes: { r1: { host: '10.0.0.1', credentials: { password: 'x' } as any } } }), InventoryError);
+        assert.throws(() => new Inventory({ defaults: { ssh: { privateKey: 'KEY' } as any }, nodes: {} }), /ssh.privateKey/);
+        assert.throws(() => new Inventory({ nodes: { r1: { host: '10.0.0.1', ssh: { passphrase: 'x' } as any } } }), /ssh.passphrase/);
+    });
+
+    test('reports every unresolved node at once', () => {
+        const inventory = new Inventory({
+            nodes: {
+                r1: { host: '10.0.0.1', groups: ['missing'] },
+                r2: { host: '10.0.0.2', credentials: { passwordEnv: 'INVENTORY_TEST_UNSET' } },
+                r3: { credentials: { passwordFile: 'nope.pass' } }
+            }
+        }, dir);
+
+        assert.throws(() => inventory.resolve(), (error: InventoryError) => {
+            assert.equal(error.problems.length, 4);
+            return true;
+        });
+    });
+});
+
+describe('TargetExpression', () => {
+    const labels = { groups: ['core'], tags: ['v7', 'lab'] };
+
+    test('combines selectors with precedence and parentheses', () => {
+        assert.equal(TargetExpression.parse('group:core && tag:v7').matches('core-1', labels), true);
+        assert.equal(TargetExpression.parse('group:core && !tag:lab').matches('core-1', labels), false);
+        assert.equal(TargetExpression.parse('id:edge-* || group:core && tag:v6').matches('edge-3', {}), true);
+        assert.equal(TargetExpression.parse('(id:edge-* || group:core) && tag:v6').matches('edge-3', {}), false);
+        assert.equal(TargetExpression.parse('*').matches('anything'), true);
+    });
+
+    test('rejects malformed expressions', () => {
+        assert.throws(() => TargetExpression.parse('group:core &&'), InventoryError);
+        assert.throws(() => TargetExpression.parse('(group:core'), InventoryError);
+        assert.throws(() => TargetExpression.parse('site:north'), InventoryError);
+    });
+});
+
+describe('Swarm from an inventory', () => {
+    test('connects nodes without the hardcoded credentials warning', async () => {
+        const mock = new MockRouterServer();
+        const address = await mock.start();
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'inventory-'));
+        const file = path.join(dir, 'fleet.yaml');
+        fs.writeFileSync(file, `
+defaults:
+  credentials: { user: admin, passwordEnv: INVENTORY_TEST_EMPTY }
+nodes:
+  r1: { host: ${address.host}, port: ${address.port} }
+`);
+        process.env.INVENTORY_TEST_EMPTY = '';
+        process.env.MIKROTIK_HOST = '192.0.2.1';
+
+        const warnings: string[] = [];
+        const logger: Logger = { debug: () => {}, info: () => {}, warn: message => warnings.push(message), error: message => warnings.push(message) };
+
+        try {
+            const swarm = await MikrotikSwarm.fromInventory(file, { logger });
+            await swarm.connectAll();
+
+            assert.equal(swarm.getNode('r1')?.isConnected, true);
+            assert.deepEqual(warnings, []);
+            swarm.closeAll();
+        } finally {
+            delete process.env.INVENTORY_TEST_EMPTY;
+            delete process.env.MIKROTIK_HOST;
+            fs.rmSync(dir, { recursive: true, force: true });
+            await mock.stop();
+        }
+    });
+});
@@ -0,0 +1,342 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { MikrotikOptions } from '../client/MikrotikClient';
+import { SshOptions } from '../core/SshChannel';
+
+/**
+ * Where a node's username and password come from. Secrets are never written in the inventory itself.
+ */
+export interface InventoryCredentials {
+    /** Username (not a secret, may be inline) */
+    user?: string;
+    /** Environment variable holding the username */
+    userEnv?: string;
+    /** Environment variable holding the password */
+    passwordEnv?: string;
+    /** File holding the password (relative to the inventory file, trailing newline ignored) */
+    passwordFile?: string;
+}
+
+/**
+ * SSH settings of a node. The private key and its passphrase are references, like the password.
+ */
+export interface InventorySshSettings extends Omit<SshOptions, 'privateKey' | 'passphrase'> {
+    /** File holding the private key (relative to the inventory file) */
+    privateKeyFile?: string;
+    /** Environment variable holding the passphrase of the private key */
+    passphraseEnv?: string;
+    /** File holding the passphrase of the private key (relative to the inventory file, trailing newline ignored) */
+    passphraseFile?: string;
+}
+
+/**
+ * Client options that can be set in an inventory (at the top level, per group or per node).
+ */
+export interface InventorySettings extends Partial<Omit<MikrotikOptions, 'user' | 'password' | 'credentialsFromReference' | 'logger' | 'rateLimiter' | 'ssh'>> {
+    credentials?: InventoryCredentials;
+    /** Merged key by key, like `credentials` */
+    ssh?: InventorySshSettings;
+    /** Labels for target expressions (`tag:v7`). Group and node tags add up. */
+    tags?: string[];
+}
+
+export interface InventoryNode extends InventorySettings {
+    /** Groups whose settings apply to this node, in order (the node's own settings win) */
+    groups?: string[];
+}
+
+/**
+ * Shape of an inventory file (YAML or JSON).
+ *
+ * @example
+ * defaults:
+ *   protocol: rest
+ *   credentials: { user: noc, passwordEnv: ROUTER_PASS }
+ * groups:
+ *   core:
+ *     tags: [v7]
+ *     credentials: { passwordFile: secrets/core.pass }
+ * nodes:
+ *   core-1: { host: 10.0.0.1, groups: [core] }
+ *   edge-3: { host: 10.0.3.1, tags: [v6], protocol: socket }
+ */
+export interface InventoryDocument {
+    defaults?: InventorySettings;
+    groups?: Record<string, InventorySettings>;
+    nodes: Record<string, InventoryNode>;
+}
+
+/**
+ * Groups and tags of a swarm node, matched by target expressions.
+ */
+export interface NodeLabels {
+    groups?: string[];
+    tags?: string[];
+}
+
+/**
+ * A node of the inventory with its settings merged and credentials resolved.
+ */
+export interface ResolvedNode {
+    id: string;
+    labels: Required<NodeLabels>;
+    options: MikrotikOptions;
+}
+
+/**
+ * Raised for an unreadable inventory, inline secrets, unknown groups, missing credentials
+ * or an invalid target expression.
+ */
+export class InventoryError extends Error {
+    constructor(message: string, public readonly problems: string[] = []) {
+        super(problems.length > 0 ? `${message}\n - ${problems.join('\n - ')}` : message);
+        this.name = 'InventoryError';
+        Object.setPrototypeOf(this, InventoryError.prototype);
+    }
+}
+
+// Keys that would put a secret in the inventory file
+const INLINE_SECRETS = ['password', 'user'];
+const INLINE_SSH_SECRETS = ['privateKey', 'passphrase', 'password'];
+
+/**
+ * Inventory
+ * * Loads a fleet description (YAML or JSON) for `MikrotikSwarm.fromInventory()`.
+ * * Settings merge in this order: `defaults` -> each group of the node -> the node.
+ * * Credentials are references (environment variables or files) resolved at load time.
+ */
+export class Inventory {
+    /**
+     * @param document The parsed inventory.
+     * @param baseDir Directory that `passwordFile` (and the other `...File`) paths are relative to.
+     */
+    constructor(public readonly document: InventoryDocument, private readonly baseDir: string = process.cwd()) {
+        this.validate();
+    }
+
+    /**
+     * Reads an inventory file (`.json` as JSON, anything else as YAML).
+     */
+    public static async load(file: string): Promise<Inventory> {
+        let text: string;
+        try {
+            text = await fs.promises.readFile(file, 'utf8');
+        } catch (error: any) {
+            throw new InventoryError(`Inventory: Cannot read ${file}: ${error.message}`);
+        }
+        return new Inventory(Inventory.parse(text, file), path.dirname(path.resolve(file)));
+    }
+
+    /**
+     * Parses inventory text. `file` only selects the format and labels errors.
+     */
+    public static parse(text: string, file: string = 'inventory.yaml'): InventoryDocument {
+        try {
+            const document = file.endsWith('.json') ? JSON.parse(text) : parseYaml(text);
+            if (!document || typeof document !== 'object' || !document.nodes || typeof document.nodes !== 'object') {
+                throw new Error('a "nodes" map is required');
+            }
+            return document as InventoryDocument;
+        } catch (error: any) {
+            throw new InventoryError(`Inventory: Invalid ${file}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Merges the settings of every node and resolves its credentials.
+     * Reports every problem at once (unknown groups, unset variables, missing files).
+     */
+    public resolve(): ResolvedNode[] {
+        const problems: string[] = [];
+        const groups = this.document.groups || {};
+
+        const nodes = Object.entries(this.document.nodes).map(([id, node]) => {
+            const layers: InventorySettings[] = [this.document.defaults || {}];
+            for (const group of node.groups || []) {
+                if (groups[group]) layers.push(groups[group]);
+                else problems.push(`${id}: unknown group '${group}'`);
+            }
+            layers.push(node);
+
+            const { credentials, tags, groups: _groups, ssh, ...settings } = Object.assign({}, ...layers) as InventoryNode;
+            const merged = {
+                credentials: Object.assign({}, ...layers.map(layer => layer.credentials || {})) as InventoryCredentials,
+                ssh: ssh ? Object.assign({}, ...layers.map(layer => layer.ssh || {})) as InventorySshSettings : undefined,
+                tags: Array.from(new Set(layers.flatMap(layer => layer.tags || [])))
+            };
+
+            if (!settings.host) problems.push(`${id}: no host`);
+
+            return {
+                id,
+                labels: { groups: node.groups || [], tags: merged.tags },
+                options: {
+                    ...settings,
+                    // Credentials come from the references above, not from code or .env
+                    credentialsFromReference: true,
+                    host: settings.host!,
+                    user: this.secret(id, 'user', merged.credentials.user, merged.credentials.userEnv, undefined, problems),
+                    password: this.secret(id, 'password', undefined, merged.credentials.passwordEnv, merged.credentials.passwordFile, problems),
+                    ...(merged.ssh ? { ssh: this.sshOptions(id, merged.ssh, problems) } : {})
+                }
+            };
+        });
+
+        if (problems.length > 0) {
+            throw new InventoryError('Inventory: Cannot resolve nodes.', problems);
+        }
+        return nodes;
+    }
+
+    private sshOptions(id: string, settings: InventorySshSettings, problems: string[]): SshOptions {
+        const { privateKeyFile, passphraseEnv, passphraseFile, ...options } = settings;
+        return {
+            ...options,
+            privateKey: this.secret(id, 'SSH private key', undefined, undefined, privateKeyFile, problems),
+            passphrase: this.secret(id, 'SSH passphrase', undefined, passphraseEnv, passphraseFile, problems)
+        };
+    }
+
+    private secret(
+        id: string,
+        name: string,
+        inline: string | undefined,
+        envName: string | undefined,
+        file: string | undefined,
+        problems: string[]
+    ): string | undefined {
+        if (envName) {
+            const value = process.env[envName];
+            if (value === undefined) problems.push(`${id}: environment variable ${envName} (${name}) is not set`);
+            return value;
+        }
+        if (file) {
+            try {
+                return fs.readFileSync(path.resolve(this.baseDir, file), 'utf8').replace(/\r?\n$/, '');
+            } catch {
+                problems.push(`${id}: cannot read ${name} file ${file}`);
+                return undefined;
+            }
+        }
+        return inline;
+    }
+
+    /**
+     * Rejects inline secrets anywhere in the document.
+     */
+    private validate(): void {
+        const problems: string[] = [];
+        const check = (where: string, settings: InventorySettings | undefined) => {
+            if (!settings) return;
+            INLINE_SECRETS.forEach(key => {
+                if (key in settings) problems.push(`${where}: '${key}' must go in credentials (passwords as passwordEnv / passwordFile)`);
+            });
+            if (settings.credentials && 'password' in settings.credentials) {
+                problems.push(`${where}: inline passwords are not allowed, use passwordEnv or passwordFile`);
+            }
+            INLINE_SSH_SECRETS.forEach(key => {
+                if (settings.ssh && key in settings.ssh) {
+                    problems.push(`${where}: inline ssh.${key} is not allowed, use privateKeyFile / passphraseEnv / passphraseFile`);
+                }
+            });
+        };
+
+        check('defaults', this.document.defaults);
+        Object.entries(this.document.groups || {}).forEach(([name, group]) => check(`group ${name}`, group));
+        Object.entries(this.document.nodes).forEach(([id, node]) => check(id, node));
+
+        if (problems.length > 0) {
+            throw new InventoryError('Inventory: Secrets must be references.', problems);
+        }
+    }
+}
+
+// ==========================================
+// TARGET EXPRESSIONS
+// ==========================================
+
+type TargetPredicate = (id: string, labels: NodeLabels) => boolean;
+
+/**
+ * TargetExpression
+ * * Selects swarm nodes by id, group and tag: `group:core && tag:v7 && !id:edge-3`.
+ * * Operators: `&&`, `||`, `!` and parentheses. `*` in a value is a wildcard (`id:edge-*`), a lone `*` matches every node.
+ *
+ * @example
+ * const target = TargetExpression.parse('(group:core || group:border) && !tag:lab');
+ * target.matches('core-1', { groups: ['core'], tags: ['v7'] }); // true
+ */
+export class TargetExpression {
+    private constructor(public readonly source: string, private readonly predicate: TargetPredicate) {}
+
+    public static parse(source: string): TargetExpression {
+        const tokens = source.match(/&&|\|\||[!()]|[^\s!()&|]+/g) || [];
+        let position = 0;
+
+        const fail = (reason: string): never => {
+            throw new InventoryError(`TargetExpression: ${reason} in '${source}'.`);
+        };
+
+        const parseOr = (): TargetPredicate => {
+            let left = parseAnd();
+            while (tokens[position] === '||') {
+                position++;
+                const [a, b] = [left, parseAnd()];
+                left = (id, labels) => a(id, labels) || b(id, labels);
+            }
+            return left;
+        };
+
+        const parseAnd = (): TargetPredicate => {
+            let left = parseUnary();
+            while (tokens[position] === '&&') {
+                position++;
+                const [a, b] = [left, parseUnary()];
+                left = (id, labels) => a(id, labels) && b(id, labels);
+            }
+            return left;
+        };
+
+        const parseUnary = (): TargetPredicate => {
+            const token = tokens[position++];
+            if (token === undefined) return fail('unexpected end');
+            if (token === '!') {
+                const inner = parseUnary();
+                return (id, labels) => !inner(id, labels);
+            }
+            if (token === '(') {
+                const inner = parseOr();
+                if (tokens[position++] !== ')') fail('missing )');
+                return inner;
+            }
+            if (token === '*') return () => true;
+
+            const match = /^(id|group|tag):(.+)$/.exec(token);
+            if (!match) return fail(`unknown selector '${token}' (expected id:, group: or tag:)`);
+
+            const pattern = TargetExpression.wildcard(match[2]);
+            switch (match[1]) {
+                case 'id':
+                    return id => pattern.test(id);
+                case 'group':
+                    return (_id, labels) => (labels.groups || []).some(group => pattern.test(group));
+                default:
+                    return (_id, labels) => (labels.tags || []).some(tag => pattern.test(tag));
+            }
+        };
+
+        const predicate = parseOr();
+        if (position < tokens.length) fail(`unexpected '${tokens[position]}'`);
+        return new TargetExpression(source, predicate);
+    }
+
+    public matches(id: string, labels: NodeLabels = {}): boolean {
+        return this.predicate(id, labels);
+    }
+
+    private static wildcard(value: string): RegExp {
+        const escaped = value.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+        return new RegExp(`^${escaped}$`);
+    }
+}
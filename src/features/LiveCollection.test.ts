@@ -0,0 +1,167 @@
+import { test, describe, before, after, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { SnapshotSubscription, SnapshotDiff } from '../client/SnapshotSubscription';
+import { MikrotikClient } from '../client/MikrotikClient';
+import { MockRouterServer, MockCommandRecord } from '../testing/MockRouterServer';
+
+/** Polls until the condition holds (LiveCollection updates arrive asynchronously) */
+const until = async (condition: () => boolean, timeoutMs = 2000) => {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+        if (Date.now() > deadline) throw new Error('Condition not met in time');
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }
+};
+
+describe('Live collection options', () => {
+    const mock = new MockRouterServer();
+    const commands: MockCommandRecord[] = [];
+    const subscriptions: SnapshotSubscription<any>[] = [];
+    let client: MikrotikClient;
+
+    before(async () => {
+        await mock.start();
+        mock.on('command', record => commands.push(record));
+        client = mock.client();
+        await client.connect();
+    });
+
+    after(async () => {
+        subscriptions.splice(0).forEach(sub => sub.stop());
+        await mock.stop();
+    });
+
+    beforeEach(() => {
+        subscriptions.splice(0).forEach(sub => sub.stop());
+        mock.store.remove('/ip/dhcp-server/lease', mock.store.list('/ip/dhcp-server/lease').map(item => item['.id']));
+        mock.store.seed('/ip/dhcp-server/lease', [
+            { address: '10.0.0.10', 'mac-address': 'AA:AA:AA:AA:AA:01', 'host-name': 'laptop', disabled: 'false' },
+            { address: '10.0.0.11', 'mac-address': 'AA:AA:AA:AA:AA:02', 'host-name': 'phone', disabled: 'true' }
+        ]);
+        commands.length = 0;
+    });
+
+    const track = <T extends SnapshotSubscription<any>>(sub: T) => {
+        subscriptions.push(sub);
+        return sub;
+    };
+
+    test('select only streams the chosen fields, plus the identity fields', async () => {
+        let items: any[] = [];
+        track(client.collection('/ip/dhcp-server/lease').select(['address']).onSnapshot(data => { items = data as any[]; }));
+        await until(() => items.length === 2);
+
+        assert.deepEqual(Object.keys(items[0]).sort(), ['.id', 'address']);
+        const streamed = commands.filter(record => record.command === '/ip/dhcp-server/lease/print');
+        assert.ok(streamed.length > 0);
+        assert.ok(streamed.every(record => record.params['.proplist'] === '.id,.dead,address'));
+    });
+
+    test('diffs use the identity key set on the collection', async () => {
+        const diffs: SnapshotDiff<any>[] = [];
+        track(client.collection('/ip/dhcp-server/lease').key('mac-address').onSnapshot(diff => diffs.push(diff as SnapshotDiff<any>)).onDiff());
+        await until(() => diffs.length === 1);
+
+        const [first] = mock.store.list('/ip/dhcp-server/lease');
+        mock.store.set('/ip/dhcp-server/lease', first['.id'], { 'host-name': 'desktop' });
+        await until(() => diffs.length === 2);
+
+        assert.equal(diffs[1].changes[0].key, 'AA:AA:AA:AA:AA:01');
+        assert.deepEqual(diffs[1].changes[0].fields, [{ field: 'host-name', before: 'laptop', after: 'desktop' }]);
+    });
+
+    test('camelCase items are parsed like print() rows', async () => {
+        let items: any[] = [];
+        track(client.collection('/ip/dhcp-server/lease').camelCase().onSnapshot(data => { items = data as any[]; }));
+        await until(() => items.length === 2);
+
+        const [first] = mock.store.list('/ip/dhcp-server/lease');
+        mock.store.set('/ip/dhcp-server/lease', first['.id'], { disabled: 'true' });
+        await until(() => items.every(item => item.disabled === true));
+
+        assert.equal(items[0].id, first['.id']);
+        assert.equal(items[0].macAddress, 'AA:AA:AA:AA:AA:01');
+        assert.equal('.id' in items[0], false);
+    });
+
+    test('collections with different options do not share a stream', async () => {
+        let wire: any[] = [];
+        let camel: any[] = [];
+        track(client.collection('/ip/dhcp-server/lease').onSnapshot(data => { wire = data as any[]; }));
+        track(client.collection('/ip/dhcp-server/lease').camelCase().onSnapshot(data => { camel = data as any[]; }));
+        await until(() => wire.length === 2 && camel.length === 2);
+
+        assert.ok('mac-address' in wire[0]);
+        assert.ok('macAddress' in camel[0]);
+    });
+});
+
+describe('Live collection lifecycle', () => {
+    const mock = new MockRouterServer();
+    let client: MikrotikClient;
+    let sub: SnapshotSubscription<any>;
+    let emissions: any[][] = [];
+    const statuses: string[] = [];
+    const ready: any[][] = [];
+
+    const names = (items: any[]) => items.map(item => item.name).sort();
+
+    before(async () => {
+        await mock.start();
+        mock.store.seed('/ppp/active', [{ name: 'ana', service: 'pppoe' }, { name: 'bob', service: 'pppoe' }]);
+        // A slow print: rows as they were when it started, packets arriving meanwhile must be buffered
+        mock.handle('/ppp/active/print', () => {
+            const rows = mock.store.list('/ppp/active');
+            return new Promise(resolve => setTimeout(() => resolve(rows), 100));
+        });
+        client = mock.client({ reconnect: { initialDelay: 20, jitter: 0 } });
+        await client.connect();
+    });
+
+    after(async () => {
+        sub.stop();
+        await mock.stop();
+    });
+
+    test('subscribers only see the complete table', async () => {
+        sub = client.collection('/ppp/active')
+            .onSnapshot(data => { emissions.push(data as any[]); })
+            .onStatus(status => statuses.push(status))
+            .onReady(snapshot => ready.push(snapshot));
+        assert.equal(sub.status, 'loading');
+
+        await new Promise(resolve => setTimeout(resolve, 30));
+        mock.store.add('/ppp/active', { name: 'cid', service: 'pppoe' });
+        await until(() => sub.status === 'live');
+
+        assert.deepEqual(emissions.map(names), [['ana', 'bob', 'cid']]);
+        assert.deepEqual(ready.map(names), [['ana', 'bob', 'cid']]);
+        assert.deepEqual(statuses, ['live']);
+    });
+
+    test('a dropped link goes stale, then resyncs after reconnecting', async () => {
+        statuses.length = 0;
+        mock.dropConnections();
+        // Changed while the link is down: no packet reaches the collection
+        const [ana] = mock.store.list('/ppp/active');
+        mock.store.remove('/ppp/active', [ana['.id']]);
+
+        await until(() => statuses[statuses.length - 1] === 'live');
+        assert.deepEqual(statuses, ['stale', 'resyncing', 'live']);
+        assert.deepEqual(names(emissions[emissions.length - 1]), ['bob', 'cid']);
+    });
+
+    test('resync() reloads the table and reports the difference', async () => {
+        const before = mock.store.snapshot();
+        mock.store.add('/ppp/active', { name: 'dan', service: 'pppoe' });
+        await until(() => names(emissions[emissions.length - 1]).includes('dan'));
+
+        // Put the old table back behind the collection's back
+        mock.store.restore(before);
+        emissions = [];
+        await sub.resync();
+
+        assert.deepEqual(emissions.map(names), [['bob', 'cid']]);
+        assert.equal(sub.status, 'live');
+    });
+});
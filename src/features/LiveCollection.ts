@@ -1,5 +1,8 @@
 import { MikrotikClient, Subscription } from "../client/MikrotikClient";
-import { SnapshotSubscription, SnapshotDiff } from "../client/SnapshotSubscription";
+import { CommandBuilder } from "../client/CommandBuilder";
+import { ResultParser } from "../client/ResultParser";
+import { camelToKebab } from "../utils/Helpers";
+import { SnapshotSubscription, SnapshotDiff, SnapshotDelta, SnapshotSource, SnapshotStatus } from "../client/SnapshotSubscription";
 
 /**
  * Flexible callback definition.
@@ -7,6 +10,29 @@ import { SnapshotSubscription, SnapshotDiff } from "../client/SnapshotSubscripti
  */
 export type SnapshotCallback<T> = (data: T[] | SnapshotDiff<T>) => void;
 
+/**
+ * How a LiveCollection listens and shapes its items (`client.collection()` builder).
+ */
+export interface LiveCollectionOptions {
+    /** Equality filters sent to the router (e.g. `{ service: 'pppoe' }`) */
+    query?: Record<string, string | number | boolean>;
+    /**
+     * Fields requested from the router (`.proplist`). `.id`, `.dead` and the key are always added.
+     * Default: every field
+     */
+    select?: string[];
+    /**
+     * Field identifying an item, used as the default key of `.onDiff()`.
+     * Default: '.id' (`id` with `camelCase`)
+     */
+    key?: string;
+    /**
+     * Items are parsed like socket `print()` rows: camelCase keys without dots (`id`, `macAddress`)
+     * and inferred types. Default: wire format (`.id`, `mac-address`, string values)
+     */
+    camelCase?: boolean;
+}
+
 /**
  * LiveCollection
  * ==========================================
@@ -15,9 +41,17 @@ export type SnapshotCallback<T> = (data: T[] | SnapshotDiff<T>) => void;
  * Instead of firing simple callbacks, it manages 'SnapshotSubscription' instances.
  * This allows each subscriber to have their own Throttle settings and Diff modes.
  *
+ * **Lifecycle (`status`):**
+ * 1. `loading`: a `=follow-only=` stream is opened and a full `print` loads the table.
+ * Packets arriving meanwhile are buffered, then replayed on top of the print.
+ * 2. `live`: the snapshot is complete (subscribers are called, `onReady` fires); packets apply incrementally.
+ * 3. `stale`: the connection dropped or the stream failed; the snapshot may be missing changes.
+ * 4. `resyncing`: after a reconnection or a detected gap (deletion of an unknown item),
+ * the table is printed again and subscribers receive the difference.
+ *
  * @template T The type of the items in the collection.
  */
-export class LiveCollection<T extends Record<string, any>> {
+export class LiveCollection<T extends Record<string, any>> implements SnapshotSource<T> {
     /** Internal storage mapped by item ID (e.g., "*1A") */
     private localCache = new Map<string, T>();
 
@@ -33,18 +67,47 @@ export class LiveCollection<T extends Record<string, any>> {
     /** Flag to prevent double initialization */
     private isInitializing = false;
 
+    private currentStatus: SnapshotStatus = 'loading';
+
+    /** Packets received while a full load is in flight (null when packets apply directly) */
+    private buffer: any[] | null = null;
+
+    /** A load is running; `resyncRequested` re-runs it once it completes */
+    private loading: Promise<void> | null = null;
+    private resyncRequested = false;
+
+    /** Client event handlers, removed when the collection stops */
+    private readonly onClose = () => this.setStatus('stale');
+    private readonly onReconnected = () => {
+        this.resync().catch(() => {});
+    };
+
     /**
      * Creates an instance of LiveCollection.
      * @param client The main MikrotikClient instance.
      * @param path The menu path to listen to (e.g., '/ppp/active').
-     * @param query Optional filter object (e.g. { name: 'admin' }).
+     * @param options Filters, selected fields, identity key and key format.
      */
     constructor(
         private client: MikrotikClient,
         private path: string,
-        private query: Record<string, string | number | boolean> = {}
+        private options: LiveCollectionOptions = {}
     ) {}
 
+    /**
+     * Where the collection is in its lifecycle (`loading`, `live`, `stale`, `resyncing`).
+     */
+    public get status(): SnapshotStatus {
+        return this.currentStatus;
+    }
+
+    /**
+     * The current items.
+     */
+    public snapshot(): T[] {
+        return Array.from(this.localCache.values());
+    }
+
     /**
      * Subscribes to real-time updates.
      *
@@ -52,10 +115,11 @@ export class LiveCollection<T extends Record<string, any>> {
      * Returns a `SnapshotSubscription` object instead of a cleanup function.
      * This enables chaining methods like `.onDiff()`, `.throttle()`, and `.join()`.
      *
-     * @param callback Function to execute when data changes.
+     * @param callback Function to execute when data changes. Omit it to consume the subscription
+     * through `subscribe()` (Observable) or `iterate()` (async iterator).
      * @returns The Subscription object for chaining configuration.
      */
-    public onSnapshot(callback: SnapshotCallback<T>): SnapshotSubscription<T> {
+    public onSnapshot(callback: SnapshotCallback<T> = SnapshotSubscription.NO_CALLBACK): SnapshotSubscription<T> {
         // Define the cleanup logic for this specific subscriber
         const unsubscribeLogic = () => {
             this.subscriptions = this.subscriptions.filter(s => s !== sub);
@@ -70,61 +134,161 @@ export class LiveCollection<T extends Record<string, any>> {
         const sub = new SnapshotSubscription<T>(
             this.client,
             callback,
-            unsubscribeLogic
+            unsubscribeLogic,
+            this.options.key || (this.options.camelCase ? 'id' : '.id'),
+            this
         );
 
         this.subscriptions.push(sub);
 
-        // Send immediate data if we already have cache (Hot Observable behavior)
-        if (this.localCache.size > 0) {
+        // Send immediate data once the snapshot is complete (Hot Observable behavior)
+        if (this.buffer === null && this.subscription) {
             // We use processUpdate so logic like Join or Diff runs even on the first data
-            sub.processUpdate(Array.from(this.localCache.values()));
+            sub.processUpdate(this.snapshot());
         }
 
         // Start Router connection if this is the first listener
         if (!this.subscription && !this.isInitializing) {
             this.startListening().catch(err => {
-                console.error("RosInterface: Error starting live listener", err);
+                this.client.logger.error('LiveCollection: Error starting live listener.', { path: this.path, error: err });
             });
         }
 
         return sub;
     }
 
+    /**
+     * Reloads the whole table and sends subscribers the difference with what they had.
+     * Runs automatically after reconnections and detected gaps.
+     */
+    public async resync(): Promise<void> {
+        if (this.subscriptions.length === 0) return;
+
+        // One load at a time: a request during a load re-runs it afterwards
+        if (this.loading) {
+            this.resyncRequested = true;
+            return this.loading;
+        }
+
+        // The stream itself failed: open it again
+        if (!this.subscription) {
+            this.isInitializing = false;
+            return this.startListening();
+        }
+
+        this.setStatus('resyncing');
+        await this.load();
+    }
+
     /**
      * Internal method to establish the connection via the client.
      */
     private async startListening() {
         if (this.isInitializing) return;
         this.isInitializing = true;
+        this.setStatus('loading');
 
-        try {
-            // Initialize Command
-            const cmd = this.client.command(this.path);
-
-            // Optimization: Request specific fields to reduce CPU load on Router.
-            // CRITICAL: We MUST include '.dead' to detect deletions.
-            cmd.where('.proplist', '.id,.dead,name,comment,disabled,profile,service,user,password,address,uptime,mac-address,caller-id,bytes-in,bytes-out,radius');
-
-            // Apply Filters from Query
-            if (this.query) {
-                Object.keys(this.query).forEach(key => {
-                    const value = this.query[key];
-                    if (['string', 'number', 'boolean'].includes(typeof value)) {
-                        cmd.where(key, value);
-                    }
-                });
-            }
+        this.client.off('close', this.onClose).on('close', this.onClose);
+        this.client.off('reconnected', this.onReconnected).on('reconnected', this.onReconnected);
 
-            // Start Streaming
-            this.subscription = cmd.listen((packet: any) => {
-                this.processPacket(packet);
+        try {
+            // Changes only: the initial state comes from the print in load()
+            this.buffer = [];
+            this.subscription = this.command().listen((packet: any) => {
+                if (this.buffer) this.buffer.push(packet);
+                else this.processPacket(packet);
+            }, {
+                raw: !this.options.camelCase,
+                followOnly: true,
+                onError: (error) => {
+                    this.client.logger.warn(`LiveCollection: Stream on ${this.path} failed, snapshot is stale.`, { path: this.path, error });
+                    const failed = this.subscription;
+                    this.subscription = null;
+                    failed?.stop().catch(() => {});
+                    this.setStatus('stale');
+                }
             });
-
         } catch (error) {
-            console.error(`RosInterface: Failed to listen on ${this.path}`, error);
+            this.client.logger.error(`LiveCollection: Failed to listen on ${this.path}.`, { path: this.path, error });
             this.isInitializing = false;
+            this.buffer = null;
+            return;
+        }
+
+        await this.load();
+    }
+
+    /**
+     * Builds the print command with the collection's fields and filters.
+     */
+    private command(): CommandBuilder<T> {
+        const cmd = this.client.command<T>(this.path);
+
+        // Optimization: Request only the selected fields to reduce CPU load on Router.
+        // CRITICAL: We MUST include '.id' and '.dead' to detect deletions.
+        const { select, key, query = {} } = this.options;
+        if (select && select.length > 0) {
+            const wireKey = key ? camelToKebab(key.replace(/^\.?/, '')) : 'id';
+            const fields = ['.id', '.dead', ...select.map(field => camelToKebab(field))];
+            if (wireKey !== 'id') fields.push(wireKey);
+            cmd.select(Array.from(new Set(fields)));
         }
+
+        // Apply Filters from Query
+        Object.keys(query).forEach(field => {
+            const value = query[field];
+            if (['string', 'number', 'boolean'].includes(typeof value)) {
+                cmd.where(field, value);
+            }
+        });
+
+        return cmd;
+    }
+
+    /**
+     * Full print: replaces the cache, replays the packets buffered meanwhile,
+     * goes `live` and emits the complete snapshot.
+     */
+    private load(): Promise<void> {
+        this.buffer = this.buffer || [];
+
+        this.loading = (async () => {
+            try {
+                // Wire rows on both protocols, parsed here when camelCase is on (never from the read cache)
+                const collection = await this.command().print(undefined, { raw: true, cache: false });
+                const rows = this.options.camelCase
+                    ? ResultParser.parse(collection.toArray(), this.client.decoding, this.path)
+                    : collection.toArray();
+
+                this.localCache.clear();
+                for (const row of rows) {
+                    const id = row['.id'] || row['id'];
+                    if (id) this.localCache.set(id, row as T);
+                }
+
+                const buffered = this.buffer || [];
+                this.buffer = null;
+                buffered.forEach(packet => this.applyPacket(packet));
+            } catch (error) {
+                this.buffer = null;
+                this.client.logger.warn(`LiveCollection: Initial load of ${this.path} failed, snapshot is stale.`, { path: this.path, error });
+                this.setStatus('stale');
+                return;
+            } finally {
+                this.loading = null;
+            }
+
+            // Without deltas, each subscription diffs the full snapshot against what it last emitted
+            const fullList = this.snapshot();
+            this.subscriptions.forEach(sub => sub.processUpdate(fullList));
+            this.setStatus('live');
+        })();
+
+        return this.loading.then(() => {
+            if (!this.resyncRequested) return;
+            this.resyncRequested = false;
+            return this.resync();
+        });
     }
 
     /**
@@ -133,51 +297,71 @@ export class LiveCollection<T extends Record<string, any>> {
      * @param packet Raw data from the router.
      */
     private processPacket(packet: any) {
-        // RouterOS raw packets use '.id', but sometimes it might be parsed as 'id'
+        const delta = this.applyPacket(packet);
+
+        // GAP DETECTION: the router deleted an item we never saw, so we missed packets
+        if (delta === 'gap') {
+            this.client.logger.info(`LiveCollection: Gap detected on ${this.path}, resyncing.`, { path: this.path });
+            this.resync().catch(() => {});
+            return;
+        }
+
+        // BROADCAST TO SMART SUBSCRIPTIONS
+        // Instead of sending the array directly, we let the Subscription object
+        // decide IF and WHEN to send it (Throttle) and HOW (Diff/Join).
+        // The packet's before/after pair lets diffs skip re-comparing the whole table.
+        this.emit(delta ? [delta] : []);
+    }
+
+    /**
+     * Applies a packet to the cache.
+     * @returns The item before/after the packet, `null` for status packets, 'gap' for unknown deletions.
+     */
+    private applyPacket(packet: any): SnapshotDelta<T> | null | 'gap' {
+        // Wire packets use '.id', camelCase ones 'id'
         const rawId = packet['.id'] || packet['id'];
 
         // Ignore status packets (!done, !fatal)
-        if (!rawId) return;
+        if (!rawId) return null;
 
-        // HANDLE DELETION
-        if (packet['.dead'] === true || packet['dead'] === true) {
-            this.localCache.delete(rawId);
-        }
-        // HANDLE UPDATE / INSERT
-        else {
-            const existing = this.localCache.get(rawId) || {};
-
-            // Normalize keys: Remove leading dots
-            const cleanPacket: any = {};
-            for (const key of Object.keys(packet)) {
-                const cleanKey = key.startsWith('.') ? key.substring(1) : key;
-                cleanPacket[cleanKey] = packet[key];
-            }
+        const before = this.localCache.get(rawId);
 
-            // Merge with existing data to support partial updates
-            const updated = { ...existing, ...cleanPacket };
-            this.localCache.set(rawId, updated as T);
+        // HANDLE DELETION ('true' in wire format, true once parsed)
+        const dead = packet['.dead'] ?? packet['dead'];
+        if (dead === true || dead === 'true') {
+            if (!before) return 'gap';
+            this.localCache.delete(rawId);
+            return { before, after: undefined };
         }
 
-        // BROADCAST TO SMART SUBSCRIPTIONS
-        // Instead of sending the array directly, we let the Subscription object
-        // decide IF and WHEN to send it (Throttle) and HOW (Diff/Join).
-        this.emit();
+        // HANDLE UPDATE / INSERT
+        // Merge with existing data to support partial updates
+        // (keys are already in the requested format: wire or camelCase)
+        const after = { ...(before || {}), ...packet } as T;
+        this.localCache.set(rawId, after);
+        return { before, after };
     }
 
     /**
      * Broadcasts the current array of items to all smart subscriptions.
+     * @param deltas The items changed by the packet just applied.
      */
-    private emit() {
-        const fullList = Array.from(this.localCache.values());
+    private emit(deltas: SnapshotDelta<T>[]) {
+        const fullList = this.snapshot();
 
         // We delegate the logic to each subscription.
         // One user might want Diffs, another might want the full list throttled.
         this.subscriptions.forEach(sub => {
-            sub.processUpdate(fullList);
+            sub.processUpdate(fullList, deltas);
         });
     }
 
+    private setStatus(status: SnapshotStatus) {
+        if (status === this.currentStatus) return;
+        this.currentStatus = status;
+        this.subscriptions.forEach(sub => sub.notifyStatus(status));
+    }
+
     /**
      * Stops the low-level connection to the router.
      */
@@ -186,11 +370,16 @@ export class LiveCollection<T extends Record<string, any>> {
             try {
                 this.subscription.stop();
             } catch (e) {
-                console.warn('RosInterface: Error stopping subscription', e);
+                this.client.logger.warn('LiveCollection: Error stopping subscription.', { path: this.path, error: e });
             }
             this.subscription = null;
         }
+        this.client.off('close', this.onClose);
+        this.client.off('reconnected', this.onReconnected);
         this.localCache.clear();
+        this.buffer = null;
+        this.resyncRequested = false;
+        this.currentStatus = 'loading';
         this.isInitializing = false;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,96 @@
+import { test, describe, before, after, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MikrotikClient } from '../client/MikrotikClient';
+import { MockRouterServer } from '../testing/MockRouterServer';
+
+describe('Reconciler', () => {
+    const mock = new MockRouterServer();
+    let client: MikrotikClient;
+
+    before(async () => {
+        await mock.start();
+        client = mock.client();
+        await client.connect();
+    });
+
+    after(async () => {
+        await mock.stop();
+    });
+
+    beforeEach(() => {
+        for (const menu of ['/ip/firewall/address-list', '/ip/firewall/filter']) {
+            mock.store.remove(menu, mock.store.list(menu).map(item => item['.id']));
+        }
+    });
+
+    test('plans additions, changes and removals by natural key', async () => {
+        mock.store.seed('/ip/firewall/address-list', [
+            { list: 'blocked', address: '10.0.0.1', comment: 'old' },
+            { list: 'blocked', address: '10.0.0.2' }
+        ]);
+
+        const plan = await client.reconcile('/ip/firewall/address-list', { key: ['list', 'address'] }).plan([
+            { list: 'blocked', address: '10.0.0.1', comment: 'new' },
+            { list: 'blocked', address: '10.0.0.3' }
+        ]);
+
+        assert.deepEqual(plan.summary, { add: 1, set: 1, remove: 1, move: 0 });
+        const set = plan.operations.find(op => op.action === 'set');
+        assert.deepEqual(set && set.action === 'set' && set.changes, [{ field: 'comment', before: 'old', after: 'new' }]);
+    });
+
+    test('applies the plan and converges', async () => {
+        mock.store.seed('/ip/firewall/address-list', [
+            { list: 'blocked', address: '10.0.0.1', comment: 'old' },
+            { list: 'blocked', address: '10.0.0.2' }
+        ]);
+        const desired = [
+            { list: 'blocked', address: '10.0.0.1', comment: 'new' },
+            { list: 'blocked', address: '10.0.0.3' }
+        ];
+        const reconciler = client.reconcile('/ip/firewall/address-list', { key: ['list', 'address'] });
+
+        const report = await reconciler.apply(desired);
+        assert.equal(report.ok, true);
+        assert.equal(report.applied, 3);
+
+        const rows = mock.store.list('/ip/firewall/address-list');
+        assert.deepEqual(rows.map(row => row.address).sort(), ['10.0.0.1', '10.0.0.3']);
+        assert.equal((await reconciler.plan(desired)).isEmpty(), true);
+    });
+
+    test('prune: false keeps undeclared items', async () => {
+        mock.store.seed('/ip/firewall/address-list', [{ list: 'blocked', address: '10.0.0.2' }]);
+        const plan = await client.reconcile('/ip/firewall/address-list', { key: ['list', 'address'], prune: false })
+            .plan([{ list: 'blocked', address: '10.0.0.3' }]);
+        assert.deepEqual(plan.summary, { add: 1, set: 0, remove: 0, move: 0 });
+    });
+
+    test('ordered menus are moved into the declared order', async () => {
+        mock.store.seed('/ip/firewall/filter', [
+            { chain: 'forward', action: 'accept', comment: 'b' },
+            { chain: 'forward', action: 'accept', comment: 'a' }
+        ]);
+        const desired = [
+            { chain: 'forward', action: 'accept', comment: 'a' },
+            { chain: 'forward', action: 'accept', comment: 'b' },
+            { chain: 'forward', action: 'drop', comment: 'c' }
+        ];
+        const reconciler = client.reconcile('/ip/firewall/filter', { key: 'comment', ordered: true });
+
+        const report = await reconciler.apply(desired);
+        assert.equal(report.ok, true);
+        assert.deepEqual(mock.store.list('/ip/firewall/filter').map(row => row.comment), ['a', 'b', 'c']);
+        assert.equal((await reconciler.plan(desired)).isEmpty(), true);
+    });
+
+    test('reports failures per item', async () => {
+        mock.injectTrap({ command: '/ip/firewall/address-list/add', message: 'failure: out of memory' });
+        const report = await client.reconcile('/ip/firewall/address-list', { key: ['list', 'address'] })
+            .apply([{ list: 'blocked', address: '10.0.0.9' }]);
+
+        assert.equal(report.ok, false);
+        assert.equal(report.failed, 1);
+        assert.match(String(report.results[0].error?.message), /out of memory/);
+    });
+});
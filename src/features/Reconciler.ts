@@ -0,0 +1,444 @@
+import { MikrotikClient } from '../client/MikrotikClient';
+import { ResultParser } from '../client/ResultParser';
+import { camelToKebab } from '../utils/Helpers';
+
+/**
+ * Options for reconciling one menu path.
+ */
+export interface ReconcileOptions {
+    /**
+     * Natural key identifying an item across runs (the `.id` changes between routers).
+     * @example 'name' or ['list', 'address']
+     */
+    key: string | string[];
+    /**
+     * Extra fields to leave out of the comparison (added to the router-managed defaults:
+     * `.id`, `dynamic`, counters, runtime flags...).
+     */
+    ignore?: string[];
+    /**
+     * Set to true for menus where the order is meaningful (firewall, NAT, mangle, queues).
+     * The plan then includes the `move` operations needed to match the desired order.
+     * Default: false
+     */
+    ordered?: boolean;
+    /**
+     * Remove live items that are not declared in the desired state.
+     * Default: true
+     */
+    prune?: boolean;
+    /**
+     * Dynamic items (created by the router, e.g. PPP queues or DHCP leases) are never touched unless this is true.
+     * Default: false
+     */
+    includeDynamic?: boolean;
+    /**
+     * Abort `apply()` on the first failure instead of reporting it and continuing.
+     * Default: false
+     */
+    stopOnError?: boolean;
+}
+
+/**
+ * A single field that differs between the live item and the desired one.
+ */
+export interface FieldChange {
+    field: string;
+    before: string | undefined;
+    after: string;
+}
+
+export type ReconcileOperation =
+    | { action: 'add'; key: string; desired: Record<string, string> }
+    | { action: 'set'; key: string; id: string; changes: FieldChange[] }
+    | { action: 'remove'; key: string; id: string; current: Record<string, string> }
+    | { action: 'move'; key: string; beforeKey?: string };
+
+/** The operation variant of one action */
+type OperationOf<A extends ReconcileOperation['action']> = Extract<ReconcileOperation, { action: A }>;
+
+const isAction = <A extends ReconcileOperation['action']>(action: A) =>
+    (operation: ReconcileOperation): operation is OperationOf<A> => operation.action === action;
+
+/**
+ * Outcome of one operation during `apply()`.
+ */
+export interface ReconcileItemResult {
+    operation: ReconcileOperation;
+    status: 'applied' | 'failed' | 'skipped';
+    error?: Error;
+}
+
+/**
+ * Result of `apply()`.
+ */
+export interface ReconcileReport {
+    path: string;
+    plan: ReconcilePlan;
+    results: ReconcileItemResult[];
+    applied: number;
+    failed: number;
+    skipped: number;
+    /** True when every operation was applied */
+    ok: boolean;
+}
+
+/**
+ * Fields maintained by RouterOS itself. Comparing them would produce a diff on every run.
+ */
+export const ROUTER_MANAGED_FIELDS = [
+    '.id', '.nextid', '.dead', 'dynamic', 'invalid', 'running', 'disabled-by-router',
+    'bytes', 'packets', 'rate', 'total-bytes', 'total-packets', 'queued-bytes', 'queued-packets', 'dropped',
+    'rx-byte', 'tx-byte', 'rx-packet', 'tx-packet', 'rx-drop', 'tx-drop', 'rx-error', 'tx-error',
+    'creation-time', 'last-link-up-time', 'last-link-down-time', 'link-downs', 'actual-mtu'
+];
+
+/**
+ * ReconcilePlan
+ * * The dry-run result: the operations needed to turn the live menu into the desired state.
+ * * `toString()` renders a human-readable diff for reviews and CI logs.
+ */
+export class ReconcilePlan {
+    constructor(
+        public readonly path: string,
+        public readonly operations: ReconcileOperation[]
+    ) {}
+
+    /** True when the router already matches the desired state */
+    public isEmpty(): boolean {
+        return this.operations.length === 0;
+    }
+
+    /** Number of operations per action */
+    public get summary(): { add: number; set: number; remove: number; move: number } {
+        const summary = { add: 0, set: 0, remove: 0, move: 0 };
+        for (const op of this.operations) summary[op.action]++;
+        return summary;
+    }
+
+    /**
+     * Renders the plan as a diff.
+     * @example
+     * // /ip/firewall/address-list: 1 to add, 1 to change, 1 to remove, 0 to move
+     * // + [list=blocked,address=1.2.3.4] comment="spam"
+     * // ~ [list=blocked,address=5.6.7.8] comment: "old" -> "new"
+     * // - [list=blocked,address=9.9.9.9] (*1A)
+     */
+    public toString(): string {
+        const { add, set, remove, move } = this.summary;
+        const lines = [`${this.path}: ${add} to add, ${set} to change, ${remove} to remove, ${move} to move`];
+
+        for (const op of this.operations) {
+            switch (op.action) {
+                case 'add': {
+                    const fields = Object.entries(op.desired).map(([k, v]) => `${k}=${JSON.stringify(v)}`);
+                    lines.push(`+ [${op.key}] ${fields.join(' ')}`);
+                    break;
+                }
+                case 'set': {
+                    const fields = op.changes.map(c => `${c.field}: ${JSON.stringify(c.before ?? null)} -> ${JSON.stringify(c.after)}`);
+                    lines.push(`~ [${op.key}] ${fields.join(', ')}`);
+                    break;
+                }
+                case 'remove':
+                    lines.push(`- [${op.key}] (${op.id})`);
+                    break;
+                case 'move':
+                    lines.push(`> [${op.key}] move ${op.beforeKey ? `before [${op.beforeKey}]` : 'to the end'}`);
+                    break;
+            }
+        }
+
+        return lines.join('\n');
+    }
+}
+
+/**
+ * Reconciler
+ * * Declarative desired-state management for a single menu path.
+ * * `plan()` compares the declared items with the live menu (dry run) and `apply()` executes
+ * the add/set/remove/move operations through CommandBuilder, reporting per-item results.
+ * * Only the fields present in the desired items are managed; anything else on the router is left alone.
+ *
+ * @example
+ * const reconciler = client.reconcile('/ip/firewall/address-list', { key: ['list', 'address'] });
+ *
+ * const plan = await reconciler.plan([
+ * { list: 'blocked', address: '1.2.3.4', comment: 'spam' },
+ * { list: 'blocked', address: '5.6.7.8' }
+ * ]);
+ * console.log(plan.toString());
+ *
+ * const report = await reconciler.apply(plan);
+ * if (!report.ok) console.error(report.results.filter(r => r.status === 'failed'));
+ */
+export class Reconciler {
+    private readonly keyFields: string[];
+    private readonly ignored: Set<string>;
+    private readonly options: Required<Omit<ReconcileOptions, 'key' | 'ignore'>>;
+
+    constructor(
+        private readonly client: MikrotikClient,
+        public readonly path: string,
+        options: ReconcileOptions
+    ) {
+        const keys = Array.isArray(options.key) ? options.key : [options.key];
+        if (keys.length === 0) {
+            throw new Error('Reconciler: At least one key field is required.');
+        }
+
+        this.keyFields = keys.map(k => camelToKebab(k));
+        this.ignored = new Set([...ROUTER_MANAGED_FIELDS, ...(options.ignore || []).map(f => camelToKebab(f))]);
+        this.options = {
+            ordered: options.ordered ?? false,
+            prune: options.prune ?? true,
+            includeDynamic: options.includeDynamic ?? false,
+            stopOnError: options.stopOnError ?? false
+        };
+    }
+
+    // ==========================================
+    // PLAN (Dry Run)
+    // ==========================================
+
+    /**
+     * Computes the operations needed to reach the desired state. Nothing is changed on the router.
+     * @param desired The complete list of items that should exist (in order, for ordered menus).
+     */
+    public async plan(desired: Record<string, any>[]): Promise<ReconcilePlan> {
+        const live = await this.fetchLive();
+        const wanted = desired.map(item => this.normalizeDesired(item));
+
+        // Index desired items by natural key (duplicates are a declaration bug)
+        const wantedByKey = new Map<string, Record<string, string>>();
+        for (const item of wanted) {
+            const key = this.keyOf(item);
+            if (wantedByKey.has(key)) {
+                throw new Error(`Reconciler: Duplicate key [${key}] in the desired state of ${this.path}.`);
+            }
+            wantedByKey.set(key, item);
+        }
+
+        const operations: ReconcileOperation[] = [];
+        const matched = new Map<string, Record<string, string>>();
+
+        // REMOVE: unmanaged items (and extra copies of a managed key)
+        for (const item of live) {
+            const key = this.keyOf(item);
+            if (wantedByKey.has(key) && !matched.has(key)) {
+                matched.set(key, item);
+            } else if (this.options.prune || matched.has(key)) {
+                operations.push({ action: 'remove', key, id: item['.id'], current: item });
+            }
+        }
+
+        // SET: managed fields that drifted
+        for (const [key, item] of wantedByKey) {
+            const current = matched.get(key);
+            if (!current) continue;
+
+            const changes = this.diff(current, item);
+            if (changes.length > 0) {
+                operations.push({ action: 'set', key, id: current['.id'], changes });
+            }
+        }
+
+        // ADD: declared but missing
+        for (const [key, item] of wantedByKey) {
+            if (!matched.has(key)) operations.push({ action: 'add', key, desired: item });
+        }
+
+        // MOVE: ordered menus only
+        if (this.options.ordered) {
+            const removed = new Set(operations.filter(isAction('remove')).map(op => op.id));
+            const survivors = live.filter(item => !removed.has(item['.id'])).map(item => this.keyOf(item));
+            const added = wanted.map(item => this.keyOf(item)).filter(key => !matched.has(key));
+
+            // After removals and adds (appended at the end) this is the resulting order
+            operations.push(...this.planMoves([...survivors, ...added], wanted.map(item => this.keyOf(item))));
+        }
+
+        return new ReconcilePlan(this.path, operations);
+    }
+
+    // ==========================================
+    // APPLY
+    // ==========================================
+
+    /**
+     * Executes a plan (or plans and executes the given desired state).
+     * Order: removals, changes, additions, then moves. Failures are reported per item.
+     */
+    public async apply(planOrDesired: ReconcilePlan | Record<string, any>[]): Promise<ReconcileReport> {
+        const plan = planOrDesired instanceof ReconcilePlan ? planOrDesired : await this.plan(planOrDesired);
+        const builder = () => this.client.command(this.path);
+        const results: ReconcileItemResult[] = [];
+        let aborted = false;
+
+        const run = async (operation: ReconcileOperation, action: () => Promise<any>) => {
+            if (aborted) {
+                results.push({ operation, status: 'skipped' });
+                return;
+            }
+            try {
+                await action();
+                results.push({ operation, status: 'applied' });
+            } catch (error) {
+                results.push({ operation, status: 'failed', error: error as Error });
+                if (this.options.stopOnError) aborted = true;
+            }
+        };
+
+        const byAction = <A extends ReconcileOperation['action']>(action: A) => plan.operations.filter(isAction(action));
+
+        for (const op of byAction('remove')) {
+            await run(op, () => builder().remove(op.id));
+        }
+        for (const op of byAction('set')) {
+            const data = Object.fromEntries(op.changes.map(c => [c.field, c.after]));
+            await run(op, () => builder().set(op.id, data));
+        }
+        for (const op of byAction('add')) {
+            await run(op, () => builder().add(op.desired));
+        }
+
+        const moves = byAction('move');
+        if (moves.length > 0) {
+            // New items only got their .id now: resolve natural keys against a fresh read
+            const ids = new Map<string, string>();
+            if (!aborted) {
+                for (const item of await this.fetchLive()) ids.set(this.keyOf(item), item['.id']);
+            }
+
+            for (const op of moves) {
+                const id = ids.get(op.key);
+                const destination = op.beforeKey ? ids.get(op.beforeKey) : undefined;
+
+                if (!id || (op.beforeKey && !destination)) {
+                    results.push({ operation: op, status: 'skipped' });
+                    continue;
+                }
+
+                const params: Record<string, string> = { numbers: id };
+                if (destination) params['destination'] = destination;
+                await run(op, () => this.client.write(`${this.path}/move`, params));
+            }
+        }
+
+        const count = (status: ReconcileItemResult['status']) => results.filter(r => r.status === status).length;
+        const failed = count('failed');
+        const skipped = count('skipped');
+
+        return {
+            path: this.path,
+            plan,
+            results,
+            applied: count('applied'),
+            failed,
+            skipped,
+            ok: failed === 0 && skipped === 0
+        };
+    }
+
+    // ==========================================
+    // INTERNALS
+    // ==========================================
+
+    private async fetchLive(): Promise<Record<string, string>[]> {
+        // Bypasses the CommandBuilder read cache: a plan computed on stale rows would undo recent changes
+        const rows = await this.client.write(`${this.path}/print`);
+        return rows
+            .map(row => ResultParser.toRouterFormat(row, this.client.decoding, this.path))
+            .filter(row => this.options.includeDynamic || row['dynamic'] !== 'true');
+    }
+
+    private normalizeDesired(item: Record<string, any>): Record<string, string> {
+        const normalized = ResultParser.toRouterFormat(item, this.client.decoding, this.path);
+        for (const field of this.keyFields) {
+            if (normalized[field] === undefined) {
+                throw new Error(`Reconciler: Desired item is missing key field '${field}' (${this.path}).`);
+            }
+        }
+        return normalized;
+    }
+
+    private keyOf(item: Record<string, string>): string {
+        return this.keyFields.map(field => `${field}=${item[field] ?? ''}`).join(',');
+    }
+
+    /**
+     * Compares only the fields declared in the desired item.
+     */
+    private diff(current: Record<string, string>, desired: Record<string, string>): FieldChange[] {
+        const changes: FieldChange[] = [];
+        for (const [field, after] of Object.entries(desired)) {
+            if (this.ignored.has(field) || this.keyFields.includes(field)) continue;
+
+            const before = current[field];
+            if (!Reconciler.valuesEqual(before, after)) {
+                changes.push({ field, before, after });
+            }
+        }
+        return changes;
+    }
+
+    /**
+     * Minimal moves: items on the longest already-ordered subsequence stay put,
+     * the rest are moved (walking backwards) in front of their desired successor.
+     */
+    private planMoves(current: string[], target: string[]): ReconcileOperation[] {
+        const targetSet = new Set(target);
+        const position = new Map(current.filter(key => targetSet.has(key)).map((key, i) => [key, i]));
+        const sequence = target.map(key => position.get(key)!);
+        const stable = Reconciler.longestIncreasing(sequence);
+
+        const moves: ReconcileOperation[] = [];
+        for (let i = target.length - 1; i >= 0; i--) {
+            if (stable.has(i)) continue;
+            moves.push({ action: 'move', key: target[i], beforeKey: target[i + 1] });
+        }
+        return moves;
+    }
+
+    /**
+     * Indexes (into `sequence`) of one longest strictly increasing subsequence. O(n log n).
+     */
+    private static longestIncreasing(sequence: number[]): Set<number> {
+        const tails: number[] = [];
+        const previous: number[] = new Array(sequence.length).fill(-1);
+
+        sequence.forEach((value, i) => {
+            let low = 0;
+            let high = tails.length;
+            while (low < high) {
+                const mid = (low + high) >> 1;
+                if (sequence[tails[mid]] < value) low = mid + 1;
+                else high = mid;
+            }
+            if (low > 0) previous[i] = tails[low - 1];
+            tails[low] = i;
+        });
+
+        const result = new Set<number>();
+        let cursor = tails.length > 0 ? tails[tails.length - 1] : -1;
+        while (cursor !== -1) {
+            result.add(cursor);
+            cursor = previous[cursor];
+        }
+        return result;
+    }
+
+    /**
+     * RouterOS spells booleans both ways and may pad numbers differently than the declaration.
+     */
+    private static valuesEqual(current: string | undefined, desired: string): boolean {
+        if (current === desired) return true;
+        if (current === undefined) return desired === '';
+
+        const asBool = (v: string) => (v === 'yes' || v === 'true') ? 'true' : (v === 'no' || v === 'false') ? 'false' : null;
+        const a = asBool(current);
+        if (a !== null && a === asBool(desired)) return true;
+
+        return current !== '' && desired !== '' && !isNaN(Number(current)) && Number(current) === Number(desired);
+    }
+}
@@ -20,14 +20,50 @@
  * Use this to establish a single connection to a Mikrotik router.
  * It manages authentication, command execution, and streaming.
  */
-export { MikrotikClient, MikrotikOptions, Subscription } from './client/MikrotikClient';
+export {
+    MikrotikClient,
+    MikrotikOptions,
+    Subscription,
+    ReconnectingEvent,
+    ReconnectedEvent,
+    IWriteOptions,
+    IStreamOptions,
+    IListenOptions,
+    IDeadlineOptions,
+    ProtocolStats
+} from './client/MikrotikClient';
 
 /**
  * Connection Pool Manager.
  * Use this for high-concurrency environments. It opens multiple sockets
- * to the same router and uses a Round-Robin algorithm to distribute the load.
+ * to the same router and sends each command to the least busy one,
+ * replacing failed connections and growing/shrinking between minSize and maxSize.
+ * All sockets share one RateLimiter and CircuitBreaker; streams run on a dedicated connection.
  */
-export { MikrotikPool, PoolOptions } from './client/MikrotikPool';
+export { MikrotikPool, PoolOptions, PoolStats } from './client/MikrotikPool';
+
+/**
+ * Fleet Orchestrator.
+ * Broadcasts or multicasts commands to many routers at once, with partial-failure reporting.
+ * A swarm-wide `policy` is enforced by every node.
+ * `MikrotikSwarm.fromInventory()` loads the fleet from a hot-reloadable YAML/JSON inventory.
+ */
+export { MikrotikSwarm, MikrotikSwarmOptions, SwarmResult, SwarmInventoryOptions, InventoryChange } from './client/MikrotikSwarm';
+
+/**
+ * Rolling Rollouts.
+ * Options, progress events and per-node report of `swarm.rollout()`: canary batch, health gates,
+ * failure budget and rollback of the nodes already changed.
+ */
+export {
+    SwarmRollout,
+    RolloutStep,
+    RolloutOptions,
+    RolloutNodeStatus,
+    RolloutNodeResult,
+    RolloutReport,
+    RolloutEvent
+} from './client/SwarmRollout';
 
 /**
  * The Fluent API Engine.
@@ -36,6 +72,29 @@ export { MikrotikPool, PoolOptions } from './client/MikrotikPool';
  */
 export { CommandBuilder } from './client/CommandBuilder';
 
+/**
+ * Query Stack DSL.
+ * Compiles `where`, `orWhere`, `whereNot`, `whereGt`, `whereLt` and grouped conditions
+ * into RouterOS query words (socket) or the `.query` array (REST). Used by `CommandBuilder`.
+ */
+export { QueryBuilder } from './client/QueryBuilder';
+
+/**
+ * Transactions.
+ * Returned by `client.transaction()`. Applied steps are rolled back (in reverse order) when a step fails;
+ * `run()` returns the per-step report and `commit()` throws it inside a `TransactionError`.
+ */
+export {
+    MikrotikTransaction,
+    TransactionError,
+    TransactionReport,
+    TransactionStepResult,
+    TransactionStepStatus,
+    TransactionStepOptions,
+    TransactionCommand,
+    CheckpointOptions
+} from './client/MikrotikTransaction';
+
 // ===============================================
 // 2. FEATURES & TOOLS
 // ===============================================
@@ -54,6 +113,55 @@ export { PrometheusExporter, MetricDefinition, MetricType } from './features/Pro
  */
 export { FileManager } from './features/FileManager';
 
+/**
+ * Desired-State Reconciler.
+ * Computes (`plan`) and executes (`apply`) the add/set/remove/move operations that turn a live menu
+ * into a declared list of items. Obtain one through `client.reconcile(path, options)`.
+ */
+export {
+    Reconciler,
+    ReconcilePlan,
+    ReconcileOptions,
+    ReconcileOperation,
+    ReconcileReport,
+    ReconcileItemResult,
+    FieldChange
+} from './features/Reconciler';
+
+/**
+ * Fleet Inventory.
+ * Nodes, groups, tags and credential references behind `MikrotikSwarm.fromInventory()`,
+ * and the target expressions (`group:core && tag:v7 && !id:edge-3`) used by `swarm.select()` / `multicast()`.
+ */
+export {
+    Inventory,
+    InventoryDocument,
+    InventoryNode,
+    InventorySettings,
+    InventoryCredentials,
+    InventoryError,
+    NodeLabels,
+    ResolvedNode,
+    TargetExpression
+} from './features/Inventory';
+
+/**
+ * Live Snapshots.
+ * The subscription returned by `client.collection(path).onSnapshot()`. With `.onDiff()`, callbacks receive
+ * keyed diffs with per-field `{ field, before, after }` changes, computed from each applied packet.
+ */
+export {
+    SnapshotSubscription,
+    SnapshotDiff,
+    SnapshotDiffOptions,
+    SnapshotItemChange,
+    SnapshotFieldChange,
+    SnapshotStatus,
+    SnapshotObserver,
+    SnapshotObservation
+} from './client/SnapshotSubscription';
+export { LiveCollectionOptions, SnapshotCallback } from './features/LiveCollection';
+
 // ===============================================
 // 3. CORE CONFIGURATION & TYPES
 // ===============================================
@@ -65,6 +173,13 @@ export { FileManager } from './features/FileManager';
  */
 export { CircuitBreaker, CircuitBreakerOptions, CircuitBreakerState } from './core/CircuitBreaker';
 
+/**
+ * Reconnection Backoff Policy.
+ * Controls the delays, jitter and attempt limits used by the automatic
+ * reconnection supervisor (`reconnect` option).
+ */
+export { ReconnectPolicy, ReconnectOptions } from './core/ReconnectPolicy';
+
 /**
  * Rate Limiter Class.
  * Implements the Token Bucket algorithm to protect the router's CPU
@@ -72,6 +187,72 @@ export { CircuitBreaker, CircuitBreakerOptions, CircuitBreakerState } from './co
  */
 export { RateLimiter } from './core/RateLimiter';
 
+/**
+ * Middleware Pipeline.
+ * The chain behind `client.use()` / `client.middleware`, wrapped around every `write()`.
+ * The built-in 'queryCache', 'circuitBreaker' and 'rateLimiter' middlewares can be reordered, replaced or removed.
+ */
+export {
+    MiddlewarePipeline,
+    Middleware,
+    MiddlewareOptions,
+    CommandContext,
+    NextFunction,
+    BUILT_IN_MIDDLEWARES,
+    queryCacheMiddleware,
+    circuitBreakerMiddleware,
+    rateLimiterMiddleware
+} from './core/Middleware';
+export { QueryCache } from './core/QueryCache';
+
+/**
+ * Command Policy.
+ * Allow/deny rules on menu globs and verbs (`policy` option of the client and the swarm),
+ * checked before anything is sent. Refused commands raise `PolicyViolationError`.
+ * The 'read-only' preset only lets reads and monitors through.
+ */
+export { PolicyGuard, PolicyOptions, PolicyRule, PolicyViolationError } from './core/PolicyGuard';
+
+/**
+ * Structured Logging.
+ * Everything the library reports goes through the `logger` option (client, pool, swarm)
+ * with host/path/tag/duration fields and sensitive values masked.
+ * Defaults to `ConsoleLogger` (warnings and errors); pass `noopLogger` to silence it.
+ */
+export { Logger, LogLevel, LogContext, ConsoleLogger, ConsoleLoggerOptions, ContextLogger, noopLogger } from './core/Logger';
+
+/**
+ * Secret Redaction.
+ * Built-in list of sensitive RouterOS fields (plus the `redact` option) applied to
+ * error messages, `RosError.toJSON()`, logger output and cassettes.
+ */
+export { Redactor } from './core/Redactor';
+
+/**
+ * Typed Values.
+ * Decoding profiles (`decoding` option) that turn durations, rates, sizes, dates, MAC/IP addresses
+ * and tx/rx pairs into JS values per path or field, a lossless mode that never coerces,
+ * and the matching encoders used by `CommandBuilder.add()` / `set()`.
+ */
+export {
+    DecodingProfile,
+    DecodingOptions,
+    ValueCodec,
+    CodecName,
+    FieldCodecs,
+    Codecs,
+    TxRx,
+    MacAddress,
+    IpAddress
+} from './core/ValueCodec';
+
+/**
+ * Stream Iterators.
+ * `for await` over `client.iterate()`, `CommandBuilder.iterate()` / `iterateMonitor()` and snapshots,
+ * with a bounded buffer and an overflow policy. Leaving the loop cancels the stream.
+ */
+export { StreamIterator, IteratorOptions, OverflowPolicy, StreamOverflowError } from './core/StreamIterator';
+
 /**
  * Schema Mapper Class.
  * Responsible for detecting RouterOS versions (v6 vs v7) and translating
@@ -79,6 +260,56 @@ export { RateLimiter } from './core/RateLimiter';
  */
 export { SchemaMapper } from './core/SchemaMapper';
 
+/**
+ * Typed Errors.
+ * `RosError` is raised for router failures (REST statuses, socket `!trap` as `RosTrapError`,
+ * `!fatal` as `RosFatalError`), with the same predicates on both protocols.
+ * `RosTimeoutError` and `RosAbortError` are raised when a command exceeds its `timeoutMs` or its `AbortSignal` fires.
+ */
+export {
+    RosError,
+    RosTimeoutError,
+    RosAbortError,
+    RosTrapError,
+    RosFatalError,
+    RosTrapCategory
+} from './core/RosError';
+
+/**
+ * Traffic Recorder & Replay.
+ * Captures a session into a versioned NDJSON cassette (secrets redacted) and replays it offline.
+ * Enable it through `MikrotikOptions.cassette`; `CassetteMismatchError` is raised when the app diverges from the recording.
+ */
+export {
+    TrafficRecorder,
+    CassetteOptions,
+    CassetteHeader,
+    CassetteEntry,
+    CASSETTE_VERSION,
+    REDACTED
+} from './core/TrafficRecorder';
+export { Cassette, ReplaySocket, ReplayRest, CassetteMismatchError } from './core/ReplayTransport';
+
+/**
+ * SSH Transport.
+ * The CLI channel behind `client.ssh`, with key-based auth and host-key pinning.
+ */
+export { SshChannel, SshOptions, SshExecResult, SshExecOptions } from './core/SshChannel';
+
+/**
+ * Offline Queue.
+ * The per-router queue behind `client.offlineQueue` and its stores.
+ * Use `JsonFileQueueStore` in `MikrotikOptions.offlineQueue` to survive restarts.
+ */
+export {
+    OfflineQueue,
+    OfflineQueueOptions,
+    OfflineQueueStore,
+    MemoryQueueStore,
+    JsonFileQueueStore,
+    DeferredTask
+} from './core/OfflineQueue';
+
 // ===============================================
 // 4. UTILITIES & DATA STRUCTURES
 // ===============================================
@@ -102,3 +333,27 @@ export { MikrotikCollection } from './utils/MikrotikCollection';
  * string manipulation utilities used throughout the library.
  */
 export * from './utils/Helpers';
+
+// ===============================================
+// 5. TESTING
+// ===============================================
+
+/**
+ * In-process RouterOS emulator.
+ * Speaks the binary API (plain & TLS) and the HTTPS `/rest` routes, backed by an in-memory menu tree.
+ * Lets you run MikrotikClient, LiveCollection, MikrotikPool and MikrotikSwarm end to end without a router.
+ */
+export {
+    MockRouterServer,
+    MockRouterOptions,
+    MockRouterAddress,
+    MockTrapRule,
+    MockCommandRecord,
+    MockCommandHandler,
+    MockStreamHandler
+} from './testing/MockRouterServer';
+
+/**
+ * The configuration store behind MockRouterServer (seed, inspect and query menus directly).
+ */
+export { MockMenuStore, MockItem, MockCommandError, MockStoreSnapshot } from './testing/MockMenuStore';
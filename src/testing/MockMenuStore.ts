@@ -0,0 +1,327 @@
+import { EventEmitter } from 'events';
+
+/**
+ * A menu item as RouterOS stores it: every value is a string.
+ */
+export type MockItem = Record<string, string>;
+
+/**
+ * Frozen copy of the store (see `snapshot()` / `restore()`).
+ */
+export interface MockStoreSnapshot {
+    menus: Map<string, MockItem[]>;
+    singletons: Map<string, MockItem>;
+}
+
+/**
+ * Error raised by the mock to simulate a RouterOS failure.
+ * Rendered as `!trap` on the socket API and as a JSON error body on REST.
+ */
+export class MockCommandError extends Error {
+    constructor(
+        message: string,
+        /** RouterOS trap category (0 = missing item/command, 1 = argument failure, ...) */
+        public readonly category?: number,
+        /** HTTP status used by the REST transport (Default: 400) */
+        public readonly status: number = 400
+    ) {
+        super(message);
+        this.name = 'MockCommandError';
+        Object.setPrototypeOf(this, MockCommandError.prototype);
+    }
+}
+
+/**
+ * MockMenuStore
+ * * The in-memory "configuration database" behind MockRouterServer.
+ * * Holds ordered list menus (e.g. `/ip/address`) and singleton menus (e.g. `/system/resource`),
+ * allocates `.id` values and evaluates RouterOS query stacks.
+ * * Emits 'change' (path, item, dead) on every mutation so `=follow=` prints can stream it.
+ */
+export class MockMenuStore extends EventEmitter {
+    private menus = new Map<string, MockItem[]>();
+    private singletons = new Map<string, MockItem>();
+    private nextId = 1;
+
+    // ==========================================
+    // SEEDING & INSPECTION
+    // ==========================================
+
+    /**
+     * Appends items to a list menu, allocating `.id` values when missing.
+     */
+    public seed(path: string, items: Record<string, any>[]): MockItem[] {
+        return items.map(item => this.insert(this.normalizePath(path), this.toItem(item)));
+    }
+
+    /**
+     * Defines (or merges into) a singleton menu like `/system/resource` or `/ip/dns`.
+     */
+    public setSingleton(path: string, values: Record<string, any>): MockItem {
+        const cleanPath = this.normalizePath(path);
+        const merged = { ...(this.singletons.get(cleanPath) || {}), ...this.toItem(values) };
+        this.singletons.set(cleanPath, merged);
+        this.emit('change', cleanPath, merged, false);
+        return merged;
+    }
+
+    public isSingleton(path: string): boolean {
+        return this.singletons.has(this.normalizePath(path));
+    }
+
+    /**
+     * Returns a copy of the items of a menu (singletons are returned as a one-item list).
+     */
+    public list(path: string): MockItem[] {
+        const cleanPath = this.normalizePath(path);
+        const singleton = this.singletons.get(cleanPath);
+        if (singleton) return [{ ...singleton }];
+        return (this.menus.get(cleanPath) || []).map(item => ({ ...item }));
+    }
+
+    public get(path: string, id: string): MockItem | undefined {
+        const item = this.find(this.normalizePath(path), id);
+        return item ? { ...item } : undefined;
+    }
+
+    /**
+     * Deep copy of every menu. `restore()` puts it back without notifying followers
+     * (a change that clients never hear about).
+     */
+    public snapshot(): MockStoreSnapshot {
+        return {
+            menus: new Map(Array.from(this.menus, ([path, items]) => [path, items.map(item => ({ ...item }))])),
+            singletons: new Map(Array.from(this.singletons, ([path, item]) => [path, { ...item }]))
+        };
+    }
+
+    /**
+     * Puts back a snapshot. `.id` allocation keeps counting (the router never reuses ids).
+     */
+    public restore(snapshot: MockStoreSnapshot): void {
+        this.menus = new Map(Array.from(snapshot.menus, ([path, items]) => [path, items.map(item => ({ ...item }))]));
+        this.singletons = new Map(Array.from(snapshot.singletons, ([path, item]) => [path, { ...item }]));
+    }
+
+    /**
+     * Removes every menu and singleton.
+     */
+    public clear(): void {
+        this.menus.clear();
+        this.singletons.clear();
+        this.nextId = 1;
+    }
+
+    // ==========================================
+    // MUTATIONS
+    // ==========================================
+
+    public add(path: string, params: Record<string, any>): MockItem {
+        const cleanPath = this.normalizePath(path);
+        const values = this.toItem(params);
+        delete values['.id'];
+
+        // Most menus reject duplicate names. Mirrors the message RosError.isDuplicate looks for.
+        if (values['name'] !== undefined) {
+            const clash = (this.menus.get(cleanPath) || []).some(i => i['name'] === values['name']);
+            if (clash) {
+                throw new MockCommandError('failure: item with such name already exists', undefined, 400);
+            }
+        }
+
+        return { ...this.insert(cleanPath, values) };
+    }
+
+    public set(path: string, id: string | undefined, params: Record<string, any>): MockItem {
+        const cleanPath = this.normalizePath(path);
+        const values = this.toItem(params);
+        delete values['.id'];
+        delete values['numbers'];
+
+        // Singleton menus are updated without an id
+        if (!id && this.singletons.has(cleanPath)) {
+            return { ...this.setSingleton(cleanPath, values) };
+        }
+
+        const item = id ? this.find(cleanPath, id) : undefined;
+        if (!item) throw new MockCommandError('no such item', 0, 404);
+
+        Object.assign(item, values);
+        this.emit('change', cleanPath, { ...item }, false);
+        return { ...item };
+    }
+
+    public unset(path: string, id: string, field: string): MockItem {
+        const cleanPath = this.normalizePath(path);
+        const item = this.find(cleanPath, id);
+        if (!item) throw new MockCommandError('no such item', 0, 404);
+
+        delete item[field];
+        this.emit('change', cleanPath, { ...item }, false);
+        return { ...item };
+    }
+
+    public remove(path: string, ids: string[]): void {
+        const cleanPath = this.normalizePath(path);
+        const items = this.menus.get(cleanPath) || [];
+
+        // Validate first so a bad id in a batch does not leave a half-applied removal
+        const targets = ids.map(id => {
+            const item = this.find(cleanPath, id);
+            if (!item) throw new MockCommandError('no such item', 0, 404);
+            return item;
+        });
+
+        for (const target of targets) {
+            items.splice(items.indexOf(target), 1);
+            this.emit('change', cleanPath, { '.id': target['.id'] }, true);
+        }
+    }
+
+    /**
+     * Moves an item before `destination` (or to the end when no destination is given).
+     */
+    public move(path: string, id: string, destination?: string): void {
+        const cleanPath = this.normalizePath(path);
+        const items = this.menus.get(cleanPath) || [];
+        const item = this.find(cleanPath, id);
+        if (!item) throw new MockCommandError('no such item', 0, 404);
+
+        items.splice(items.indexOf(item), 1);
+
+        if (destination) {
+            const target = this.find(cleanPath, destination);
+            if (!target) throw new MockCommandError('no such item', 0, 404);
+            items.splice(items.indexOf(target), 0, item);
+        } else {
+            items.push(item);
+        }
+        this.emit('change', cleanPath, { ...item }, false);
+    }
+
+    // ==========================================
+    // QUERY EVALUATION
+    // ==========================================
+
+    /**
+     * Returns the items of a menu matching a RouterOS query stack.
+     * @param words Query words with or without the leading '?' (e.g. `?>rx-byte=100`, `?#|`).
+     */
+    public query(path: string, words: string[]): MockItem[] {
+        return this.list(path).filter(item => MockMenuStore.matches(item, words));
+    }
+
+    /**
+     * Evaluates a RouterOS query stack against a single item.
+     *
+     * Supported words (per the RouterOS API manual):
+     * - `name` pushes true if the item has the property.
+     * - `-name` pushes true if the item does NOT have the property.
+     * - `name=x`, `<name=x`, `>name=x` push the comparison result.
+     * - `#ops` applies stack operations: `!` (not), `&` (and), `|` (or), `.` (dup), digits (copy Nth value).
+     * After evaluation every value left on the stack must be true.
+     */
+    public static matches(item: MockItem, words: string[]): boolean {
+        const stack: boolean[] = [];
+
+        for (const rawWord of words) {
+            const word = rawWord.startsWith('?') ? rawWord.substring(1) : rawWord;
+
+            if (word.startsWith('#')) {
+                MockMenuStore.applyOperations(word.substring(1), stack);
+                continue;
+            }
+
+            if (word.startsWith('-')) {
+                stack.push(item[word.substring(1)] === undefined);
+                continue;
+            }
+
+            const operator = word[0] === '<' || word[0] === '>' ? word[0] : '=';
+            const body = operator === '=' ? word : word.substring(1);
+            const separator = body.indexOf('=');
+
+            if (separator === -1) {
+                stack.push(item[body] !== undefined);
+                continue;
+            }
+
+            const key = body.substring(0, separator);
+            const expected = body.substring(separator + 1);
+            const actual = item[key];
+
+            if (operator === '=') {
+                stack.push((actual ?? '') === expected);
+            } else {
+                stack.push(actual !== undefined && MockMenuStore.compare(actual, expected, operator));
+            }
+        }
+
+        return stack.every(Boolean);
+    }
+
+    private static applyOperations(operations: string, stack: boolean[]): void {
+        const pop = () => stack.pop() ?? false;
+
+        for (let i = 0; i < operations.length; i++) {
+            const op = operations[i];
+
+            if (op === '!') stack.push(!pop());
+            else if (op === '&') { const b = pop(); const a = pop(); stack.push(a && b); }
+            else if (op === '|') { const b = pop(); const a = pop(); stack.push(a || b); }
+            else if (op === '.') stack.push(stack.length > 0 ? stack[stack.length - 1] : false);
+            else if (/\d/.test(op)) {
+                let digits = op;
+                while (i + 1 < operations.length && /\d/.test(operations[i + 1])) digits += operations[++i];
+                stack.push(stack[Number(digits)] ?? false);
+            }
+        }
+    }
+
+    private static compare(actual: string, expected: string, operator: '<' | '>'): boolean {
+        const a = Number(actual);
+        const b = Number(expected);
+        const numeric = actual !== '' && expected !== '' && !isNaN(a) && !isNaN(b);
+
+        if (numeric) return operator === '<' ? a < b : a > b;
+        return operator === '<' ? actual < expected : actual > expected;
+    }
+
+    // ==========================================
+    // INTERNALS
+    // ==========================================
+
+    private insert(path: string, values: MockItem): MockItem {
+        const item: MockItem = { '.id': values['.id'] || this.allocateId(), ...values };
+        if (!this.menus.has(path)) this.menus.set(path, []);
+        this.menus.get(path)!.push(item);
+        this.emit('change', path, { ...item }, false);
+        return item;
+    }
+
+    private find(path: string, id: string): MockItem | undefined {
+        // RouterOS also accepts the item name where an id is expected
+        return (this.menus.get(path) || []).find(i => i['.id'] === id || i['name'] === id);
+    }
+
+    private allocateId(): string {
+        return '*' + (this.nextId++).toString(16).toUpperCase();
+    }
+
+    private normalizePath(path: string): string {
+        const withSlash = path.startsWith('/') ? path : '/' + path;
+        return withSlash.length > 1 ? withSlash.replace(/\/+$/, '') : withSlash;
+    }
+
+    /**
+     * Converts JS values to the string representation RouterOS stores.
+     */
+    private toItem(values: Record<string, any>): MockItem {
+        const item: MockItem = {};
+        for (const [key, value] of Object.entries(values)) {
+            if (value === undefined || value === null) continue;
+            item[key] = typeof value === 'boolean' ? (value ? 'true' : 'false') : String(value);
+        }
+        return item;
+    }
+}
@@ -0,0 +1,129 @@
+import { test, describe, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MockRouterServer } from './MockRouterServer';
+import { MikrotikClient } from '../client/MikrotikClient';
+import { noopLogger } from '../core/Logger';
+
+describe('MockRouterServer', () => {
+    let mock: MockRouterServer;
+    let client: MikrotikClient;
+
+    before(async () => {
+        mock = new MockRouterServer({ seed: { '/ppp/secret': [{ name: 'john', profile: 'default' }] } });
+        await mock.start();
+        client = mock.client();
+        await client.connect();
+    });
+
+    after(async () => {
+        await mock.stop();
+    });
+
+    test('serves the seeded menu', async () => {
+        const rows = await client.write('/ppp/secret/print');
+        assert.equal(rows.length, 1);
+        assert.equal(rows[0].name, 'john');
+    });
+
+    test('adds, sets and removes items', async () => {
+        const [added] = await client.write('/ppp/secret/add', { name: 'jane' });
+        const id = added.ret;
+        assert.ok(mock.store.get('/ppp/secret', id));
+
+        await client.write('/ppp/secret/set', { '.id': id, profile: 'vip' });
+        assert.equal(mock.store.get('/ppp/secret', id)!.profile, 'vip');
+
+        await client.write('/ppp/secret/remove', { '.id': id });
+        assert.equal(mock.store.get('/ppp/secret', id), undefined);
+    });
+
+    test('filters with queries', async () => {
+        const rows = await client.command('/ppp/secret').where('name', 'john').print();
+        assert.deepEqual(rows.toArray().map(row => row.name), ['john']);
+    });
+
+    test('answers injected traps', async () => {
+        mock.injectTrap({ command: '/ppp/secret/add', message: 'failure: out of memory' });
+        await assert.rejects(client.write('/ppp/secret/add', { name: 'x' }), /out of memory/);
+    });
+
+    test('records the commands it receives', async () => {
+        const seen: string[] = [];
+        const listener = (record: { command: string }) => seen.push(record.command);
+        mock.on('command', listener);
+        await client.write('/system/identity/print');
+        mock.off('command', listener);
+        assert.ok(seen.includes('/system/identity/print'));
+    });
+});
+
+describe('End to end on the mock', () => {
+    let mock: MockRouterServer;
+
+    before(async () => {
+        mock = new MockRouterServer({ seed: { '/ip/address': [{ address: '10.0.0.1/24', interface: 'ether1' }] } });
+        await mock.start();
+    });
+
+    after(async () => {
+        await mock.stop();
+    });
+
+    test('clients made by the mock log in as its first user and are closed by stop()', async () => {
+        const other = new MockRouterServer({ users: { noc: 's3cret' } });
+        await other.start();
+        const client = other.client();
+        await client.connect();
+
+        assert.equal(client.isConnected, true);
+        await other.stop();
+        assert.equal(client.isConnected, false);
+    });
+
+    test('LiveCollection follows changes made on the router', async () => {
+        const client = mock.client();
+        await client.connect();
+
+        const snapshots: any[][] = [];
+        const subscription = client.collection('/ip/address').onSnapshot(items => snapshots.push(items as any[]));
+        await new Promise(resolve => subscription.onReady(resolve));
+
+        mock.store.add('/ip/address', { address: '10.0.1.1/24', interface: 'ether2' });
+        await waitFor(() => snapshots.some(items => items.length === 2));
+
+        subscription.stop();
+    });
+
+    test('MikrotikPool spreads commands over its connections', async () => {
+        const { MikrotikPool } = await import('../client/MikrotikPool');
+        const pool = new MikrotikPool({ ...mock.clientOptions(), poolSize: 2, healthCheckInterval: 0, streamConnection: false });
+        await pool.connect();
+
+        const rows = await Promise.all([1, 2, 3].map(() => pool.write('/ip/address/print')));
+        assert.ok(rows.every(result => result.length >= 1));
+        assert.equal(pool.stats().size, 2);
+
+        pool.close();
+    });
+
+    test('MikrotikSwarm broadcasts to every node', async () => {
+        const { MikrotikSwarm } = await import('../client/MikrotikSwarm');
+        const swarm = new MikrotikSwarm({ logger: noopLogger });
+        swarm.addNode('a', mock.clientOptions());
+        swarm.addNode('b', mock.clientOptions());
+        await swarm.connectAll();
+
+        const results = await swarm.broadcast('/system/identity/print');
+        assert.deepEqual(results.map(result => [result.nodeId, result.success]), [['a', true], ['b', true]]);
+
+        swarm.closeAll();
+    });
+});
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+        if (Date.now() > deadline) throw new Error('Condition not met in time');
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }
+}
@@ -0,0 +1,750 @@
+import * as net from 'net';
+import * as tls from 'tls';
+import * as https from 'https';
+import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { IncomingMessage, ServerResponse } from 'http';
+import { RosProtocol } from '../core/RosProtocol';
+import { Auth } from '../core/Auth';
+import { RosHttpMessages } from '../core/HttpConstants';
+import { MockMenuStore, MockItem, MockCommandError } from './MockMenuStore';
+import { MikrotikClient, MikrotikOptions } from '../client/MikrotikClient';
+import { noopLogger } from '../core/Logger';
+
+/**
+ * Configuration for the in-process mock router.
+ */
+export interface MockRouterOptions {
+    /** Interface to bind (Default: '127.0.0.1') */
+    host?: string;
+    /** Plain API port. Use 0 for a random free port (Default: 0) */
+    port?: number;
+    /**
+     * Key & certificate (PEM). Enables the API-SSL listener and the HTTPS `/rest` server.
+     * RestProtocol only speaks HTTPS, so REST tests require these.
+     */
+    tls?: { key: string | Buffer; cert: string | Buffer };
+    /** API-SSL port when `tls` is set (Default: 0) */
+    sslPort?: number;
+    /** HTTPS REST port when `tls` is set (Default: 0) */
+    restPort?: number;
+    /** Accepted credentials (Default: `{ admin: '' }`) */
+    users?: Record<string, string>;
+    /**
+     * Login handshake to emulate.
+     * - 'plain': RouterOS >= 6.43 (name + password in a single /login).
+     * - 'challenge': Legacy MD5 challenge/response.
+     * Default: 'plain'
+     */
+    loginMode?: 'plain' | 'challenge';
+    /** Reported RouterOS version (Default: '7.14.3') */
+    version?: string;
+    /** Initial menu contents, e.g. `{ '/ip/address': [{ address: '10.0.0.1/24', interface: 'ether1' }] }` */
+    seed?: Record<string, Record<string, any>[]>;
+    /**
+     * Menus the `/rest` server does not expose (answered with a bare 404, like the router).
+     * Exercises the per-command socket fallback of `protocol: 'auto'`.
+     */
+    restUnavailable?: string[];
+}
+
+/**
+ * Listening addresses returned by `start()`.
+ */
+export interface MockRouterAddress {
+    host: string;
+    port: number;
+    sslPort?: number;
+    restPort?: number;
+}
+
+/**
+ * Scripted failure injected with `injectTrap()`.
+ */
+export interface MockTrapRule {
+    /** Exact command (e.g. `/ip/address/add`) or a pattern */
+    command: string | RegExp;
+    /** Trap message (e.g. 'failure: already have such address') */
+    message: string;
+    /** Trap category for the socket API */
+    category?: number;
+    /** HTTP status for REST (Default: 400) */
+    status?: number;
+    /** How many times to fire before the rule expires (Default: 1) */
+    times?: number;
+}
+
+/**
+ * A command as observed by the mock (emitted through the 'command' event).
+ */
+export interface MockCommandRecord {
+    transport: 'api' | 'rest';
+    command: string;
+    params: Record<string, string>;
+    queries: string[];
+}
+
+/** Custom handler for action commands (e.g. `/system/reboot`, `/tool/fetch`). */
+export type MockCommandHandler = (params: Record<string, string>) => Record<string, any>[] | void | Promise<Record<string, any>[] | void>;
+
+/** Custom handler for streaming commands (e.g. `/interface/monitor-traffic`). Returns a cleanup function. */
+export type MockStreamHandler = (params: Record<string, string>, emit: (row: Record<string, any>) => void) => (() => void) | void;
+
+/**
+ * Internal per-connection state of the binary API.
+ */
+interface ApiSession {
+    socket: net.Socket;
+    buffer: Buffer;
+    words: string[];
+    authenticated: boolean;
+    challenge: string | null;
+    /** Active follow/stream tags -> cleanup */
+    streams: Map<string, () => void>;
+}
+
+/**
+ * **MockRouterServer**
+ *
+ * An in-process RouterOS emulator for offline and CI testing.
+ * * Speaks the binary API protocol (via RosProtocol) over TCP and, optionally, TLS.
+ * * Serves the `/rest` HTTPS routes that RestProtocol expects.
+ * * Backed by `MockMenuStore`: `.id` allocation, add/set/remove/move/print,
+ * query stacks, `=follow=` streaming with `.dead` packets.
+ * * Supports both `/login` flows and scriptable `!trap` injection.
+ *
+ * @example
+ * const mock = new MockRouterServer({ seed: { '/ppp/secret': [{ name: 'john', profile: 'default' }] } });
+ * const { host, port } = await mock.start();
+ *
+ * const client = new MikrotikClient({ host, port, user: 'admin', password: '', allowInsecureConfig: true });
+ * await client.connect();
+ *
+ * mock.injectTrap({ command: '/ppp/secret/add', message: 'failure: out of memory' });
+ * await client.command('/ppp/secret').add({ name: 'jane' }); // rejects
+ *
+ * client.close();
+ * await mock.stop();
+ *
+ * @example
+ * // Tests: clients made by the mock are closed by stop()
+ * const client = mock.client({ reconnect: true });
+ * await client.connect();
+ */
+export class MockRouterServer extends EventEmitter {
+    /** The in-memory configuration. Seed or inspect it directly from tests. */
+    public readonly store = new MockMenuStore();
+
+    private readonly options: Required<Pick<MockRouterOptions, 'host' | 'port' | 'loginMode' | 'version'>> & MockRouterOptions;
+    private readonly users: Record<string, string>;
+
+    private apiServer: net.Server | null = null;
+    private sslServer: tls.Server | null = null;
+    private restServer: https.Server | null = null;
+    private sessions = new Set<ApiSession>();
+    private address: MockRouterAddress | null = null;
+    private clients: MikrotikClient[] = [];
+
+    private trapRules: MockTrapRule[] = [];
+    private handlers = new Map<string, MockCommandHandler>();
+    private streamHandlers = new Map<string, MockStreamHandler>();
+
+    constructor(options: MockRouterOptions = {}) {
+        super();
+        this.options = {
+            host: '127.0.0.1',
+            port: 0,
+            loginMode: 'plain',
+            version: '7.14.3',
+            ...options
+        };
+        this.users = options.users || { admin: '' };
+        this.seedDefaults();
+    }
+
+    // ==========================================
+    // LIFECYCLE
+    // ==========================================
+
+    /**
+     * Starts every configured listener.
+     * @returns The bound addresses (useful when ports are 0 / random).
+     */
+    public async start(): Promise<MockRouterAddress> {
+        const handler = (socket: net.Socket) => this.acceptApiSession(socket);
+
+        this.apiServer = net.createServer(handler);
+        const address: MockRouterAddress = {
+            host: this.options.host,
+            port: await this.listen(this.apiServer, this.options.port)
+        };
+
+        if (this.options.tls) {
+            this.sslServer = tls.createServer({ ...this.options.tls }, handler);
+            address.sslPort = await this.listen(this.sslServer, this.options.sslPort || 0);
+
+            this.restServer = https.createServer({ ...this.options.tls }, (req, res) => {
+                this.handleRestRequest(req, res).catch(err => this.sendRestError(res, err));
+            });
+            address.restPort = await this.listen(this.restServer, this.options.restPort || 0);
+        }
+
+        this.address = address;
+        return address;
+    }
+
+    /**
+     * Closes the clients made by `client()`, then all client sessions and listeners.
+     */
+    public async stop(): Promise<void> {
+        this.clients.splice(0).forEach(client => client.close());
+
+        for (const session of this.sessions) {
+            session.streams.forEach(cleanup => cleanup());
+            session.socket.destroy();
+        }
+        this.sessions.clear();
+
+        const close = (server: net.Server | null) => new Promise<void>(resolve => {
+            if (!server) return resolve();
+            server.close(() => resolve());
+        });
+
+        if (this.restServer) this.restServer.closeAllConnections();
+        await Promise.all([close(this.apiServer), close(this.sslServer), close(this.restServer)]);
+        this.apiServer = this.sslServer = this.restServer = null;
+    }
+
+    /**
+     * Simulates a network failure: drops every API session without a goodbye.
+     * Handy to exercise the client's reconnection supervisor.
+     */
+    public dropConnections(): void {
+        for (const session of this.sessions) {
+            session.streams.forEach(cleanup => cleanup());
+            session.socket.destroy();
+        }
+        this.sessions.clear();
+    }
+
+    // ==========================================
+    // CLIENTS
+    // ==========================================
+
+    /**
+     * Options of a client for this mock: the plain API port, the first configured user,
+     * no `.env` check and no log output. `extra` wins.
+     * For code that builds its own clients (pools, swarms).
+     */
+    public clientOptions(extra: Partial<MikrotikOptions> = {}): MikrotikOptions {
+        if (!this.address) throw new Error('MockRouterServer: Call start() first.');
+        const [user, password] = Object.entries(this.users)[0] || ['admin', ''];
+        return {
+            host: this.address.host, port: this.address.port, user, password, allowInsecureConfig: true, logger: noopLogger,
+            ...extra
+        };
+    }
+
+    /**
+     * A client of this mock, not connected yet. `stop()` closes it.
+     */
+    public client(extra: Partial<MikrotikOptions> = {}): MikrotikClient {
+        const client = new MikrotikClient(this.clientOptions(extra));
+        this.clients.push(client);
+        return client;
+    }
+
+    // ==========================================
+    // SCRIPTING
+    // ==========================================
+
+    /**
+     * Makes the next matching command(s) fail with a `!trap` (or a REST error).
+     */
+    public injectTrap(rule: MockTrapRule): this {
+        this.trapRules.push({ times: 1, ...rule });
+        return this;
+    }
+
+    /**
+     * Registers the result of an action command (anything that is not a standard menu verb).
+     */
+    public handle(command: string, handler: MockCommandHandler): this {
+        this.handlers.set(command, handler);
+        return this;
+    }
+
+    /**
+     * Registers a streaming command that keeps emitting `!re` until cancelled.
+     */
+    public handleStream(command: string, handler: MockStreamHandler): this {
+        this.streamHandlers.set(command, handler);
+        return this;
+    }
+
+    // ==========================================
+    // BINARY API TRANSPORT
+    // ==========================================
+
+    private acceptApiSession(socket: net.Socket): void {
+        const session: ApiSession = {
+            socket,
+            buffer: Buffer.alloc(0),
+            words: [],
+            authenticated: false,
+            challenge: null,
+            streams: new Map()
+        };
+        this.sessions.add(session);
+
+        socket.setNoDelay(true);
+        socket.on('data', (chunk: Buffer) => this.handleApiData(session, chunk));
+        socket.on('error', () => socket.destroy());
+        socket.on('close', () => {
+            session.streams.forEach(cleanup => cleanup());
+            session.streams.clear();
+            this.sessions.delete(session);
+        });
+    }
+
+    private handleApiData(session: ApiSession, chunk: Buffer): void {
+        session.buffer = Buffer.concat([session.buffer, chunk]);
+
+        while (session.buffer.length > 0) {
+            const lengthInfo = RosProtocol.decodeLength(session.buffer);
+            if (!lengthInfo) break;
+
+            const total = lengthInfo.byteLength + lengthInfo.length;
+            if (session.buffer.length < total) break;
+
+            const word = session.buffer.slice(lengthInfo.byteLength, total).toString('utf8');
+            session.buffer = session.buffer.slice(total);
+
+            if (word.length === 0) {
+                const sentence = session.words;
+                session.words = [];
+                if (sentence.length > 0) {
+                    this.handleApiSentence(session, sentence).catch(err => {
+                        const tag = sentence.find(w => w.startsWith('.tag='))?.substring(5);
+                        this.sendTrap(session, tag, err);
+                    });
+                }
+            } else {
+                session.words.push(word);
+            }
+        }
+    }
+
+    private async handleApiSentence(session: ApiSession, words: string[]): Promise<void> {
+        const command = words[0];
+        const params: Record<string, string> = {};
+        const queries: string[] = [];
+        let tag: string | undefined;
+
+        for (const word of words.slice(1)) {
+            if (word.startsWith('.tag=')) tag = word.substring(5);
+            else if (word.startsWith('?')) queries.push(word);
+            else if (word.startsWith('=')) {
+                const separator = word.indexOf('=', 1);
+                if (separator === -1) params[word.substring(1)] = '';
+                else params[word.substring(1, separator)] = word.substring(separator + 1);
+            }
+        }
+
+        this.emit('command', { transport: 'api', command, params, queries } as MockCommandRecord);
+
+        // --- SESSION COMMANDS ---
+        if (command === '/login') return this.handleLogin(session, params, tag);
+
+        if (!session.authenticated) {
+            this.sendSentence(session, ['!fatal', 'not logged in']);
+            session.socket.end();
+            return;
+        }
+
+        if (command === '/quit') {
+            this.sendSentence(session, ['!fatal', 'session terminated on request']);
+            session.socket.end();
+            return;
+        }
+
+        if (command === '/cancel') {
+            const target = params['tag'];
+            const cleanup = target ? session.streams.get(target) : undefined;
+            if (cleanup && target) {
+                cleanup();
+                session.streams.delete(target);
+                this.sendSentence(session, ['!trap', '=category=2', '=message=interrupted', `.tag=${target}`]);
+                this.sendSentence(session, ['!done', `.tag=${target}`]);
+            }
+            this.sendSentence(session, ['!done', ...this.tagWord(tag)]);
+            return;
+        }
+
+        this.checkInjectedTraps(command);
+
+        // --- STREAMING ---
+        const { menu, verb } = this.splitCommand(command);
+        const follow = params['follow'] !== undefined || params['follow-only'] !== undefined;
+
+        if (verb === 'print' && follow && tag) {
+            return this.startFollow(session, menu, params, queries, tag);
+        }
+
+        const streamHandler = this.streamHandlers.get(command);
+        if (streamHandler && tag) {
+            const cleanup = streamHandler(params, row => {
+                this.sendSentence(session, ['!re', ...this.attributeWords(this.stringify(row)), `.tag=${tag}`]);
+            });
+            session.streams.set(tag, cleanup || (() => {}));
+            return;
+        }
+
+        // --- ONE-SHOT COMMANDS ---
+        const { rows, ret } = await this.execute(command, params, queries);
+
+        for (const row of rows) {
+            this.sendSentence(session, ['!re', ...this.attributeWords(row), ...this.tagWord(tag)]);
+        }
+        const done = ['!done'];
+        if (ret !== undefined) done.push(`=ret=${ret}`);
+        this.sendSentence(session, [...done, ...this.tagWord(tag)]);
+    }
+
+    private handleLogin(session: ApiSession, params: Record<string, string>, tag?: string): void {
+        const name = params['name'] || '';
+        const expected = this.users[name];
+
+        if (this.options.loginMode === 'challenge') {
+            // Step 1: hand out the challenge
+            if (params['response'] === undefined) {
+                session.challenge = crypto.randomBytes(16).toString('hex');
+                this.sendSentence(session, ['!done', `=ret=${session.challenge}`, ...this.tagWord(tag)]);
+                return;
+            }
+            // Step 2: verify MD5(0x00 + password + challenge)
+            const valid = expected !== undefined && session.challenge !== null &&
+                params['response'] === Auth.calculateLegacyMD5(expected, session.challenge);
+            return this.finishLogin(session, valid, tag);
+        }
+
+        this.finishLogin(session, expected !== undefined && params['password'] === expected, tag);
+    }
+
+    private finishLogin(session: ApiSession, valid: boolean, tag?: string): void {
+        if (!valid) {
+            this.sendTrap(session, tag, new MockCommandError('invalid user name or password (6)'));
+            return;
+        }
+        session.authenticated = true;
+        this.sendSentence(session, ['!done', ...this.tagWord(tag)]);
+    }
+
+    /**
+     * Implements `print =follow=` / `=follow-only=`:
+     * initial dump (follow only), then a `!re` per change and `.dead` packets for deletions.
+     */
+    private startFollow(
+        session: ApiSession,
+        menu: string,
+        params: Record<string, string>,
+        queries: string[],
+        tag: string
+    ): void {
+        const proplist = params['.proplist'] ? params['.proplist'].split(',') : null;
+        // Items the follower currently sees. Only those can "die" for it.
+        const visible = new Set<string>(this.store.query(menu, queries).map(item => item['.id']));
+
+        if (params['follow'] !== undefined) {
+            for (const item of this.store.query(menu, queries)) {
+                this.sendSentence(session, ['!re', ...this.attributeWords(this.project(item, proplist)), `.tag=${tag}`]);
+            }
+        }
+
+        const onChange = (path: string, item: MockItem, dead: boolean) => {
+            if (path !== menu) return;
+            const id = item['.id'];
+
+            if (!dead && MockMenuStore.matches(item, queries)) {
+                if (id) visible.add(id);
+                this.sendSentence(session, ['!re', ...this.attributeWords(this.project(item, proplist)), `.tag=${tag}`]);
+            } else if (id && visible.delete(id)) {
+                this.sendSentence(session, ['!re', `=.id=${id}`, '=.dead=true', `.tag=${tag}`]);
+            }
+        };
+
+        this.store.on('change', onChange);
+        session.streams.set(tag, () => this.store.removeListener('change', onChange));
+    }
+
+    private sendSentence(session: ApiSession, words: string[]): void {
+        if (session.socket.destroyed) return;
+        const buffers = words.map(word => RosProtocol.encodeSentence(word));
+        buffers.push(RosProtocol.encodeSentence(''));
+        session.socket.write(Buffer.concat(buffers));
+    }
+
+    private sendTrap(session: ApiSession, tag: string | undefined, error: any): void {
+        const words = ['!trap'];
+        if (error instanceof MockCommandError && error.category !== undefined) {
+            words.push(`=category=${error.category}`);
+        }
+        words.push(`=message=${error.message || String(error)}`);
+        this.sendSentence(session, [...words, ...this.tagWord(tag)]);
+        this.sendSentence(session, ['!done', ...this.tagWord(tag)]);
+    }
+
+    private tagWord(tag?: string): string[] {
+        return tag ? [`.tag=${tag}`] : [];
+    }
+
+    private attributeWords(item: MockItem): string[] {
+        return Object.entries(item).map(([key, value]) => `=${key}=${value}`);
+    }
+
+    // ==========================================
+    // REST TRANSPORT (HTTPS /rest)
+    // ==========================================
+
+    private async handleRestRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        if (!this.isRestAuthorized(req.headers['authorization'])) {
+            return this.sendRestJson(res, 401, { error: 401, message: 'Unauthorized' });
+        }
+
+        const url = new URL(req.url || '/', 'https://mock');
+        if (!url.pathname.startsWith('/rest/')) {
+            return this.sendRestJson(res, 404, { error: 404, message: 'Not Found' });
+        }
+
+        // "/rest/ip/address/*1" -> path "/ip/address", id "*1"
+        const segments = decodeURIComponent(url.pathname.substring(5)).split('/').filter(Boolean);
+        const id = segments.length > 0 && segments[segments.length - 1].startsWith('*') ? segments.pop() : undefined;
+        const path = '/' + segments.join('/');
+        const body = await this.readJsonBody(req);
+        const method = (req.method || 'GET').toUpperCase();
+
+        const hidden = this.options.restUnavailable || [];
+        if (hidden.some(menu => path === menu || path.startsWith(`${menu}/`))) {
+            return this.sendRestJson(res, 404, { error: 404, message: 'Not Found' });
+        }
+
+        let command: string;
+        let params: Record<string, string> = this.stringify(body || {});
+        let queries: string[] = [];
+
+        if (method === 'GET') {
+            command = `${path}/print`;
+            url.searchParams.forEach((value, key) => queries.push(`?${key}=${value}`));
+            if (id) queries.push(`?.id=${id}`);
+        } else if (method === 'PUT') {
+            command = `${path}/add`;
+        } else if (method === 'PATCH') {
+            command = `${path}/set`;
+            if (id) params['.id'] = id;
+        } else if (method === 'DELETE') {
+            command = `${path}/remove`;
+            if (id) params['.id'] = id;
+        } else {
+            // POST: universal command endpoint, e.g. /rest/ip/address/print with .query/.proplist
+            command = path;
+            if (body && Array.isArray(body['.query'])) {
+                queries = body['.query'].map((q: string) => (q.startsWith('?') ? q : `?${q}`));
+                delete params['.query'];
+            }
+            if (body && Array.isArray(body['.proplist'])) {
+                params['.proplist'] = body['.proplist'].join(',');
+            }
+        }
+
+        this.emit('command', { transport: 'rest', command, params, queries } as MockCommandRecord);
+        this.checkInjectedTraps(command);
+
+        const { rows, ret } = await this.execute(command, params, queries);
+        const { verb } = this.splitCommand(command);
+
+        if (method === 'DELETE') {
+            res.writeHead(204);
+            return void res.end();
+        }
+        if (method === 'GET' && id) {
+            if (rows.length === 0) throw new MockCommandError('no such item', 0, 404);
+            return this.sendRestJson(res, 200, rows[0]);
+        }
+        if (method === 'GET' && this.store.isSingleton(path)) {
+            return this.sendRestJson(res, 200, rows[0] || {});
+        }
+        if (method === 'PUT') {
+            // RouterOS answers a REST add with the created item
+            return this.sendRestJson(res, 200, this.store.get(path, ret!) || {});
+        }
+        if (method === 'PATCH') {
+            return this.sendRestJson(res, 200, rows[0] || {});
+        }
+        if (verb === 'print' || method === 'GET') {
+            return this.sendRestJson(res, 200, rows);
+        }
+        return this.sendRestJson(res, 200, ret !== undefined ? { ret } : rows);
+    }
+
+    private isRestAuthorized(header?: string): boolean {
+        if (!header || !header.startsWith('Basic ')) return false;
+        const decoded = Buffer.from(header.substring(6), 'base64').toString('utf8');
+        const separator = decoded.indexOf(':');
+        const name = decoded.substring(0, separator);
+        const password = decoded.substring(separator + 1);
+        return this.users[name] !== undefined && this.users[name] === password;
+    }
+
+    private readJsonBody(req: IncomingMessage): Promise<any> {
+        return new Promise((resolve, reject) => {
+            const chunks: Buffer[] = [];
+            req.on('data', (chunk: Buffer) => chunks.push(chunk));
+            req.on('error', reject);
+            req.on('end', () => {
+                const text = Buffer.concat(chunks).toString('utf8');
+                if (!text) return resolve(null);
+                try {
+                    resolve(JSON.parse(text));
+                } catch {
+                    reject(new MockCommandError('invalid JSON body', undefined, 400));
+                }
+            });
+        });
+    }
+
+    private sendRestError(res: ServerResponse, error: any): void {
+        const status = error instanceof MockCommandError ? error.status : 500;
+        const message = (RosHttpMessages[status] || 'Error').split(':')[0];
+        this.sendRestJson(res, status, { error: status, message, detail: error.message || String(error) });
+    }
+
+    private sendRestJson(res: ServerResponse, status: number, payload: any): void {
+        const json = JSON.stringify(payload);
+        res.writeHead(status, { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(json) });
+        res.end(json);
+    }
+
+    // ==========================================
+    // SHARED COMMAND EXECUTION
+    // ==========================================
+
+    /**
+     * Executes a one-shot command against the store. Used by both transports.
+     */
+    private async execute(
+        command: string,
+        params: Record<string, string>,
+        queries: string[]
+    ): Promise<{ rows: MockItem[]; ret?: string }> {
+        const custom = this.handlers.get(command);
+        if (custom) {
+            const rows = await custom(params);
+            return { rows: (rows || []).map(row => this.stringify(row)) };
+        }
+
+        const { menu, verb } = this.splitCommand(command);
+        const ids = (params['.id'] || params['numbers'] || '').split(',').filter(Boolean);
+
+        switch (verb) {
+            case 'print':
+            case 'getall': {
+                const filters = [...queries];
+                if (params['.id']) filters.push(`?.id=${params['.id']}`);
+                const items = this.store.query(menu, filters);
+
+                if (params['count-only'] !== undefined) {
+                    return { rows: [], ret: String(items.length) };
+                }
+                const proplist = params['.proplist'] ? params['.proplist'].split(',') : null;
+                return { rows: items.map(item => this.project(item, proplist)) };
+            }
+            case 'add':
+                return { rows: [], ret: this.store.add(menu, params)['.id'] };
+            case 'set':
+                if (ids.length === 0) return { rows: [this.store.set(menu, undefined, params)] };
+                return { rows: ids.map(id => this.store.set(menu, id, params)) };
+            case 'unset':
+                return { rows: ids.map(id => this.store.unset(menu, id, params['value-name'])) };
+            case 'enable':
+            case 'disable':
+                return { rows: ids.map(id => this.store.set(menu, id, { disabled: verb === 'disable' ? 'true' : 'false' })) };
+            case 'remove':
+                this.store.remove(menu, ids);
+                return { rows: [] };
+            case 'move':
+                for (const id of ids) this.store.move(menu, id, params['destination']);
+                return { rows: [] };
+            default:
+                throw new MockCommandError('no such command prefix', 0, 400);
+        }
+    }
+
+    private checkInjectedTraps(command: string): void {
+        const rule = this.trapRules.find(r =>
+            typeof r.command === 'string' ? r.command === command : r.command.test(command)
+        );
+        if (!rule) return;
+
+        rule.times = (rule.times ?? 1) - 1;
+        if (rule.times <= 0) this.trapRules.splice(this.trapRules.indexOf(rule), 1);
+
+        throw new MockCommandError(rule.message, rule.category, rule.status ?? 400);
+    }
+
+    private splitCommand(command: string): { menu: string; verb: string } {
+        const index = command.lastIndexOf('/');
+        return { menu: command.substring(0, index) || '/', verb: command.substring(index + 1) };
+    }
+
+    private project(item: MockItem, proplist: string[] | null): MockItem {
+        if (!proplist) return item;
+        const projected: MockItem = {};
+        for (const key of proplist) {
+            if (item[key] !== undefined) projected[key] = item[key];
+        }
+        // Followers always need the identity to apply updates
+        if (item['.id'] && !projected['.id']) projected['.id'] = item['.id'];
+        return projected;
+    }
+
+    private stringify(values: Record<string, any>): MockItem {
+        const item: MockItem = {};
+        for (const [key, value] of Object.entries(values)) {
+            if (value === undefined || value === null) continue;
+            item[key] = typeof value === 'boolean' ? (value ? 'true' : 'false') : String(value);
+        }
+        return item;
+    }
+
+    private listen(server: net.Server, port: number): Promise<number> {
+        return new Promise((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(port, this.options.host, () => {
+                server.removeListener('error', reject);
+                resolve((server.address() as net.AddressInfo).port);
+            });
+        });
+    }
+
+    /**
+     * Populates the menus MikrotikClient reads during connect() (SchemaMapper)
+     * plus the user-provided seed.
+     */
+    private seedDefaults(): void {
+        this.store.setSingleton('/system/resource', {
+            version: `${this.options.version} (stable)`,
+            'board-name': 'CHR',
+            'architecture-name': 'x86_64',
+            'cpu-load': '1',
+            uptime: '1d00:00:00',
+            'free-memory': '268435456',
+            'total-memory': '536870912'
+        });
+        this.store.setSingleton('/system/identity', { name: 'MockRouter' });
+        this.store.seed('/system/package', [{ name: 'routeros', version: this.options.version }]);
+
+        for (const [path, items] of Object.entries(this.options.seed || {})) {
+            this.store.seed(path, items);
+        }
+    }
+}
@@ -6,9 +6,13 @@
 // ===============================================
 // MAIN CLIENTS
 // ===============================================
-export { MikrotikClient, MikrotikOptions, Subscription } from '../client/MikrotikClient';
-export { MikrotikPool, PoolOptions } from '../client/MikrotikPool';
+export { MikrotikClient, MikrotikOptions, Subscription, ReconnectingEvent, ReconnectedEvent, IWriteOptions, IStreamOptions, IListenOptions, IDeadlineOptions, ProtocolStats } from '../client/MikrotikClient';
+export { MikrotikPool, PoolOptions, PoolStats } from '../client/MikrotikPool';
+export { MikrotikSwarm, MikrotikSwarmOptions, SwarmResult, SwarmInventoryOptions, InventoryChange } from '../client/MikrotikSwarm';
+export { SwarmRollout, RolloutStep, RolloutOptions, RolloutNodeStatus, RolloutNodeResult, RolloutReport, RolloutEvent } from '../client/SwarmRollout';
 export { CommandBuilder } from '../client/CommandBuilder';
+export { QueryBuilder } from '../client/QueryBuilder';
+export { MikrotikTransaction, TransactionError, TransactionReport, TransactionStepResult, TransactionStepStatus, TransactionStepOptions, TransactionCommand, CheckpointOptions } from '../client/MikrotikTransaction';
 
 // ===============================================
 // FEATURES & TOOLS
@@ -18,6 +22,10 @@ export { PrometheusExporter, MetricDefinition, MetricType } from '../features/Pr
 
 // File Manager (Class Type for TypeScript users)
 export { FileManager } from '../features/FileManager';
+export { Reconciler, ReconcilePlan, ReconcileOptions, ReconcileOperation, ReconcileReport, ReconcileItemResult, FieldChange } from '../features/Reconciler';
+export { Inventory, InventoryDocument, InventoryNode, InventorySettings, InventoryCredentials, InventoryError, NodeLabels, ResolvedNode, TargetExpression } from '../features/Inventory';
+export { SnapshotSubscription, SnapshotDiff, SnapshotDiffOptions, SnapshotItemChange, SnapshotFieldChange, SnapshotStatus, SnapshotObserver, SnapshotObservation } from '../client/SnapshotSubscription';
+export { LiveCollectionOptions, SnapshotCallback } from '../features/LiveCollection';
 
 // ===============================================
 // CORE CONFIGURATION & TYPES
@@ -25,12 +33,47 @@ export { FileManager } from '../features/FileManager';
 // Circuit Breaker (Enums & Options needed for configuration)
 export { CircuitBreaker, CircuitBreakerOptions, CircuitBreakerState } from '../core/CircuitBreaker';
 
+// Reconnection Backoff (Options for the auto-reconnect supervisor)
+export { ReconnectPolicy, ReconnectOptions } from '../core/ReconnectPolicy';
+
 // Rate Limiter (Class Type)
 export { RateLimiter } from '../core/RateLimiter';
 
+// Middleware Pipeline (client.use) & Read Cache
+export { MiddlewarePipeline, Middleware, MiddlewareOptions, CommandContext, NextFunction, BUILT_IN_MIDDLEWARES, queryCacheMiddleware, circuitBreakerMiddleware, rateLimiterMiddleware } from '../core/Middleware';
+export { QueryCache } from '../core/QueryCache';
+
+// Command Policy (Allow/Deny rules & read-only preset)
+export { PolicyGuard, PolicyOptions, PolicyRule, PolicyViolationError } from '../core/PolicyGuard';
+
+// Structured Logging (logger option)
+export { Logger, LogLevel, LogContext, ConsoleLogger, ConsoleLoggerOptions, ContextLogger, noopLogger } from '../core/Logger';
+
+// Secret Redaction (errors, logs, recordings)
+export { Redactor } from '../core/Redactor';
+
+// Typed Values (decoding option, codecs & lossless mode)
+export { DecodingProfile, DecodingOptions, ValueCodec, CodecName, FieldCodecs, Codecs, TxRx, MacAddress, IpAddress } from '../core/ValueCodec';
+
+// Stream Iterators (for await, bounded buffers)
+export { StreamIterator, IteratorOptions, OverflowPolicy, StreamOverflowError } from '../core/StreamIterator';
+
 // Auto-Topology (Schema Type)
 export { SchemaMapper } from '../core/SchemaMapper';
 
+// Typed Errors (Router failures, Socket traps, Deadlines & Cancellation)
+export { RosError, RosTimeoutError, RosAbortError, RosTrapError, RosFatalError, RosTrapCategory } from '../core/RosError';
+
+// Traffic Recorder & Replay (Cassettes)
+export { TrafficRecorder, CassetteOptions, CassetteHeader, CassetteEntry, CASSETTE_VERSION, REDACTED } from '../core/TrafficRecorder';
+export { Cassette, ReplaySocket, ReplayRest, CassetteMismatchError } from '../core/ReplayTransport';
+
+// SSH Transport (CLI channel)
+export { SshChannel, SshOptions, SshExecResult, SshExecOptions } from '../core/SshChannel';
+
+// Offline Queue (Persistent writes)
+export { OfflineQueue, OfflineQueueOptions, OfflineQueueStore, MemoryQueueStore, JsonFileQueueStore, DeferredTask } from '../core/OfflineQueue';
+
 // ===============================================
 // UTILITIES & DATA STRUCTURES
 // ===============================================
@@ -43,4 +86,17 @@ export * from '../utils/Helpers';
 // ===============================================
 export { SocketClient, SocketClientOptions } from '../core/SocketClient';
 export { RosProtocol } from '../core/RosProtocol';
-export { Auth } from '../core/Auth';
\ No newline at end of file
+export { Auth } from '../core/Auth';
+// ===============================================
+// TESTING
+// ===============================================
+export {
+    MockRouterServer,
+    MockRouterOptions,
+    MockRouterAddress,
+    MockTrapRule,
+    MockCommandRecord,
+    MockCommandHandler,
+    MockStreamHandler
+} from '../testing/MockRouterServer';
+export { MockMenuStore, MockItem, MockCommandError, MockStoreSnapshot } from '../testing/MockMenuStore';